@@ -2,13 +2,32 @@ import { createRouter, createRoute, createRootRoute, RouterProvider, Outlet } fr
 import MarketplacePage from './pages/MarketplacePage';
 import AdminPage from './pages/AdminPage';
 import CartPage from './pages/CartPage';
+import ProductPage from './pages/ProductPage';
+import SearchPage from './pages/SearchPage';
 import PaymentSuccess from './pages/PaymentSuccess';
 import PaymentFailure from './pages/PaymentFailure';
+import OrdersPage from './pages/OrdersPage';
+import OrderDetailPage from './pages/OrderDetailPage';
 import Header from './components/Header';
 import Footer from './components/Footer';
+import { useGuestCartMerge } from './hooks/useCart';
+import { toast } from 'sonner';
+import type { ProductSort } from './backend';
+import {
+  CATALOGUE_SORTS,
+  SEARCH_SORTS,
+  parsePageNumber,
+  parseProductFilterSearch,
+  parseProductSort,
+  type ProductFilterSearch,
+} from './utils/products';
 
-const rootRoute = createRootRoute({
-  component: () => (
+function RootLayout() {
+  useGuestCartMerge((names) =>
+    toast.warning(`Some items from your cart were reduced to the stock left or removed: ${names.join(', ')}`)
+  );
+
+  return (
     <div className="flex min-h-screen flex-col">
       <Header />
       <main className="flex-1">
@@ -16,13 +35,23 @@ const rootRoute = createRootRoute({
       </main>
       <Footer />
     </div>
-  ),
+  );
+}
+
+const rootRoute = createRootRoute({
+  component: RootLayout,
 });
 
 const indexRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/',
   component: MarketplacePage,
+  // Everything is optional so plain links to the shop keep a clean URL
+  validateSearch: (search: Record<string, unknown>): { sort?: ProductSort; page?: number } & ProductFilterSearch => ({
+    sort: search.sort === undefined ? undefined : parseProductSort(search.sort, CATALOGUE_SORTS),
+    page: search.page === undefined ? undefined : parsePageNumber(search.page),
+    ...parseProductFilterSearch(search),
+  }),
 });
 
 const adminRoute = createRoute({
@@ -31,6 +60,25 @@ const adminRoute = createRoute({
   component: AdminPage,
 });
 
+const productRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/product/$slug',
+  component: ProductPage,
+});
+
+const searchRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/search',
+  component: SearchPage,
+  validateSearch: (search: Record<string, unknown>) => ({
+    // Numeric-looking queries arrive parsed as numbers
+    q: typeof search.q === 'string' || typeof search.q === 'number' ? String(search.q) : '',
+    sort: parseProductSort(search.sort, SEARCH_SORTS),
+    page: parsePageNumber(search.page),
+    ...parseProductFilterSearch(search),
+  }),
+});
+
 const cartRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/cart',
@@ -41,6 +89,10 @@ const paymentSuccessRoute = createRoute({
   getParentRoute: () => rootRoute,
   path: '/payment-success',
   component: PaymentSuccess,
+  // Stripe adds the checkout session id when it sends the buyer back
+  validateSearch: (search: Record<string, unknown>): { session_id?: string } => ({
+    session_id: typeof search.session_id === 'string' ? search.session_id : undefined,
+  }),
 });
 
 const paymentFailureRoute = createRoute({
@@ -49,12 +101,28 @@ const paymentFailureRoute = createRoute({
   component: PaymentFailure,
 });
 
+const ordersRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/orders',
+  component: OrdersPage,
+});
+
+const orderDetailRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/orders/$orderId',
+  component: OrderDetailPage,
+});
+
 const routeTree = rootRoute.addChildren([
   indexRoute,
   adminRoute,
+  productRoute,
+  searchRoute,
   cartRoute,
   paymentSuccessRoute,
   paymentFailureRoute,
+  ordersRoute,
+  orderDetailRoute,
 ]);
 
 const router = createRouter({ routeTree });
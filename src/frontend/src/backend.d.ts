@@ -14,19 +14,30 @@ export class ExternalBlob {
     static fromBytes(blob: Uint8Array<ArrayBuffer>): ExternalBlob;
     withUploadProgress(onProgress: (percentage: number) => void): ExternalBlob;
 }
-export interface UserProfile {
-    name: string;
-}
-export interface Category {
-    name: string;
-    subcategories: Array<string>;
-    parent?: string;
-}
 export interface TransformationOutput {
     status: bigint;
     body: Uint8Array;
     headers: Array<http_header>;
 }
+export interface RefundRequest {
+    restock: boolean;
+    lines: Array<RefundLine>;
+    amount?: bigint;
+    reason: string;
+}
+export interface Refund {
+    id: string;
+    lines: Array<RefundLine>;
+    refundedAt: bigint;
+    refundedBy: Principal;
+    restocked: boolean;
+    amount: bigint;
+    reason: string;
+}
+export interface DiscountCodeUsage {
+    discountCode: DiscountCode;
+    uses: bigint;
+}
 export interface StoreSettings {
     currency: Currency;
     storeName: string;
@@ -34,15 +45,122 @@ export interface StoreSettings {
     storeDescription: string;
     taxRate: number;
 }
-export interface PriceConstraint {
-    category: string;
-    minPrice: string;
-}
 export interface CategoryV2 {
     name: string;
     subcategories: Array<string>;
     parent?: string;
 }
+export interface ProductResults {
+    total: bigint;
+    page: bigint;
+    pageSize: bigint;
+    items: Array<Product>;
+    facets: ProductFacets;
+}
+export interface ProductOption {
+    name: string;
+    values: Array<string>;
+}
+export interface ProductFacets {
+    categories: Array<CategoryCount>;
+    inStock: bigint;
+    maxPrice: bigint;
+    attributes: Array<AttributeFacet>;
+    newArrivals: bigint;
+    minPrice: bigint;
+}
+export interface ShippingQuote {
+    fee: bigint;
+    rate: string;
+}
+export type StripeSessionStatus = {
+    __kind__: "completed";
+    completed: {
+        session: CheckoutSession;
+    };
+} | {
+    __kind__: "failed";
+    failed: {
+        error: string;
+    };
+};
+export interface StripeConfiguration {
+    allowedCountries: Array<string>;
+    secretKey: string;
+}
+export interface RateTier {
+    fee: bigint;
+    upTo: bigint;
+}
+export interface DescriptionTemplate {
+    categoryId: string;
+    template: string;
+}
+export interface PageRequest {
+    page: bigint;
+    pageSize: bigint;
+}
+export interface ShippingAddress {
+    country?: string;
+    city?: string;
+    postalCode?: string;
+    line1?: string;
+    line2?: string;
+    state?: string;
+}
+export interface ShippingRate {
+    fee: bigint;
+    freeOver?: bigint;
+    tiers: Array<RateTier>;
+    name: string;
+    basis: RateBasis;
+}
+export interface CheckoutSession {
+    id: string;
+    url?: string;
+    status: SessionStatus;
+    paymentStatus: PaymentStatus;
+    amountTotal?: bigint;
+    clientReferenceId?: string;
+    currency?: string;
+    shippingDetails?: ShippingDetails;
+    customerEmail?: string;
+    paymentIntentId?: string;
+}
+export interface AttributeDefinition {
+    name: string;
+    valueType: AttributeType;
+    required: boolean;
+    choices: Array<string>;
+}
+export interface Sale {
+    startsAt?: bigint;
+    kind: DiscountKind;
+    amount: bigint;
+    endsAt?: bigint;
+}
+export interface Order {
+    id: string;
+    tax: bigint;
+    status: OrderStatus;
+    trackingNumber?: string;
+    total: bigint;
+    discountCode?: string;
+    createdAt: bigint;
+    shippingMethod?: string;
+    shipping: bigint;
+    history: Array<OrderEvent>;
+    updatedAt: bigint;
+    currency: Currency;
+    notes: string;
+    discount: bigint;
+    buyer: Principal;
+    items: Array<OrderItem>;
+    stripeSessionId: string;
+    refunds: Array<Refund>;
+    paymentIntentId?: string;
+    subtotal: bigint;
+}
 export interface http_header {
     value: string;
     name: string;
@@ -52,44 +170,167 @@ export interface http_request_result {
     body: Uint8Array;
     headers: Array<http_header>;
 }
-export interface BasketItem {
+export interface RefundLine {
     productId: string;
+    variantSku?: string;
     quantity: bigint;
 }
-export interface ShoppingItem {
+export type HttpHeader = [string, string];
+export interface DescriptionTemplates {
+    categories: Array<DescriptionTemplate>;
+    defaultTemplate: string;
+}
+export interface UserProfile {
+    name: string;
+}
+export interface OrderItem {
+    productId: string;
     productName: string;
-    currency: string;
+    variantSku?: string;
     quantity: bigint;
-    priceInCents: bigint;
-    productDescription: string;
+    unitPrice: bigint;
+}
+export interface ProductAttribute {
+    value: string;
+    name: string;
+}
+export interface PriceConstraint {
+    category: string;
+    minPrice: string;
+}
+export interface DiscountCode {
+    active: boolean;
+    expiresAt?: bigint;
+    code: string;
+    kind: DiscountKind;
+    minimumOrder?: bigint;
+    maxUses?: bigint;
+    amount: bigint;
+    maxUsesPerCustomer?: bigint;
+    categoryIds: Array<string>;
+}
+export interface OrderEvent {
+    status: OrderStatus;
+    changedAt: bigint;
+    changedBy: Principal;
+    note: string;
 }
 export interface TransformationInput {
     context: Uint8Array;
     response: http_request_result;
 }
-export type StripeSessionStatus = {
-    __kind__: "completed";
-    completed: {
-        userPrincipal?: string;
-        response: string;
-    };
-} | {
-    __kind__: "failed";
-    failed: {
-        error: string;
-    };
-};
-export interface StripeConfiguration {
-    allowedCountries: Array<string>;
-    secretKey: string;
+export interface ShippingChoice {
+    country: string;
+    rate: string;
+}
+export interface BasketQuote {
+    tax: bigint;
+    total: bigint;
+    discountCode?: string;
+    shippingMethod?: string;
+    shipping: bigint;
+    currency: Currency;
+    discount: bigint;
+    items: Array<OrderItem>;
+    subtotal: bigint;
+}
+export interface Category {
+    name: string;
+    subcategories: Array<string>;
+    parent?: string;
+}
+export interface CategoryCount {
+    categoryId: string;
+    count: bigint;
+}
+export interface ProductUpdate {
+    categoryId?: string;
+    weight?: bigint;
+    name?: string;
+    description?: string;
+    attributes?: Array<ProductAttribute>;
+    price?: bigint;
+}
+export interface ShippingDetails {
+    name?: string;
+    address: ShippingAddress;
+}
+export interface BasketItem {
+    productId: string;
+    variantSku?: string;
+    quantity: bigint;
+}
+export interface AttributeValueCount {
+    value: string;
+    displayValue: string;
+    count: bigint;
+}
+export interface ShippingZone {
+    name: string;
+    countries: Array<string>;
+    rates: Array<ShippingRate>;
+}
+export interface ProductVariant {
+    sku: string;
+    stock: bigint;
+    optionValues: Array<string>;
+    price: bigint;
+}
+export interface ProductFilter {
+    newArrivalsOnly: boolean;
+    inStockOnly: boolean;
+    maxPrice?: bigint;
+    attributes: Array<AttributeFilter>;
+    minPrice?: bigint;
+    categoryIds: Array<string>;
+}
+export interface AttributeFacet {
+    name: string;
+    values: Array<AttributeValueCount>;
+}
+export interface AttributeFilter {
+    name: string;
+    values: Array<string>;
+}
+export interface HttpResponse {
+    body: Uint8Array;
+    headers: Array<HttpHeader>;
+    upgrade?: boolean;
+    status_code: number;
+}
+export interface OrderFilter {
+    status?: OrderStatus;
+    createdBefore?: bigint;
+    createdAfter?: bigint;
+}
+export interface HttpRequest {
+    url: string;
+    method: string;
+    body: Uint8Array;
+    headers: Array<HttpHeader>;
 }
 export interface Product {
     id: string;
     categoryId: string;
+    weight: bigint;
     name: string;
+    createdAt: bigint;
+    sale?: Sale;
+    slug: string;
     description: string;
-    image: ExternalBlob;
+    variants: Array<ProductVariant>;
+    stock: bigint;
+    attributes: Array<ProductAttribute>;
     price: bigint;
+    options: Array<ProductOption>;
+    archived: boolean;
+    images: Array<ExternalBlob>;
+}
+export enum AttributeType {
+    text = "text",
+    boolean_ = "boolean",
+    number_ = "number",
+    choice = "choice"
 }
 export enum Currency {
     aud = "aud",
@@ -98,6 +339,41 @@ export enum Currency {
     gbp = "gbp",
     usd = "usd"
 }
+export enum DiscountKind {
+    fixed = "fixed",
+    percentage = "percentage"
+}
+export enum OrderStatus {
+    shipped = "shipped",
+    cancelled = "cancelled",
+    pending = "pending",
+    paid = "paid",
+    refunded = "refunded",
+    delivered = "delivered",
+    packed = "packed"
+}
+export enum PaymentStatus {
+    paid = "paid",
+    unpaid = "unpaid",
+    noPaymentRequired = "noPaymentRequired"
+}
+export enum ProductSort {
+    newest = "newest",
+    relevance = "relevance",
+    nameAsc = "nameAsc",
+    priceDesc = "priceDesc",
+    priceAsc = "priceAsc"
+}
+export enum RateBasis {
+    weight = "weight",
+    flat = "flat",
+    orderTotal = "orderTotal"
+}
+export enum SessionStatus {
+    expired = "expired",
+    open = "open",
+    complete = "complete"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
@@ -106,41 +382,79 @@ export enum UserRole {
 export interface backendInterface {
     addAdmin(admin: Principal): Promise<void>;
     addCategory(category: CategoryV2): Promise<boolean>;
-    addProduct(name: string, price: bigint, image: ExternalBlob, categoryId: string): Promise<void>;
-    addToBasket(productId: string, quantity: bigint): Promise<void>;
+    addProduct(name: string, price: bigint, images: Array<ExternalBlob>, categoryId: string, stock: bigint, attributes: Array<ProductAttribute>, description: string | null): Promise<void>;
+    addProductImages(productId: string, images: Array<ExternalBlob>): Promise<Product>;
+    addToBasket(productId: string, variantSku: string | null, quantity: bigint): Promise<void>;
+    archiveProduct(productId: string, archived: boolean): Promise<Product>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    cancelCheckout(): Promise<void>;
+    checkoutBasket(successUrl: string, cancelUrl: string, shipping: ShippingChoice | null, discountCode: string | null): Promise<CheckoutSession>;
     clearBasket(): Promise<void>;
-    createCheckoutSession(items: Array<ShoppingItem>, successUrl: string, cancelUrl: string): Promise<string>;
     /**
      * / Only called on init
      */
     createDefaultCategoriesAndPriceConstraints(): Promise<void>;
     deleteCategory(name: string): Promise<void>;
+    deleteDiscountCode(code: string): Promise<void>;
+    deleteProduct(productId: string): Promise<void>;
     editCategory(oldName: string, newCategory: Category): Promise<void>;
     finishBatchUpload(): Promise<void>;
     getAdmins(): Promise<Array<Principal>>;
     getAllProducts(): Promise<Array<Product>>;
+    getAttributeSchema(categoryId: string): Promise<Array<AttributeDefinition>>;
     getBasket(): Promise<Array<BasketItem>>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
     getCategories(): Promise<Array<CategoryV2>>;
     getCategory(name: string): Promise<CategoryV2 | null>;
+    getCategoryAttributes(categoryId: string): Promise<Array<AttributeDefinition>>;
+    getDescriptionTemplates(): Promise<DescriptionTemplates>;
+    getMyOrders(): Promise<Array<Order>>;
+    getOrder(orderId: string): Promise<Order | null>;
     getPriceConstraint(category: string): Promise<PriceConstraint | null>;
     getProduct(productId: string): Promise<Product | null>;
+    getProductBySlug(slug: string): Promise<Product | null>;
+    getShippingZones(): Promise<Array<ShippingZone>>;
     getStoreSettings(): Promise<StoreSettings | null>;
     getStripeSessionStatus(sessionId: string): Promise<StripeSessionStatus>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
+    http_request(request: HttpRequest): Promise<HttpResponse>;
+    http_request_update(request: HttpRequest): Promise<HttpResponse>;
     isCallerAdmin(): Promise<boolean>;
     isStripeConfigured(): Promise<boolean>;
+    isStripeWebhookConfigured(): Promise<boolean>;
+    listDiscountCodes(): Promise<Array<DiscountCodeUsage>>;
+    listOrders(filter: OrderFilter): Promise<Array<Order>>;
+    listProducts(filters: ProductFilter, sort: ProductSort, page: PageRequest): Promise<ProductResults>;
+    mergeIntoBasket(items: Array<BasketItem>): Promise<Array<string>>;
+    quoteBasket(items: Array<BasketItem>, shipping: ShippingChoice | null, discountCode: string | null): Promise<BasketQuote>;
+    quoteShipping(items: Array<BasketItem>, country: string): Promise<Array<ShippingQuote>>;
+    refundOrder(orderId: string, request: RefundRequest): Promise<Order>;
     removeAdmin(admin: Principal): Promise<void>;
-    removeFromBasket(productId: string): Promise<void>;
+    removeFromBasket(productId: string, variantSku: string | null): Promise<void>;
+    removeProductImage(productId: string, index: bigint): Promise<Product>;
     reorderCategories(categoryList: Array<CategoryV2>): Promise<void>;
+    reorderProductImages(productId: string, order: Array<bigint>): Promise<Product>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
+    saveDiscountCode(discountCode: DiscountCode): Promise<void>;
+    searchProducts(queryText: string, filters: ProductFilter, sort: ProductSort, page: PageRequest): Promise<ProductResults>;
+    setCategoryAttributes(categoryId: string, attributes: Array<AttributeDefinition>): Promise<void>;
+    setCategorySale(categoryId: string, sale: Sale | null): Promise<bigint>;
+    setDescriptionTemplate(categoryId: string | null, template: string): Promise<void>;
+    setProductSale(productId: string, sale: Sale | null): Promise<Product>;
+    setProductVariants(productId: string, options: Array<ProductOption>, variants: Array<ProductVariant>): Promise<Product>;
+    setShippingZones(zones: Array<ShippingZone>): Promise<void>;
     setStripeConfiguration(config: StripeConfiguration): Promise<void>;
+    setStripeWebhookSecret(secret: string): Promise<void>;
     startBatchUpload(categoryId: string): Promise<void>;
     transform(input: TransformationInput): Promise<TransformationOutput>;
+    updateBasketQuantity(productId: string, variantSku: string | null, quantity: bigint): Promise<void>;
     updateCategory(category: Category): Promise<void>;
+    updateOrderFulfillment(orderId: string, trackingNumber: string | null, notes: string): Promise<Order>;
+    updateOrderStatus(orderId: string, status: OrderStatus, note: string): Promise<Order>;
+    updateProduct(productId: string, update: ProductUpdate): Promise<Product>;
     updateProductImage(productId: string, newImage: ExternalBlob): Promise<Product>;
+    updateProductStock(productId: string, stock: bigint): Promise<Product>;
     updateStoreSettings(newSettings: StoreSettings): Promise<void>;
-    uploadProductImage(name: string, image: ExternalBlob, price: bigint, categoryId: string): Promise<void>;
+    uploadProductImage(name: string, image: ExternalBlob, price: bigint, categoryId: string, stock: bigint, attributes: Array<ProductAttribute>): Promise<void>;
 }
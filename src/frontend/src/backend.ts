@@ -89,21 +89,29 @@ export class ExternalBlob {
         return this;
     }
 }
-export interface UserProfile {
-    name: string;
-}
-export interface Category {
-    name: string;
-    subcategories: Array<string>;
-    parent?: string;
-}
 export interface TransformationOutput {
     status: bigint;
     body: Uint8Array;
     headers: Array<http_header>;
 }
-export interface _CaffeineStorageRefillInformation {
-    proposed_top_up_amount?: bigint;
+export interface RefundRequest {
+    restock: boolean;
+    lines: Array<RefundLine>;
+    amount?: bigint;
+    reason: string;
+}
+export interface Refund {
+    id: string;
+    lines: Array<RefundLine>;
+    refundedAt: bigint;
+    refundedBy: Principal;
+    restocked: boolean;
+    amount: bigint;
+    reason: string;
+}
+export interface DiscountCodeUsage {
+    discountCode: DiscountCode;
+    uses: bigint;
 }
 export interface StoreSettings {
     currency: Currency;
@@ -112,48 +120,38 @@ export interface StoreSettings {
     storeDescription: string;
     taxRate: number;
 }
-export interface PriceConstraint {
-    category: string;
-    minPrice: string;
-}
-export interface _CaffeineStorageCreateCertificateResult {
-    method: string;
-    blob_hash: string;
-}
 export interface CategoryV2 {
     name: string;
     subcategories: Array<string>;
     parent?: string;
 }
-export interface http_header {
-    value: string;
-    name: string;
-}
-export interface http_request_result {
-    status: bigint;
-    body: Uint8Array;
-    headers: Array<http_header>;
+export interface ProductResults {
+    total: bigint;
+    page: bigint;
+    pageSize: bigint;
+    items: Array<Product>;
+    facets: ProductFacets;
 }
-export interface BasketItem {
-    productId: string;
-    quantity: bigint;
+export interface ProductOption {
+    name: string;
+    values: Array<string>;
 }
-export interface ShoppingItem {
-    productName: string;
-    currency: string;
-    quantity: bigint;
-    priceInCents: bigint;
-    productDescription: string;
+export interface ProductFacets {
+    categories: Array<CategoryCount>;
+    inStock: bigint;
+    maxPrice: bigint;
+    attributes: Array<AttributeFacet>;
+    newArrivals: bigint;
+    minPrice: bigint;
 }
-export interface TransformationInput {
-    context: Uint8Array;
-    response: http_request_result;
+export interface ShippingQuote {
+    fee: bigint;
+    rate: string;
 }
 export type StripeSessionStatus = {
     __kind__: "completed";
     completed: {
-        userPrincipal?: string;
-        response: string;
+        session: CheckoutSession;
     };
 } | {
     __kind__: "failed";
@@ -165,17 +163,260 @@ export interface StripeConfiguration {
     allowedCountries: Array<string>;
     secretKey: string;
 }
+export interface RateTier {
+    fee: bigint;
+    upTo: bigint;
+}
+export interface DescriptionTemplate {
+    categoryId: string;
+    template: string;
+}
+export interface PageRequest {
+    page: bigint;
+    pageSize: bigint;
+}
+export interface ShippingAddress {
+    country?: string;
+    city?: string;
+    postalCode?: string;
+    line1?: string;
+    line2?: string;
+    state?: string;
+}
+export interface ShippingRate {
+    fee: bigint;
+    freeOver?: bigint;
+    tiers: Array<RateTier>;
+    name: string;
+    basis: RateBasis;
+}
+export interface CheckoutSession {
+    id: string;
+    url?: string;
+    status: SessionStatus;
+    paymentStatus: PaymentStatus;
+    amountTotal?: bigint;
+    clientReferenceId?: string;
+    currency?: string;
+    shippingDetails?: ShippingDetails;
+    customerEmail?: string;
+    paymentIntentId?: string;
+}
+export interface AttributeDefinition {
+    name: string;
+    valueType: AttributeType;
+    required: boolean;
+    choices: Array<string>;
+}
+export interface Sale {
+    startsAt?: bigint;
+    kind: DiscountKind;
+    amount: bigint;
+    endsAt?: bigint;
+}
+export interface Order {
+    id: string;
+    tax: bigint;
+    status: OrderStatus;
+    trackingNumber?: string;
+    total: bigint;
+    discountCode?: string;
+    createdAt: bigint;
+    shippingMethod?: string;
+    shipping: bigint;
+    history: Array<OrderEvent>;
+    updatedAt: bigint;
+    currency: Currency;
+    notes: string;
+    discount: bigint;
+    buyer: Principal;
+    items: Array<OrderItem>;
+    stripeSessionId: string;
+    refunds: Array<Refund>;
+    paymentIntentId?: string;
+    subtotal: bigint;
+}
+export interface http_header {
+    value: string;
+    name: string;
+}
+export interface http_request_result {
+    status: bigint;
+    body: Uint8Array;
+    headers: Array<http_header>;
+}
+export interface RefundLine {
+    productId: string;
+    variantSku?: string;
+    quantity: bigint;
+}
+export type HttpHeader = [string, string];
+export interface DescriptionTemplates {
+    categories: Array<DescriptionTemplate>;
+    defaultTemplate: string;
+}
 export interface _CaffeineStorageRefillResult {
     success?: boolean;
     topped_up_amount?: bigint;
 }
+export interface UserProfile {
+    name: string;
+}
+export interface _CaffeineStorageRefillInformation {
+    proposed_top_up_amount?: bigint;
+}
+export interface OrderItem {
+    productId: string;
+    productName: string;
+    variantSku?: string;
+    quantity: bigint;
+    unitPrice: bigint;
+}
+export interface ProductAttribute {
+    value: string;
+    name: string;
+}
+export interface PriceConstraint {
+    category: string;
+    minPrice: string;
+}
+export interface _CaffeineStorageCreateCertificateResult {
+    method: string;
+    blob_hash: string;
+}
+export interface DiscountCode {
+    active: boolean;
+    expiresAt?: bigint;
+    code: string;
+    kind: DiscountKind;
+    minimumOrder?: bigint;
+    maxUses?: bigint;
+    amount: bigint;
+    maxUsesPerCustomer?: bigint;
+    categoryIds: Array<string>;
+}
+export interface OrderEvent {
+    status: OrderStatus;
+    changedAt: bigint;
+    changedBy: Principal;
+    note: string;
+}
+export interface TransformationInput {
+    context: Uint8Array;
+    response: http_request_result;
+}
+export interface ShippingChoice {
+    country: string;
+    rate: string;
+}
+export interface BasketQuote {
+    tax: bigint;
+    total: bigint;
+    discountCode?: string;
+    shippingMethod?: string;
+    shipping: bigint;
+    currency: Currency;
+    discount: bigint;
+    items: Array<OrderItem>;
+    subtotal: bigint;
+}
+export interface Category {
+    name: string;
+    subcategories: Array<string>;
+    parent?: string;
+}
+export interface CategoryCount {
+    categoryId: string;
+    count: bigint;
+}
+export interface ProductUpdate {
+    categoryId?: string;
+    weight?: bigint;
+    name?: string;
+    description?: string;
+    attributes?: Array<ProductAttribute>;
+    price?: bigint;
+}
+export interface ShippingDetails {
+    name?: string;
+    address: ShippingAddress;
+}
+export interface BasketItem {
+    productId: string;
+    variantSku?: string;
+    quantity: bigint;
+}
+export interface AttributeValueCount {
+    value: string;
+    displayValue: string;
+    count: bigint;
+}
+export interface ShippingZone {
+    name: string;
+    countries: Array<string>;
+    rates: Array<ShippingRate>;
+}
+export interface ProductVariant {
+    sku: string;
+    stock: bigint;
+    optionValues: Array<string>;
+    price: bigint;
+}
+export interface ProductFilter {
+    newArrivalsOnly: boolean;
+    inStockOnly: boolean;
+    maxPrice?: bigint;
+    attributes: Array<AttributeFilter>;
+    minPrice?: bigint;
+    categoryIds: Array<string>;
+}
+export interface AttributeFacet {
+    name: string;
+    values: Array<AttributeValueCount>;
+}
+export interface AttributeFilter {
+    name: string;
+    values: Array<string>;
+}
+export interface HttpResponse {
+    body: Uint8Array;
+    headers: Array<HttpHeader>;
+    upgrade?: boolean;
+    status_code: number;
+}
+export interface OrderFilter {
+    status?: OrderStatus;
+    createdBefore?: bigint;
+    createdAfter?: bigint;
+}
+export interface HttpRequest {
+    url: string;
+    method: string;
+    body: Uint8Array;
+    headers: Array<HttpHeader>;
+}
 export interface Product {
     id: string;
     categoryId: string;
+    weight: bigint;
     name: string;
+    createdAt: bigint;
+    sale?: Sale;
+    slug: string;
     description: string;
-    image: ExternalBlob;
+    variants: Array<ProductVariant>;
+    stock: bigint;
+    attributes: Array<ProductAttribute>;
     price: bigint;
+    options: Array<ProductOption>;
+    archived: boolean;
+    images: Array<ExternalBlob>;
+}
+export enum AttributeType {
+    text = "text",
+    boolean_ = "boolean",
+    number_ = "number",
+    choice = "choice"
 }
 export enum Currency {
     aud = "aud",
@@ -184,6 +425,41 @@ export enum Currency {
     gbp = "gbp",
     usd = "usd"
 }
+export enum DiscountKind {
+    fixed = "fixed",
+    percentage = "percentage"
+}
+export enum OrderStatus {
+    shipped = "shipped",
+    cancelled = "cancelled",
+    pending = "pending",
+    paid = "paid",
+    refunded = "refunded",
+    delivered = "delivered",
+    packed = "packed"
+}
+export enum PaymentStatus {
+    paid = "paid",
+    unpaid = "unpaid",
+    noPaymentRequired = "noPaymentRequired"
+}
+export enum ProductSort {
+    newest = "newest",
+    relevance = "relevance",
+    nameAsc = "nameAsc",
+    priceDesc = "priceDesc",
+    priceAsc = "priceAsc"
+}
+export enum RateBasis {
+    weight = "weight",
+    flat = "flat",
+    orderTotal = "orderTotal"
+}
+export enum SessionStatus {
+    expired = "expired",
+    open = "open",
+    complete = "complete"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
@@ -199,45 +475,83 @@ export interface backendInterface {
     _initializeAccessControlWithSecret(userSecret: string): Promise<void>;
     addAdmin(admin: Principal): Promise<void>;
     addCategory(category: CategoryV2): Promise<boolean>;
-    addProduct(name: string, price: bigint, image: ExternalBlob, categoryId: string): Promise<void>;
-    addToBasket(productId: string, quantity: bigint): Promise<void>;
+    addProduct(name: string, price: bigint, images: Array<ExternalBlob>, categoryId: string, stock: bigint, attributes: Array<ProductAttribute>, description: string | null): Promise<void>;
+    addProductImages(productId: string, images: Array<ExternalBlob>): Promise<Product>;
+    addToBasket(productId: string, variantSku: string | null, quantity: bigint): Promise<void>;
+    archiveProduct(productId: string, archived: boolean): Promise<Product>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
+    cancelCheckout(): Promise<void>;
+    checkoutBasket(successUrl: string, cancelUrl: string, shipping: ShippingChoice | null, discountCode: string | null): Promise<CheckoutSession>;
     clearBasket(): Promise<void>;
-    createCheckoutSession(items: Array<ShoppingItem>, successUrl: string, cancelUrl: string): Promise<string>;
     /**
      * / Only called on init
      */
     createDefaultCategoriesAndPriceConstraints(): Promise<void>;
     deleteCategory(name: string): Promise<void>;
+    deleteDiscountCode(code: string): Promise<void>;
+    deleteProduct(productId: string): Promise<void>;
     editCategory(oldName: string, newCategory: Category): Promise<void>;
     finishBatchUpload(): Promise<void>;
     getAdmins(): Promise<Array<Principal>>;
     getAllProducts(): Promise<Array<Product>>;
+    getAttributeSchema(categoryId: string): Promise<Array<AttributeDefinition>>;
     getBasket(): Promise<Array<BasketItem>>;
     getCallerUserProfile(): Promise<UserProfile | null>;
     getCallerUserRole(): Promise<UserRole>;
     getCategories(): Promise<Array<CategoryV2>>;
     getCategory(name: string): Promise<CategoryV2 | null>;
+    getCategoryAttributes(categoryId: string): Promise<Array<AttributeDefinition>>;
+    getDescriptionTemplates(): Promise<DescriptionTemplates>;
+    getMyOrders(): Promise<Array<Order>>;
+    getOrder(orderId: string): Promise<Order | null>;
     getPriceConstraint(category: string): Promise<PriceConstraint | null>;
     getProduct(productId: string): Promise<Product | null>;
+    getProductBySlug(slug: string): Promise<Product | null>;
+    getShippingZones(): Promise<Array<ShippingZone>>;
     getStoreSettings(): Promise<StoreSettings | null>;
     getStripeSessionStatus(sessionId: string): Promise<StripeSessionStatus>;
     getUserProfile(user: Principal): Promise<UserProfile | null>;
+    http_request(request: HttpRequest): Promise<HttpResponse>;
+    http_request_update(request: HttpRequest): Promise<HttpResponse>;
     isCallerAdmin(): Promise<boolean>;
     isStripeConfigured(): Promise<boolean>;
+    isStripeWebhookConfigured(): Promise<boolean>;
+    listDiscountCodes(): Promise<Array<DiscountCodeUsage>>;
+    listOrders(filter: OrderFilter): Promise<Array<Order>>;
+    listProducts(filters: ProductFilter, sort: ProductSort, page: PageRequest): Promise<ProductResults>;
+    mergeIntoBasket(items: Array<BasketItem>): Promise<Array<string>>;
+    quoteBasket(items: Array<BasketItem>, shipping: ShippingChoice | null, discountCode: string | null): Promise<BasketQuote>;
+    quoteShipping(items: Array<BasketItem>, country: string): Promise<Array<ShippingQuote>>;
+    refundOrder(orderId: string, request: RefundRequest): Promise<Order>;
     removeAdmin(admin: Principal): Promise<void>;
-    removeFromBasket(productId: string): Promise<void>;
+    removeFromBasket(productId: string, variantSku: string | null): Promise<void>;
+    removeProductImage(productId: string, index: bigint): Promise<Product>;
     reorderCategories(categoryList: Array<CategoryV2>): Promise<void>;
+    reorderProductImages(productId: string, order: Array<bigint>): Promise<Product>;
     saveCallerUserProfile(profile: UserProfile): Promise<void>;
+    saveDiscountCode(discountCode: DiscountCode): Promise<void>;
+    searchProducts(queryText: string, filters: ProductFilter, sort: ProductSort, page: PageRequest): Promise<ProductResults>;
+    setCategoryAttributes(categoryId: string, attributes: Array<AttributeDefinition>): Promise<void>;
+    setCategorySale(categoryId: string, sale: Sale | null): Promise<bigint>;
+    setDescriptionTemplate(categoryId: string | null, template: string): Promise<void>;
+    setProductSale(productId: string, sale: Sale | null): Promise<Product>;
+    setProductVariants(productId: string, options: Array<ProductOption>, variants: Array<ProductVariant>): Promise<Product>;
+    setShippingZones(zones: Array<ShippingZone>): Promise<void>;
     setStripeConfiguration(config: StripeConfiguration): Promise<void>;
+    setStripeWebhookSecret(secret: string): Promise<void>;
     startBatchUpload(categoryId: string): Promise<void>;
     transform(input: TransformationInput): Promise<TransformationOutput>;
+    updateBasketQuantity(productId: string, variantSku: string | null, quantity: bigint): Promise<void>;
     updateCategory(category: Category): Promise<void>;
+    updateOrderFulfillment(orderId: string, trackingNumber: string | null, notes: string): Promise<Order>;
+    updateOrderStatus(orderId: string, status: OrderStatus, note: string): Promise<Order>;
+    updateProduct(productId: string, update: ProductUpdate): Promise<Product>;
     updateProductImage(productId: string, newImage: ExternalBlob): Promise<Product>;
+    updateProductStock(productId: string, stock: bigint): Promise<Product>;
     updateStoreSettings(newSettings: StoreSettings): Promise<void>;
-    uploadProductImage(name: string, image: ExternalBlob, price: bigint, categoryId: string): Promise<void>;
+    uploadProductImage(name: string, image: ExternalBlob, price: bigint, categoryId: string, stock: bigint, attributes: Array<ProductAttribute>): Promise<void>;
 }
-import type { Category as _Category, CategoryV2 as _CategoryV2, Currency as _Currency, ExternalBlob as _ExternalBlob, PriceConstraint as _PriceConstraint, Product as _Product, StoreSettings as _StoreSettings, StripeSessionStatus as _StripeSessionStatus, UserProfile as _UserProfile, UserRole as _UserRole, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
+import type { AttributeDefinition as _AttributeDefinition, AttributeFilter as _AttributeFilter, AttributeType as _AttributeType, BasketItem as _BasketItem, BasketQuote as _BasketQuote, Category as _Category, CategoryV2 as _CategoryV2, CheckoutSession as _CheckoutSession, Currency as _Currency, DiscountCode as _DiscountCode, DiscountCodeUsage as _DiscountCodeUsage, DiscountKind as _DiscountKind, ExternalBlob as _ExternalBlob, HttpHeader as _HttpHeader, HttpResponse as _HttpResponse, Order as _Order, OrderEvent as _OrderEvent, OrderFilter as _OrderFilter, OrderItem as _OrderItem, OrderStatus as _OrderStatus, PaymentStatus as _PaymentStatus, PriceConstraint as _PriceConstraint, Product as _Product, ProductAttribute as _ProductAttribute, ProductFacets as _ProductFacets, ProductFilter as _ProductFilter, ProductOption as _ProductOption, ProductResults as _ProductResults, ProductSort as _ProductSort, ProductUpdate as _ProductUpdate, ProductVariant as _ProductVariant, RateBasis as _RateBasis, RateTier as _RateTier, Refund as _Refund, RefundLine as _RefundLine, RefundRequest as _RefundRequest, Sale as _Sale, SessionStatus as _SessionStatus, ShippingAddress as _ShippingAddress, ShippingChoice as _ShippingChoice, ShippingDetails as _ShippingDetails, ShippingRate as _ShippingRate, ShippingZone as _ShippingZone, StoreSettings as _StoreSettings, StripeSessionStatus as _StripeSessionStatus, UserProfile as _UserProfile, UserRole as _UserRole, _CaffeineStorageRefillInformation as __CaffeineStorageRefillInformation, _CaffeineStorageRefillResult as __CaffeineStorageRefillResult } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
     async _caffeineStorageBlobIsLive(arg0: Uint8Array): Promise<boolean> {
@@ -366,73 +680,115 @@ export class Backend implements backendInterface {
             return result;
         }
     }
-    async addProduct(arg0: string, arg1: bigint, arg2: ExternalBlob, arg3: string): Promise<void> {
+    async addProduct(arg0: string, arg1: bigint, arg2: Array<ExternalBlob>, arg3: string, arg4: bigint, arg5: Array<ProductAttribute>, arg6: string | null): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.addProduct(arg0, arg1, await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg2), arg3);
+                const result = await this.actor.addProduct(arg0, arg1, await to_candid_vec_n10(this._uploadFile, this._downloadFile, arg2), arg3, arg4, arg5, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg6));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addProduct(arg0, arg1, await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg2), arg3);
+            const result = await this.actor.addProduct(arg0, arg1, await to_candid_vec_n10(this._uploadFile, this._downloadFile, arg2), arg3, arg4, arg5, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg6));
             return result;
         }
     }
-    async addToBasket(arg0: string, arg1: bigint): Promise<void> {
+    async addProductImages(arg0: string, arg1: Array<ExternalBlob>): Promise<Product> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.addProductImages(arg0, await to_candid_vec_n10(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.addProductImages(arg0, await to_candid_vec_n10(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async addToBasket(arg0: string, arg1: string | null, arg2: bigint): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.addToBasket(arg0, arg1);
+                const result = await this.actor.addToBasket(arg0, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg1), arg2);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.addToBasket(arg0, arg1);
+            const result = await this.actor.addToBasket(arg0, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg1), arg2);
             return result;
         }
     }
+    async archiveProduct(arg0: string, arg1: boolean): Promise<Product> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.archiveProduct(arg0, arg1);
+                return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.archiveProduct(arg0, arg1);
+            return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n11(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n23(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n11(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n23(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
-    async clearBasket(): Promise<void> {
+    async cancelCheckout(): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.clearBasket();
+                const result = await this.actor.cancelCheckout();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.clearBasket();
+            const result = await this.actor.cancelCheckout();
             return result;
         }
     }
-    async createCheckoutSession(arg0: Array<ShoppingItem>, arg1: string, arg2: string): Promise<string> {
+    async checkoutBasket(arg0: string, arg1: string, arg2: ShippingChoice | null, arg3: string | null): Promise<CheckoutSession> {
         if (this.processError) {
             try {
-                const result = await this.actor.createCheckoutSession(arg0, arg1, arg2);
+                const result = await this.actor.checkoutBasket(arg0, arg1, to_candid_opt_n25(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n12(this._uploadFile, this._downloadFile, arg3));
+                return from_candid_CheckoutSession_n26(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.checkoutBasket(arg0, arg1, to_candid_opt_n25(this._uploadFile, this._downloadFile, arg2), to_candid_opt_n12(this._uploadFile, this._downloadFile, arg3));
+            return from_candid_CheckoutSession_n26(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async clearBasket(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.clearBasket();
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.createCheckoutSession(arg0, arg1, arg2);
+            const result = await this.actor.clearBasket();
             return result;
         }
     }
@@ -464,17 +820,45 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async deleteDiscountCode(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deleteDiscountCode(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deleteDiscountCode(arg0);
+            return result;
+        }
+    }
+    async deleteProduct(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.deleteProduct(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.deleteProduct(arg0);
+            return result;
+        }
+    }
     async editCategory(arg0: string, arg1: Category): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.editCategory(arg0, to_candid_Category_n13(this._uploadFile, this._downloadFile, arg1));
+                const result = await this.actor.editCategory(arg0, to_candid_Category_n38(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.editCategory(arg0, to_candid_Category_n13(this._uploadFile, this._downloadFile, arg1));
+            const result = await this.actor.editCategory(arg0, to_candid_Category_n38(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
@@ -510,266 +894,658 @@ export class Backend implements backendInterface {
         if (this.processError) {
             try {
                 const result = await this.actor.getAllProducts();
-                return from_candid_vec_n14(this._uploadFile, this._downloadFile, result);
+                return from_candid_vec_n39(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.getAllProducts();
-            return from_candid_vec_n14(this._uploadFile, this._downloadFile, result);
+            return from_candid_vec_n39(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getAttributeSchema(arg0: string): Promise<Array<AttributeDefinition>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getAttributeSchema(arg0);
+                return from_candid_vec_n40(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getAttributeSchema(arg0);
+            return from_candid_vec_n40(this._uploadFile, this._downloadFile, result);
         }
     }
     async getBasket(): Promise<Array<BasketItem>> {
         if (this.processError) {
             try {
                 const result = await this.actor.getBasket();
-                return result;
+                return from_candid_vec_n45(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.getBasket();
-            return result;
+            return from_candid_vec_n45(this._uploadFile, this._downloadFile, result);
         }
     }
     async getCallerUserProfile(): Promise<UserProfile | null> {
         if (this.processError) {
             try {
                 const result = await this.actor.getCallerUserProfile();
-                return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+                return from_candid_opt_n48(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.getCallerUserProfile();
-            return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+            return from_candid_opt_n48(this._uploadFile, this._downloadFile, result);
         }
     }
     async getCallerUserRole(): Promise<UserRole> {
         if (this.processError) {
             try {
                 const result = await this.actor.getCallerUserRole();
-                return from_candid_UserRole_n19(this._uploadFile, this._downloadFile, result);
+                return from_candid_UserRole_n49(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.getCallerUserRole();
-            return from_candid_UserRole_n19(this._uploadFile, this._downloadFile, result);
+            return from_candid_UserRole_n49(this._uploadFile, this._downloadFile, result);
         }
     }
     async getCategories(): Promise<Array<CategoryV2>> {
         if (this.processError) {
             try {
                 const result = await this.actor.getCategories();
-                return from_candid_vec_n21(this._uploadFile, this._downloadFile, result);
+                return from_candid_vec_n51(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.getCategories();
-            return from_candid_vec_n21(this._uploadFile, this._downloadFile, result);
+            return from_candid_vec_n51(this._uploadFile, this._downloadFile, result);
         }
     }
     async getCategory(arg0: string): Promise<CategoryV2 | null> {
         if (this.processError) {
             try {
                 const result = await this.actor.getCategory(arg0);
-                return from_candid_opt_n25(this._uploadFile, this._downloadFile, result);
+                return from_candid_opt_n54(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
             const result = await this.actor.getCategory(arg0);
-            return from_candid_opt_n25(this._uploadFile, this._downloadFile, result);
+            return from_candid_opt_n54(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getPriceConstraint(arg0: string): Promise<PriceConstraint | null> {
+    async getCategoryAttributes(arg0: string): Promise<Array<AttributeDefinition>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getPriceConstraint(arg0);
-                return from_candid_opt_n26(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getCategoryAttributes(arg0);
+                return from_candid_vec_n40(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getPriceConstraint(arg0);
-            return from_candid_opt_n26(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getCategoryAttributes(arg0);
+            return from_candid_vec_n40(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getProduct(arg0: string): Promise<Product | null> {
+    async getDescriptionTemplates(): Promise<DescriptionTemplates> {
         if (this.processError) {
             try {
-                const result = await this.actor.getProduct(arg0);
-                return from_candid_opt_n27(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getDescriptionTemplates();
+                return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getProduct(arg0);
-            return from_candid_opt_n27(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getDescriptionTemplates();
+            return result;
         }
     }
-    async getStoreSettings(): Promise<StoreSettings | null> {
+    async getMyOrders(): Promise<Array<Order>> {
         if (this.processError) {
             try {
-                const result = await this.actor.getStoreSettings();
-                return from_candid_opt_n28(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getMyOrders();
+                return from_candid_vec_n55(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getStoreSettings();
-            return from_candid_opt_n28(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getMyOrders();
+            return from_candid_vec_n55(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getStripeSessionStatus(arg0: string): Promise<StripeSessionStatus> {
+    async getOrder(arg0: string): Promise<Order | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.getStripeSessionStatus(arg0);
-                return from_candid_StripeSessionStatus_n33(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getOrder(arg0);
+                return from_candid_opt_n73(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getStripeSessionStatus(arg0);
-            return from_candid_StripeSessionStatus_n33(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getOrder(arg0);
+            return from_candid_opt_n73(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
+    async getPriceConstraint(arg0: string): Promise<PriceConstraint | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUserProfile(arg0);
-                return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.getPriceConstraint(arg0);
+                return from_candid_opt_n74(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUserProfile(arg0);
-            return from_candid_opt_n18(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.getPriceConstraint(arg0);
+            return from_candid_opt_n74(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isCallerAdmin(): Promise<boolean> {
+    async getProduct(arg0: string): Promise<Product | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.isCallerAdmin();
-                return result;
+                const result = await this.actor.getProduct(arg0);
+                return from_candid_opt_n75(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isCallerAdmin();
-            return result;
+            const result = await this.actor.getProduct(arg0);
+            return from_candid_opt_n75(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isStripeConfigured(): Promise<boolean> {
+    async getProductBySlug(arg0: string): Promise<Product | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.isStripeConfigured();
-                return result;
+                const result = await this.actor.getProductBySlug(arg0);
+                return from_candid_opt_n75(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isStripeConfigured();
-            return result;
+            const result = await this.actor.getProductBySlug(arg0);
+            return from_candid_opt_n75(this._uploadFile, this._downloadFile, result);
         }
     }
-    async removeAdmin(arg0: Principal): Promise<void> {
+    async getShippingZones(): Promise<Array<ShippingZone>> {
         if (this.processError) {
             try {
-                const result = await this.actor.removeAdmin(arg0);
-                return result;
+                const result = await this.actor.getShippingZones();
+                return from_candid_vec_n76(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.removeAdmin(arg0);
-            return result;
+            const result = await this.actor.getShippingZones();
+            return from_candid_vec_n76(this._uploadFile, this._downloadFile, result);
         }
     }
-    async removeFromBasket(arg0: string): Promise<void> {
+    async getStoreSettings(): Promise<StoreSettings | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.removeFromBasket(arg0);
-                return result;
+                const result = await this.actor.getStoreSettings();
+                return from_candid_opt_n84(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.removeFromBasket(arg0);
-            return result;
+            const result = await this.actor.getStoreSettings();
+            return from_candid_opt_n84(this._uploadFile, this._downloadFile, result);
         }
     }
-    async reorderCategories(arg0: Array<CategoryV2>): Promise<void> {
+    async getStripeSessionStatus(arg0: string): Promise<StripeSessionStatus> {
         if (this.processError) {
             try {
-                const result = await this.actor.reorderCategories(to_candid_vec_n36(this._uploadFile, this._downloadFile, arg0));
-                return result;
+                const result = await this.actor.getStripeSessionStatus(arg0);
+                return from_candid_StripeSessionStatus_n87(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.reorderCategories(to_candid_vec_n36(this._uploadFile, this._downloadFile, arg0));
-            return result;
+            const result = await this.actor.getStripeSessionStatus(arg0);
+            return from_candid_StripeSessionStatus_n87(this._uploadFile, this._downloadFile, result);
         }
     }
-    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+    async getUserProfile(arg0: Principal): Promise<UserProfile | null> {
         if (this.processError) {
             try {
-                const result = await this.actor.saveCallerUserProfile(arg0);
-                return result;
+                const result = await this.actor.getUserProfile(arg0);
+                return from_candid_opt_n48(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.saveCallerUserProfile(arg0);
-            return result;
+            const result = await this.actor.getUserProfile(arg0);
+            return from_candid_opt_n48(this._uploadFile, this._downloadFile, result);
         }
     }
-    async setStripeConfiguration(arg0: StripeConfiguration): Promise<void> {
+    async http_request(arg0: HttpRequest): Promise<HttpResponse> {
         if (this.processError) {
             try {
-                const result = await this.actor.setStripeConfiguration(arg0);
-                return result;
+                const result = await this.actor.http_request(arg0);
+                return from_candid_HttpResponse_n90(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.setStripeConfiguration(arg0);
-            return result;
+            const result = await this.actor.http_request(arg0);
+            return from_candid_HttpResponse_n90(this._uploadFile, this._downloadFile, result);
         }
     }
-    async startBatchUpload(arg0: string): Promise<void> {
+    async http_request_update(arg0: HttpRequest): Promise<HttpResponse> {
         if (this.processError) {
             try {
-                const result = await this.actor.startBatchUpload(arg0);
-                return result;
+                const result = await this.actor.http_request_update(arg0);
+                return from_candid_HttpResponse_n90(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.startBatchUpload(arg0);
-            return result;
+            const result = await this.actor.http_request_update(arg0);
+            return from_candid_HttpResponse_n90(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async isCallerAdmin(): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.isCallerAdmin();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.isCallerAdmin();
+            return result;
+        }
+    }
+    async isStripeConfigured(): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.isStripeConfigured();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.isStripeConfigured();
+            return result;
+        }
+    }
+    async isStripeWebhookConfigured(): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.isStripeWebhookConfigured();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.isStripeWebhookConfigured();
+            return result;
+        }
+    }
+    async listDiscountCodes(): Promise<Array<DiscountCodeUsage>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listDiscountCodes();
+                return from_candid_vec_n92(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listDiscountCodes();
+            return from_candid_vec_n92(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listOrders(arg0: OrderFilter): Promise<Array<Order>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listOrders(to_candid_OrderFilter_n97(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_vec_n55(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listOrders(to_candid_OrderFilter_n97(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_vec_n55(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async listProducts(arg0: ProductFilter, arg1: ProductSort, arg2: PageRequest): Promise<ProductResults> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.listProducts(to_candid_ProductFilter_n101(this._uploadFile, this._downloadFile, arg0), to_candid_ProductSort_n103(this._uploadFile, this._downloadFile, arg1), arg2);
+                return from_candid_ProductResults_n105(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.listProducts(to_candid_ProductFilter_n101(this._uploadFile, this._downloadFile, arg0), to_candid_ProductSort_n103(this._uploadFile, this._downloadFile, arg1), arg2);
+            return from_candid_ProductResults_n105(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async mergeIntoBasket(arg0: Array<BasketItem>): Promise<Array<string>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.mergeIntoBasket(to_candid_vec_n107(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.mergeIntoBasket(to_candid_vec_n107(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async quoteBasket(arg0: Array<BasketItem>, arg1: ShippingChoice | null, arg2: string | null): Promise<BasketQuote> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.quoteBasket(to_candid_vec_n107(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n12(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_BasketQuote_n110(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.quoteBasket(to_candid_vec_n107(this._uploadFile, this._downloadFile, arg0), to_candid_opt_n25(this._uploadFile, this._downloadFile, arg1), to_candid_opt_n12(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_BasketQuote_n110(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async quoteShipping(arg0: Array<BasketItem>, arg1: string): Promise<Array<ShippingQuote>> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.quoteShipping(to_candid_vec_n107(this._uploadFile, this._downloadFile, arg0), arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.quoteShipping(to_candid_vec_n107(this._uploadFile, this._downloadFile, arg0), arg1);
+            return result;
+        }
+    }
+    async refundOrder(arg0: string, arg1: RefundRequest): Promise<Order> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.refundOrder(arg0, to_candid_RefundRequest_n112(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_Order_n56(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.refundOrder(arg0, to_candid_RefundRequest_n112(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_Order_n56(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async removeAdmin(arg0: Principal): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeAdmin(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeAdmin(arg0);
+            return result;
+        }
+    }
+    async removeFromBasket(arg0: string, arg1: string | null): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeFromBasket(arg0, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeFromBasket(arg0, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async removeProductImage(arg0: string, arg1: bigint): Promise<Product> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.removeProductImage(arg0, arg1);
+                return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.removeProductImage(arg0, arg1);
+            return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async reorderCategories(arg0: Array<CategoryV2>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.reorderCategories(to_candid_vec_n116(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.reorderCategories(to_candid_vec_n116(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async reorderProductImages(arg0: string, arg1: Array<bigint>): Promise<Product> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.reorderProductImages(arg0, arg1);
+                return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.reorderProductImages(arg0, arg1);
+            return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveCallerUserProfile(arg0: UserProfile): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCallerUserProfile(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCallerUserProfile(arg0);
+            return result;
+        }
+    }
+    async saveDiscountCode(arg0: DiscountCode): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveDiscountCode(to_candid_DiscountCode_n117(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveDiscountCode(to_candid_DiscountCode_n117(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async searchProducts(arg0: string, arg1: ProductFilter, arg2: ProductSort, arg3: PageRequest): Promise<ProductResults> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.searchProducts(arg0, to_candid_ProductFilter_n101(this._uploadFile, this._downloadFile, arg1), to_candid_ProductSort_n103(this._uploadFile, this._downloadFile, arg2), arg3);
+                return from_candid_ProductResults_n105(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.searchProducts(arg0, to_candid_ProductFilter_n101(this._uploadFile, this._downloadFile, arg1), to_candid_ProductSort_n103(this._uploadFile, this._downloadFile, arg2), arg3);
+            return from_candid_ProductResults_n105(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setCategoryAttributes(arg0: string, arg1: Array<AttributeDefinition>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setCategoryAttributes(arg0, to_candid_vec_n121(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setCategoryAttributes(arg0, to_candid_vec_n121(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async setCategorySale(arg0: string, arg1: Sale | null): Promise<bigint> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setCategorySale(arg0, to_candid_opt_n126(this._uploadFile, this._downloadFile, arg1));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setCategorySale(arg0, to_candid_opt_n126(this._uploadFile, this._downloadFile, arg1));
+            return result;
+        }
+    }
+    async setDescriptionTemplate(arg0: string | null, arg1: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setDescriptionTemplate(to_candid_opt_n12(this._uploadFile, this._downloadFile, arg0), arg1);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setDescriptionTemplate(to_candid_opt_n12(this._uploadFile, this._downloadFile, arg0), arg1);
+            return result;
+        }
+    }
+    async setProductSale(arg0: string, arg1: Sale | null): Promise<Product> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setProductSale(arg0, to_candid_opt_n126(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setProductSale(arg0, to_candid_opt_n126(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setProductVariants(arg0: string, arg1: Array<ProductOption>, arg2: Array<ProductVariant>): Promise<Product> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setProductVariants(arg0, arg1, arg2);
+                return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setProductVariants(arg0, arg1, arg2);
+            return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setShippingZones(arg0: Array<ShippingZone>): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setShippingZones(to_candid_vec_n129(this._uploadFile, this._downloadFile, arg0));
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setShippingZones(to_candid_vec_n129(this._uploadFile, this._downloadFile, arg0));
+            return result;
+        }
+    }
+    async setStripeConfiguration(arg0: StripeConfiguration): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setStripeConfiguration(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setStripeConfiguration(arg0);
+            return result;
+        }
+    }
+    async setStripeWebhookSecret(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setStripeWebhookSecret(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setStripeWebhookSecret(arg0);
+            return result;
+        }
+    }
+    async startBatchUpload(arg0: string): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.startBatchUpload(arg0);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.startBatchUpload(arg0);
+            return result;
         }
     }
     async transform(arg0: TransformationInput): Promise<TransformationOutput> {
@@ -786,151 +1562,689 @@ export class Backend implements backendInterface {
             return result;
         }
     }
+    async updateBasketQuantity(arg0: string, arg1: string | null, arg2: bigint): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateBasketQuantity(arg0, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg1), arg2);
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateBasketQuantity(arg0, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg1), arg2);
+            return result;
+        }
+    }
     async updateCategory(arg0: Category): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateCategory(to_candid_Category_n13(this._uploadFile, this._downloadFile, arg0));
+                const result = await this.actor.updateCategory(to_candid_Category_n38(this._uploadFile, this._downloadFile, arg0));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateCategory(to_candid_Category_n13(this._uploadFile, this._downloadFile, arg0));
+            const result = await this.actor.updateCategory(to_candid_Category_n38(this._uploadFile, this._downloadFile, arg0));
             return result;
         }
     }
+    async updateOrderFulfillment(arg0: string, arg1: string | null, arg2: string): Promise<Order> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateOrderFulfillment(arg0, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg1), arg2);
+                return from_candid_Order_n56(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateOrderFulfillment(arg0, to_candid_opt_n12(this._uploadFile, this._downloadFile, arg1), arg2);
+            return from_candid_Order_n56(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateOrderStatus(arg0: string, arg1: OrderStatus, arg2: string): Promise<Order> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateOrderStatus(arg0, to_candid_OrderStatus_n99(this._uploadFile, this._downloadFile, arg1), arg2);
+                return from_candid_Order_n56(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateOrderStatus(arg0, to_candid_OrderStatus_n99(this._uploadFile, this._downloadFile, arg1), arg2);
+            return from_candid_Order_n56(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateProduct(arg0: string, arg1: ProductUpdate): Promise<Product> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateProduct(arg0, to_candid_ProductUpdate_n137(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateProduct(arg0, to_candid_ProductUpdate_n137(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+        }
+    }
     async updateProductImage(arg0: string, arg1: ExternalBlob): Promise<Product> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateProductImage(arg0, await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg1));
-                return from_candid_Product_n15(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.updateProductImage(arg0, await to_candid_ExternalBlob_n11(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateProductImage(arg0, await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg1));
-            return from_candid_Product_n15(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.updateProductImage(arg0, await to_candid_ExternalBlob_n11(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateProductStock(arg0: string, arg1: bigint): Promise<Product> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateProductStock(arg0, arg1);
+                return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateProductStock(arg0, arg1);
+            return from_candid_Product_n13(this._uploadFile, this._downloadFile, result);
         }
     }
     async updateStoreSettings(arg0: StoreSettings): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.updateStoreSettings(to_candid_StoreSettings_n37(this._uploadFile, this._downloadFile, arg0));
+                const result = await this.actor.updateStoreSettings(to_candid_StoreSettings_n139(this._uploadFile, this._downloadFile, arg0));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.updateStoreSettings(to_candid_StoreSettings_n37(this._uploadFile, this._downloadFile, arg0));
+            const result = await this.actor.updateStoreSettings(to_candid_StoreSettings_n139(this._uploadFile, this._downloadFile, arg0));
             return result;
         }
     }
-    async uploadProductImage(arg0: string, arg1: ExternalBlob, arg2: bigint, arg3: string): Promise<void> {
+    async uploadProductImage(arg0: string, arg1: ExternalBlob, arg2: bigint, arg3: string, arg4: bigint, arg5: Array<ProductAttribute>): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.uploadProductImage(arg0, await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg1), arg2, arg3);
+                const result = await this.actor.uploadProductImage(arg0, await to_candid_ExternalBlob_n11(this._uploadFile, this._downloadFile, arg1), arg2, arg3, arg4, arg5);
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.uploadProductImage(arg0, await to_candid_ExternalBlob_n10(this._uploadFile, this._downloadFile, arg1), arg2, arg3);
+            const result = await this.actor.uploadProductImage(arg0, await to_candid_ExternalBlob_n11(this._uploadFile, this._downloadFile, arg1), arg2, arg3, arg4, arg5);
             return result;
         }
     }
 }
-function from_candid_CategoryV2_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CategoryV2): CategoryV2 {
-    return from_candid_record_n23(_uploadFile, _downloadFile, value);
+function from_candid_AttributeDefinition_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AttributeDefinition): AttributeDefinition {
+    return from_candid_record_n42(_uploadFile, _downloadFile, value);
 }
-function from_candid_Currency_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Currency): Currency {
-    return from_candid_variant_n32(_uploadFile, _downloadFile, value);
+function from_candid_AttributeType_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AttributeType): AttributeType {
+    return from_candid_variant_n44(_uploadFile, _downloadFile, value);
 }
-async function from_candid_ExternalBlob_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ExternalBlob): Promise<ExternalBlob> {
-    return await _downloadFile(value);
+function from_candid_BasketItem_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _BasketItem): BasketItem {
+    return from_candid_record_n47(_uploadFile, _downloadFile, value);
+}
+function from_candid_BasketQuote_n110(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _BasketQuote): BasketQuote {
+    return from_candid_record_n111(_uploadFile, _downloadFile, value);
+}
+function from_candid_CategoryV2_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CategoryV2): CategoryV2 {
+    return from_candid_record_n53(_uploadFile, _downloadFile, value);
+}
+function from_candid_CheckoutSession_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CheckoutSession): CheckoutSession {
+    return from_candid_record_n27(_uploadFile, _downloadFile, value);
 }
-async function from_candid_Product_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Product): Promise<Product> {
-    return await from_candid_record_n16(_uploadFile, _downloadFile, value);
+function from_candid_Currency_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Currency): Currency {
+    return from_candid_variant_n64(_uploadFile, _downloadFile, value);
 }
-function from_candid_StoreSettings_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StoreSettings): StoreSettings {
-    return from_candid_record_n30(_uploadFile, _downloadFile, value);
+function from_candid_DiscountCodeUsage_n93(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DiscountCodeUsage): DiscountCodeUsage {
+    return from_candid_record_n94(_uploadFile, _downloadFile, value);
 }
-function from_candid_StripeSessionStatus_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StripeSessionStatus): StripeSessionStatus {
-    return from_candid_variant_n34(_uploadFile, _downloadFile, value);
+function from_candid_DiscountCode_n95(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DiscountCode): DiscountCode {
+    return from_candid_record_n96(_uploadFile, _downloadFile, value);
 }
-function from_candid_UserRole_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
+function from_candid_DiscountKind_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _DiscountKind): DiscountKind {
     return from_candid_variant_n20(_uploadFile, _downloadFile, value);
 }
+async function from_candid_ExternalBlob_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ExternalBlob): Promise<ExternalBlob> {
+    return await _downloadFile(value);
+}
+function from_candid_HttpResponse_n90(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _HttpResponse): HttpResponse {
+    return from_candid_record_n91(_uploadFile, _downloadFile, value);
+}
+function from_candid_OrderEvent_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _OrderEvent): OrderEvent {
+    return from_candid_record_n62(_uploadFile, _downloadFile, value);
+}
+function from_candid_OrderItem_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _OrderItem): OrderItem {
+    return from_candid_record_n67(_uploadFile, _downloadFile, value);
+}
+function from_candid_OrderStatus_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _OrderStatus): OrderStatus {
+    return from_candid_variant_n59(_uploadFile, _downloadFile, value);
+}
+function from_candid_Order_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Order): Order {
+    return from_candid_record_n57(_uploadFile, _downloadFile, value);
+}
+function from_candid_PaymentStatus_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PaymentStatus): PaymentStatus {
+    return from_candid_variant_n32(_uploadFile, _downloadFile, value);
+}
+async function from_candid_ProductResults_n105(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ProductResults): Promise<ProductResults> {
+    return await from_candid_record_n106(_uploadFile, _downloadFile, value);
+}
+async function from_candid_Product_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Product): Promise<Product> {
+    return await from_candid_record_n14(_uploadFile, _downloadFile, value);
+}
+function from_candid_RateBasis_n82(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _RateBasis): RateBasis {
+    return from_candid_variant_n83(_uploadFile, _downloadFile, value);
+}
+function from_candid_RefundLine_n72(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _RefundLine): RefundLine {
+    return from_candid_record_n47(_uploadFile, _downloadFile, value);
+}
+function from_candid_Refund_n69(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Refund): Refund {
+    return from_candid_record_n70(_uploadFile, _downloadFile, value);
+}
+function from_candid_Sale_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Sale): Sale {
+    return from_candid_record_n17(_uploadFile, _downloadFile, value);
+}
+function from_candid_SessionStatus_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _SessionStatus): SessionStatus {
+    return from_candid_variant_n30(_uploadFile, _downloadFile, value);
+}
+function from_candid_ShippingAddress_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ShippingAddress): ShippingAddress {
+    return from_candid_record_n37(_uploadFile, _downloadFile, value);
+}
+function from_candid_ShippingDetails_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ShippingDetails): ShippingDetails {
+    return from_candid_record_n35(_uploadFile, _downloadFile, value);
+}
+function from_candid_ShippingRate_n80(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ShippingRate): ShippingRate {
+    return from_candid_record_n81(_uploadFile, _downloadFile, value);
+}
+function from_candid_ShippingZone_n77(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _ShippingZone): ShippingZone {
+    return from_candid_record_n78(_uploadFile, _downloadFile, value);
+}
+function from_candid_StoreSettings_n85(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StoreSettings): StoreSettings {
+    return from_candid_record_n86(_uploadFile, _downloadFile, value);
+}
+function from_candid_StripeSessionStatus_n87(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _StripeSessionStatus): StripeSessionStatus {
+    return from_candid_variant_n88(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserRole_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
+    return from_candid_variant_n50(_uploadFile, _downloadFile, value);
+}
 function from_candid__CaffeineStorageRefillResult_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: __CaffeineStorageRefillResult): _CaffeineStorageRefillResult {
     return from_candid_record_n5(_uploadFile, _downloadFile, value);
 }
-function from_candid_opt_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
+function from_candid_opt_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Sale]): Sale | null {
+    return value.length === 0 ? null : from_candid_Sale_n16(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
+function from_candid_opt_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ShippingDetails]): ShippingDetails | null {
+    return value.length === 0 ? null : from_candid_ShippingDetails_n34(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
     return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_CategoryV2]): CategoryV2 | null {
-    return value.length === 0 ? null : from_candid_CategoryV2_n22(_uploadFile, _downloadFile, value[0]);
+function from_candid_opt_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_CategoryV2]): CategoryV2 | null {
+    return value.length === 0 ? null : from_candid_CategoryV2_n52(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [boolean]): boolean | null {
+    return value.length === 0 ? null : value[0];
 }
-function from_candid_opt_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_PriceConstraint]): PriceConstraint | null {
+function from_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
     return value.length === 0 ? null : value[0];
 }
-async function from_candid_opt_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Product]): Promise<Product | null> {
-    return value.length === 0 ? null : await from_candid_Product_n15(_uploadFile, _downloadFile, value[0]);
+function from_candid_opt_n73(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Order]): Order | null {
+    return value.length === 0 ? null : from_candid_Order_n56(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n74(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_PriceConstraint]): PriceConstraint | null {
+    return value.length === 0 ? null : value[0];
+}
+async function from_candid_opt_n75(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_Product]): Promise<Product | null> {
+    return value.length === 0 ? null : await from_candid_Product_n13(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n84(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_StoreSettings]): StoreSettings | null {
+    return value.length === 0 ? null : from_candid_StoreSettings_n85(_uploadFile, _downloadFile, value[0]);
+}
+async function from_candid_record_n106(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    total: bigint;
+    page: bigint;
+    pageSize: bigint;
+    items: Array<_Product>;
+    facets: _ProductFacets;
+}): Promise<{
+    total: bigint;
+    page: bigint;
+    pageSize: bigint;
+    items: Array<Product>;
+    facets: ProductFacets;
+}> {
+    return {
+        total: value.total,
+        page: value.page,
+        pageSize: value.pageSize,
+        items: await from_candid_vec_n39(_uploadFile, _downloadFile, value.items),
+        facets: value.facets
+    };
+}
+function from_candid_record_n111(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    tax: bigint;
+    total: bigint;
+    discountCode: [] | [string];
+    shippingMethod: [] | [string];
+    shipping: bigint;
+    currency: _Currency;
+    discount: bigint;
+    items: Array<_OrderItem>;
+    subtotal: bigint;
+}): {
+    tax: bigint;
+    total: bigint;
+    discountCode?: string;
+    shippingMethod?: string;
+    shipping: bigint;
+    currency: Currency;
+    discount: bigint;
+    items: Array<OrderItem>;
+    subtotal: bigint;
+} {
+    return {
+        tax: value.tax,
+        total: value.total,
+        discountCode: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.discountCode)),
+        shippingMethod: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.shippingMethod)),
+        shipping: value.shipping,
+        currency: from_candid_Currency_n63(_uploadFile, _downloadFile, value.currency),
+        discount: value.discount,
+        items: from_candid_vec_n65(_uploadFile, _downloadFile, value.items),
+        subtotal: value.subtotal
+    };
+}
+async function from_candid_record_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    categoryId: string;
+    weight: bigint;
+    name: string;
+    createdAt: bigint;
+    sale: [] | [_Sale];
+    slug: string;
+    description: string;
+    variants: Array<_ProductVariant>;
+    stock: bigint;
+    attributes: Array<_ProductAttribute>;
+    price: bigint;
+    options: Array<_ProductOption>;
+    archived: boolean;
+    images: Array<_ExternalBlob>;
+}): Promise<{
+    id: string;
+    categoryId: string;
+    weight: bigint;
+    name: string;
+    createdAt: bigint;
+    sale?: Sale;
+    slug: string;
+    description: string;
+    variants: Array<ProductVariant>;
+    stock: bigint;
+    attributes: Array<ProductAttribute>;
+    price: bigint;
+    options: Array<ProductOption>;
+    archived: boolean;
+    images: Array<ExternalBlob>;
+}> {
+    return {
+        id: value.id,
+        categoryId: value.categoryId,
+        weight: value.weight,
+        name: value.name,
+        createdAt: value.createdAt,
+        sale: record_opt_to_undefined(from_candid_opt_n15(_uploadFile, _downloadFile, value.sale)),
+        slug: value.slug,
+        description: value.description,
+        variants: value.variants,
+        stock: value.stock,
+        attributes: value.attributes,
+        price: value.price,
+        options: value.options,
+        archived: value.archived,
+        images: await from_candid_vec_n21(_uploadFile, _downloadFile, value.images)
+    };
+}
+function from_candid_record_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    startsAt: [] | [bigint];
+    kind: _DiscountKind;
+    amount: bigint;
+    endsAt: [] | [bigint];
+}): {
+    startsAt?: bigint;
+    kind: DiscountKind;
+    amount: bigint;
+    endsAt?: bigint;
+} {
+    return {
+        startsAt: record_opt_to_undefined(from_candid_opt_n18(_uploadFile, _downloadFile, value.startsAt)),
+        kind: from_candid_DiscountKind_n19(_uploadFile, _downloadFile, value.kind),
+        amount: value.amount,
+        endsAt: record_opt_to_undefined(from_candid_opt_n18(_uploadFile, _downloadFile, value.endsAt))
+    };
+}
+function from_candid_record_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    url: [] | [string];
+    status: _SessionStatus;
+    paymentStatus: _PaymentStatus;
+    amountTotal: [] | [bigint];
+    clientReferenceId: [] | [string];
+    currency: [] | [string];
+    shippingDetails: [] | [_ShippingDetails];
+    customerEmail: [] | [string];
+    paymentIntentId: [] | [string];
+}): {
+    id: string;
+    url?: string;
+    status: SessionStatus;
+    paymentStatus: PaymentStatus;
+    amountTotal?: bigint;
+    clientReferenceId?: string;
+    currency?: string;
+    shippingDetails?: ShippingDetails;
+    customerEmail?: string;
+    paymentIntentId?: string;
+} {
+    return {
+        id: value.id,
+        url: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.url)),
+        status: from_candid_SessionStatus_n29(_uploadFile, _downloadFile, value.status),
+        paymentStatus: from_candid_PaymentStatus_n31(_uploadFile, _downloadFile, value.paymentStatus),
+        amountTotal: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.amountTotal)),
+        clientReferenceId: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.clientReferenceId)),
+        currency: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.currency)),
+        shippingDetails: record_opt_to_undefined(from_candid_opt_n33(_uploadFile, _downloadFile, value.shippingDetails)),
+        customerEmail: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.customerEmail)),
+        paymentIntentId: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.paymentIntentId))
+    };
+}
+function from_candid_record_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    name: [] | [string];
+    address: _ShippingAddress;
+}): {
+    name?: string;
+    address: ShippingAddress;
+} {
+    return {
+        name: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.name)),
+        address: from_candid_ShippingAddress_n36(_uploadFile, _downloadFile, value.address)
+    };
+}
+function from_candid_record_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    country: [] | [string];
+    city: [] | [string];
+    postalCode: [] | [string];
+    line1: [] | [string];
+    line2: [] | [string];
+    state: [] | [string];
+}): {
+    country?: string;
+    city?: string;
+    postalCode?: string;
+    line1?: string;
+    line2?: string;
+    state?: string;
+} {
+    return {
+        country: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.country)),
+        city: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.city)),
+        postalCode: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.postalCode)),
+        line1: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.line1)),
+        line2: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.line2)),
+        state: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.state))
+    };
+}
+function from_candid_record_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    name: string;
+    valueType: _AttributeType;
+    required: boolean;
+    choices: Array<string>;
+}): {
+    name: string;
+    valueType: AttributeType;
+    required: boolean;
+    choices: Array<string>;
+} {
+    return {
+        name: value.name,
+        valueType: from_candid_AttributeType_n43(_uploadFile, _downloadFile, value.valueType),
+        required: value.required,
+        choices: value.choices
+    };
+}
+function from_candid_record_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    productId: string;
+    variantSku: [] | [string];
+    quantity: bigint;
+}): {
+    productId: string;
+    variantSku?: string;
+    quantity: bigint;
+} {
+    return {
+        productId: value.productId,
+        variantSku: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.variantSku)),
+        quantity: value.quantity
+    };
+}
+function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    success: [] | [boolean];
+    topped_up_amount: [] | [bigint];
+}): {
+    success?: boolean;
+    topped_up_amount?: bigint;
+} {
+    return {
+        success: record_opt_to_undefined(from_candid_opt_n6(_uploadFile, _downloadFile, value.success)),
+        topped_up_amount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.topped_up_amount))
+    };
+}
+function from_candid_record_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    name: string;
+    subcategories: Array<string>;
+    parent: [] | [string];
+}): {
+    name: string;
+    subcategories: Array<string>;
+    parent?: string;
+} {
+    return {
+        name: value.name,
+        subcategories: value.subcategories,
+        parent: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.parent))
+    };
 }
-function from_candid_opt_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_StoreSettings]): StoreSettings | null {
-    return value.length === 0 ? null : from_candid_StoreSettings_n29(_uploadFile, _downloadFile, value[0]);
+function from_candid_record_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: string;
+    tax: bigint;
+    status: _OrderStatus;
+    trackingNumber: [] | [string];
+    total: bigint;
+    discountCode: [] | [string];
+    createdAt: bigint;
+    shippingMethod: [] | [string];
+    shipping: bigint;
+    history: Array<_OrderEvent>;
+    updatedAt: bigint;
+    currency: _Currency;
+    notes: string;
+    discount: bigint;
+    buyer: Principal;
+    items: Array<_OrderItem>;
+    stripeSessionId: string;
+    refunds: Array<_Refund>;
+    paymentIntentId: [] | [string];
+    subtotal: bigint;
+}): {
+    id: string;
+    tax: bigint;
+    status: OrderStatus;
+    trackingNumber?: string;
+    total: bigint;
+    discountCode?: string;
+    createdAt: bigint;
+    shippingMethod?: string;
+    shipping: bigint;
+    history: Array<OrderEvent>;
+    updatedAt: bigint;
+    currency: Currency;
+    notes: string;
+    discount: bigint;
+    buyer: Principal;
+    items: Array<OrderItem>;
+    stripeSessionId: string;
+    refunds: Array<Refund>;
+    paymentIntentId?: string;
+    subtotal: bigint;
+} {
+    return {
+        id: value.id,
+        tax: value.tax,
+        status: from_candid_OrderStatus_n58(_uploadFile, _downloadFile, value.status),
+        trackingNumber: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.trackingNumber)),
+        total: value.total,
+        discountCode: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.discountCode)),
+        createdAt: value.createdAt,
+        shippingMethod: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.shippingMethod)),
+        shipping: value.shipping,
+        history: from_candid_vec_n60(_uploadFile, _downloadFile, value.history),
+        updatedAt: value.updatedAt,
+        currency: from_candid_Currency_n63(_uploadFile, _downloadFile, value.currency),
+        notes: value.notes,
+        discount: value.discount,
+        buyer: value.buyer,
+        items: from_candid_vec_n65(_uploadFile, _downloadFile, value.items),
+        stripeSessionId: value.stripeSessionId,
+        refunds: from_candid_vec_n68(_uploadFile, _downloadFile, value.refunds),
+        paymentIntentId: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.paymentIntentId)),
+        subtotal: value.subtotal
+    };
 }
-function from_candid_opt_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [boolean]): boolean | null {
-    return value.length === 0 ? null : value[0];
+function from_candid_record_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status: _OrderStatus;
+    changedAt: bigint;
+    changedBy: Principal;
+    note: string;
+}): {
+    status: OrderStatus;
+    changedAt: bigint;
+    changedBy: Principal;
+    note: string;
+} {
+    return {
+        status: from_candid_OrderStatus_n58(_uploadFile, _downloadFile, value.status),
+        changedAt: value.changedAt,
+        changedBy: value.changedBy,
+        note: value.note
+    };
 }
-function from_candid_opt_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
-    return value.length === 0 ? null : value[0];
+function from_candid_record_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    productId: string;
+    productName: string;
+    variantSku: [] | [string];
+    quantity: bigint;
+    unitPrice: bigint;
+}): {
+    productId: string;
+    productName: string;
+    variantSku?: string;
+    quantity: bigint;
+    unitPrice: bigint;
+} {
+    return {
+        productId: value.productId,
+        productName: value.productName,
+        variantSku: record_opt_to_undefined(from_candid_opt_n28(_uploadFile, _downloadFile, value.variantSku)),
+        quantity: value.quantity,
+        unitPrice: value.unitPrice
+    };
 }
-async function from_candid_record_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n70(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     id: string;
-    categoryId: string;
-    name: string;
-    description: string;
-    image: _ExternalBlob;
-    price: bigint;
-}): Promise<{
+    lines: Array<_RefundLine>;
+    refundedAt: bigint;
+    refundedBy: Principal;
+    restocked: boolean;
+    amount: bigint;
+    reason: string;
+}): {
     id: string;
-    categoryId: string;
-    name: string;
-    description: string;
-    image: ExternalBlob;
-    price: bigint;
-}> {
+    lines: Array<RefundLine>;
+    refundedAt: bigint;
+    refundedBy: Principal;
+    restocked: boolean;
+    amount: bigint;
+    reason: string;
+} {
     return {
         id: value.id,
-        categoryId: value.categoryId,
+        lines: from_candid_vec_n71(_uploadFile, _downloadFile, value.lines),
+        refundedAt: value.refundedAt,
+        refundedBy: value.refundedBy,
+        restocked: value.restocked,
+        amount: value.amount,
+        reason: value.reason
+    };
+}
+function from_candid_record_n78(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    name: string;
+    countries: Array<string>;
+    rates: Array<_ShippingRate>;
+}): {
+    name: string;
+    countries: Array<string>;
+    rates: Array<ShippingRate>;
+} {
+    return {
         name: value.name,
-        description: value.description,
-        image: await from_candid_ExternalBlob_n17(_uploadFile, _downloadFile, value.image),
-        price: value.price
+        countries: value.countries,
+        rates: from_candid_vec_n79(_uploadFile, _downloadFile, value.rates)
     };
 }
-function from_candid_record_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n81(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    fee: bigint;
+    freeOver: [] | [bigint];
+    tiers: Array<_RateTier>;
     name: string;
-    subcategories: Array<string>;
-    parent: [] | [string];
+    basis: _RateBasis;
 }): {
+    fee: bigint;
+    freeOver?: bigint;
+    tiers: Array<RateTier>;
     name: string;
-    subcategories: Array<string>;
-    parent?: string;
+    basis: RateBasis;
 } {
     return {
+        fee: value.fee,
+        freeOver: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.freeOver)),
+        tiers: value.tiers,
         name: value.name,
-        subcategories: value.subcategories,
-        parent: record_opt_to_undefined(from_candid_opt_n24(_uploadFile, _downloadFile, value.parent))
+        basis: from_candid_RateBasis_n82(_uploadFile, _downloadFile, value.basis)
     };
 }
-function from_candid_record_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_record_n86(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     currency: _Currency;
     storeName: string;
     contactEmail: string;
@@ -944,38 +2258,122 @@ function from_candid_record_n30(_uploadFile: (file: ExternalBlob) => Promise<Uin
     taxRate: number;
 } {
     return {
-        currency: from_candid_Currency_n31(_uploadFile, _downloadFile, value.currency),
+        currency: from_candid_Currency_n63(_uploadFile, _downloadFile, value.currency),
         storeName: value.storeName,
         contactEmail: value.contactEmail,
         storeDescription: value.storeDescription,
         taxRate: value.taxRate
     };
 }
-function from_candid_record_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    userPrincipal: [] | [string];
-    response: string;
+function from_candid_record_n89(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    session: _CheckoutSession;
 }): {
-    userPrincipal?: string;
-    response: string;
+    session: CheckoutSession;
 } {
     return {
-        userPrincipal: record_opt_to_undefined(from_candid_opt_n24(_uploadFile, _downloadFile, value.userPrincipal)),
-        response: value.response
+        session: from_candid_CheckoutSession_n26(_uploadFile, _downloadFile, value.session)
     };
 }
-function from_candid_record_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    success: [] | [boolean];
-    topped_up_amount: [] | [bigint];
+function from_candid_record_n91(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    body: Uint8Array;
+    headers: Array<_HttpHeader>;
+    upgrade: [] | [boolean];
+    status_code: number;
 }): {
-    success?: boolean;
-    topped_up_amount?: bigint;
+    body: Uint8Array;
+    headers: Array<HttpHeader>;
+    upgrade?: boolean;
+    status_code: number;
 } {
     return {
-        success: record_opt_to_undefined(from_candid_opt_n6(_uploadFile, _downloadFile, value.success)),
-        topped_up_amount: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.topped_up_amount))
+        body: value.body,
+        headers: value.headers,
+        upgrade: record_opt_to_undefined(from_candid_opt_n6(_uploadFile, _downloadFile, value.upgrade)),
+        status_code: value.status_code
+    };
+}
+function from_candid_record_n94(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    discountCode: _DiscountCode;
+    uses: bigint;
+}): {
+    discountCode: DiscountCode;
+    uses: bigint;
+} {
+    return {
+        discountCode: from_candid_DiscountCode_n95(_uploadFile, _downloadFile, value.discountCode),
+        uses: value.uses
+    };
+}
+function from_candid_record_n96(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    active: boolean;
+    expiresAt: [] | [bigint];
+    code: string;
+    kind: _DiscountKind;
+    minimumOrder: [] | [bigint];
+    maxUses: [] | [bigint];
+    amount: bigint;
+    maxUsesPerCustomer: [] | [bigint];
+    categoryIds: Array<string>;
+}): {
+    active: boolean;
+    expiresAt?: bigint;
+    code: string;
+    kind: DiscountKind;
+    minimumOrder?: bigint;
+    maxUses?: bigint;
+    amount: bigint;
+    maxUsesPerCustomer?: bigint;
+    categoryIds: Array<string>;
+} {
+    return {
+        active: value.active,
+        expiresAt: record_opt_to_undefined(from_candid_opt_n18(_uploadFile, _downloadFile, value.expiresAt)),
+        code: value.code,
+        kind: from_candid_DiscountKind_n19(_uploadFile, _downloadFile, value.kind),
+        minimumOrder: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.minimumOrder)),
+        maxUses: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.maxUses)),
+        amount: value.amount,
+        maxUsesPerCustomer: record_opt_to_undefined(from_candid_opt_n7(_uploadFile, _downloadFile, value.maxUsesPerCustomer)),
+        categoryIds: value.categoryIds
     };
 }
 function from_candid_variant_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    fixed: null;
+} | {
+    percentage: null;
+}): DiscountKind {
+    return "fixed" in value ? DiscountKind.fixed : "percentage" in value ? DiscountKind.percentage : value;
+}
+function from_candid_variant_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    expired: null;
+} | {
+    open: null;
+} | {
+    complete: null;
+}): SessionStatus {
+    return "expired" in value ? SessionStatus.expired : "open" in value ? SessionStatus.open : "complete" in value ? SessionStatus.complete : value;
+}
+function from_candid_variant_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    paid: null;
+} | {
+    unpaid: null;
+} | {
+    noPaymentRequired: null;
+}): PaymentStatus {
+    return "paid" in value ? PaymentStatus.paid : "unpaid" in value ? PaymentStatus.unpaid : "noPaymentRequired" in value ? PaymentStatus.noPaymentRequired : value;
+}
+function from_candid_variant_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    text: null;
+} | {
+    boolean: null;
+} | {
+    number: null;
+} | {
+    choice: null;
+}): AttributeType {
+    return "text" in value ? AttributeType.text : "boolean" in value ? AttributeType.boolean : "number" in value ? AttributeType.number : "choice" in value ? AttributeType.choice : value;
+}
+function from_candid_variant_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     admin: null;
 } | {
     user: null;
@@ -984,7 +2382,24 @@ function from_candid_variant_n20(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): UserRole {
     return "admin" in value ? UserRole.admin : "user" in value ? UserRole.user : "guest" in value ? UserRole.guest : value;
 }
-function from_candid_variant_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    shipped: null;
+} | {
+    cancelled: null;
+} | {
+    pending: null;
+} | {
+    paid: null;
+} | {
+    refunded: null;
+} | {
+    delivered: null;
+} | {
+    packed: null;
+}): OrderStatus {
+    return "shipped" in value ? OrderStatus.shipped : "cancelled" in value ? OrderStatus.cancelled : "pending" in value ? OrderStatus.pending : "paid" in value ? OrderStatus.paid : "refunded" in value ? OrderStatus.refunded : "delivered" in value ? OrderStatus.delivered : "packed" in value ? OrderStatus.packed : value;
+}
+function from_candid_variant_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     aud: null;
 } | {
     cad: null;
@@ -997,10 +2412,18 @@ function from_candid_variant_n32(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): Currency {
     return "aud" in value ? Currency.aud : "cad" in value ? Currency.cad : "eur" in value ? Currency.eur : "gbp" in value ? Currency.gbp : "usd" in value ? Currency.usd : value;
 }
-function from_candid_variant_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n83(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    weight: null;
+} | {
+    flat: null;
+} | {
+    orderTotal: null;
+}): RateBasis {
+    return "weight" in value ? RateBasis.weight : "flat" in value ? RateBasis.flat : "orderTotal" in value ? RateBasis.orderTotal : value;
+}
+function from_candid_variant_n88(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     completed: {
-        userPrincipal: [] | [string];
-        response: string;
+        session: _CheckoutSession;
     };
 } | {
     failed: {
@@ -1009,8 +2432,7 @@ function from_candid_variant_n34(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): {
     __kind__: "completed";
     completed: {
-        userPrincipal?: string;
-        response: string;
+        session: CheckoutSession;
     };
 } | {
     __kind__: "failed";
@@ -1020,35 +2442,116 @@ function from_candid_variant_n34(_uploadFile: (file: ExternalBlob) => Promise<Ui
 } {
     return "completed" in value ? {
         __kind__: "completed",
-        completed: from_candid_record_n35(_uploadFile, _downloadFile, value.completed)
+        completed: from_candid_record_n89(_uploadFile, _downloadFile, value.completed)
     } : "failed" in value ? {
         __kind__: "failed",
         failed: value.failed
     } : value;
 }
-async function from_candid_vec_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Product>): Promise<Array<Product>> {
-    return await Promise.all(value.map(async (x)=>await from_candid_Product_n15(_uploadFile, _downloadFile, x)));
+async function from_candid_vec_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ExternalBlob>): Promise<Array<ExternalBlob>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_ExternalBlob_n22(_uploadFile, _downloadFile, x)));
+}
+async function from_candid_vec_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Product>): Promise<Array<Product>> {
+    return await Promise.all(value.map(async (x)=>await from_candid_Product_n13(_uploadFile, _downloadFile, x)));
+}
+function from_candid_vec_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_AttributeDefinition>): Array<AttributeDefinition> {
+    return value.map((x)=>from_candid_AttributeDefinition_n41(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_BasketItem>): Array<BasketItem> {
+    return value.map((x)=>from_candid_BasketItem_n46(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_CategoryV2>): Array<CategoryV2> {
+    return value.map((x)=>from_candid_CategoryV2_n52(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Order>): Array<Order> {
+    return value.map((x)=>from_candid_Order_n56(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_OrderEvent>): Array<OrderEvent> {
+    return value.map((x)=>from_candid_OrderEvent_n61(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n65(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_OrderItem>): Array<OrderItem> {
+    return value.map((x)=>from_candid_OrderItem_n66(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n68(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Refund>): Array<Refund> {
+    return value.map((x)=>from_candid_Refund_n69(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n71(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_RefundLine>): Array<RefundLine> {
+    return value.map((x)=>from_candid_RefundLine_n72(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n76(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ShippingZone>): Array<ShippingZone> {
+    return value.map((x)=>from_candid_ShippingZone_n77(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n79(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_ShippingRate>): Array<ShippingRate> {
+    return value.map((x)=>from_candid_ShippingRate_n80(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n92(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_DiscountCodeUsage>): Array<DiscountCodeUsage> {
+    return value.map((x)=>from_candid_DiscountCodeUsage_n93(_uploadFile, _downloadFile, x));
 }
-function from_candid_vec_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_CategoryV2>): Array<CategoryV2> {
-    return value.map((x)=>from_candid_CategoryV2_n22(_uploadFile, _downloadFile, x));
+function to_candid_AttributeDefinition_n122(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AttributeDefinition): _AttributeDefinition {
+    return to_candid_record_n123(_uploadFile, _downloadFile, value);
+}
+function to_candid_AttributeType_n124(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AttributeType): _AttributeType {
+    return to_candid_variant_n125(_uploadFile, _downloadFile, value);
+}
+function to_candid_BasketItem_n108(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: BasketItem): _BasketItem {
+    return to_candid_record_n109(_uploadFile, _downloadFile, value);
 }
 function to_candid_CategoryV2_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: CategoryV2): _CategoryV2 {
     return to_candid_record_n9(_uploadFile, _downloadFile, value);
 }
-function to_candid_Category_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Category): _Category {
+function to_candid_Category_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Category): _Category {
     return to_candid_record_n9(_uploadFile, _downloadFile, value);
 }
-function to_candid_Currency_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Currency): _Currency {
-    return to_candid_variant_n40(_uploadFile, _downloadFile, value);
+function to_candid_Currency_n141(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Currency): _Currency {
+    return to_candid_variant_n142(_uploadFile, _downloadFile, value);
+}
+function to_candid_DiscountCode_n117(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DiscountCode): _DiscountCode {
+    return to_candid_record_n118(_uploadFile, _downloadFile, value);
+}
+function to_candid_DiscountKind_n119(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DiscountKind): _DiscountKind {
+    return to_candid_variant_n120(_uploadFile, _downloadFile, value);
 }
-async function to_candid_ExternalBlob_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob): Promise<_ExternalBlob> {
+async function to_candid_ExternalBlob_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ExternalBlob): Promise<_ExternalBlob> {
     return await _uploadFile(value);
 }
-function to_candid_StoreSettings_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: StoreSettings): _StoreSettings {
-    return to_candid_record_n38(_uploadFile, _downloadFile, value);
+function to_candid_OrderFilter_n97(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: OrderFilter): _OrderFilter {
+    return to_candid_record_n98(_uploadFile, _downloadFile, value);
+}
+function to_candid_OrderStatus_n99(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: OrderStatus): _OrderStatus {
+    return to_candid_variant_n100(_uploadFile, _downloadFile, value);
+}
+function to_candid_ProductFilter_n101(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ProductFilter): _ProductFilter {
+    return to_candid_record_n102(_uploadFile, _downloadFile, value);
+}
+function to_candid_ProductSort_n103(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ProductSort): _ProductSort {
+    return to_candid_variant_n104(_uploadFile, _downloadFile, value);
+}
+function to_candid_ProductUpdate_n137(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ProductUpdate): _ProductUpdate {
+    return to_candid_record_n138(_uploadFile, _downloadFile, value);
 }
-function to_candid_UserRole_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
-    return to_candid_variant_n12(_uploadFile, _downloadFile, value);
+function to_candid_RateBasis_n135(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: RateBasis): _RateBasis {
+    return to_candid_variant_n136(_uploadFile, _downloadFile, value);
+}
+function to_candid_RefundLine_n115(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: RefundLine): _RefundLine {
+    return to_candid_record_n109(_uploadFile, _downloadFile, value);
+}
+function to_candid_RefundRequest_n112(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: RefundRequest): _RefundRequest {
+    return to_candid_record_n113(_uploadFile, _downloadFile, value);
+}
+function to_candid_Sale_n127(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Sale): _Sale {
+    return to_candid_record_n128(_uploadFile, _downloadFile, value);
+}
+function to_candid_ShippingRate_n133(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ShippingRate): _ShippingRate {
+    return to_candid_record_n134(_uploadFile, _downloadFile, value);
+}
+function to_candid_ShippingZone_n130(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ShippingZone): _ShippingZone {
+    return to_candid_record_n131(_uploadFile, _downloadFile, value);
+}
+function to_candid_StoreSettings_n139(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: StoreSettings): _StoreSettings {
+    return to_candid_record_n140(_uploadFile, _downloadFile, value);
+}
+function to_candid_UserRole_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
+    return to_candid_variant_n24(_uploadFile, _downloadFile, value);
 }
 function to_candid__CaffeineStorageRefillInformation_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation): __CaffeineStorageRefillInformation {
     return to_candid_record_n3(_uploadFile, _downloadFile, value);
@@ -1056,16 +2559,202 @@ function to_candid__CaffeineStorageRefillInformation_n2(_uploadFile: (file: Exte
 function to_candid_opt_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CaffeineStorageRefillInformation | null): [] | [__CaffeineStorageRefillInformation] {
     return value === null ? candid_none() : candid_some(to_candid__CaffeineStorageRefillInformation_n2(_uploadFile, _downloadFile, value));
 }
-function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    proposed_top_up_amount?: bigint;
+function to_candid_opt_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: string | null): [] | [string] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n126(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Sale | null): [] | [_Sale] {
+    return value === null ? candid_none() : candid_some(to_candid_Sale_n127(_uploadFile, _downloadFile, value));
+}
+function to_candid_opt_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ShippingChoice | null): [] | [_ShippingChoice] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_record_n102(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    newArrivalsOnly: boolean;
+    inStockOnly: boolean;
+    maxPrice?: bigint;
+    attributes: Array<AttributeFilter>;
+    minPrice?: bigint;
+    categoryIds: Array<string>;
 }): {
-    proposed_top_up_amount: [] | [bigint];
+    newArrivalsOnly: boolean;
+    inStockOnly: boolean;
+    maxPrice: [] | [bigint];
+    attributes: Array<_AttributeFilter>;
+    minPrice: [] | [bigint];
+    categoryIds: Array<string>;
 } {
     return {
-        proposed_top_up_amount: value.proposed_top_up_amount ? candid_some(value.proposed_top_up_amount) : candid_none()
+        newArrivalsOnly: value.newArrivalsOnly,
+        inStockOnly: value.inStockOnly,
+        maxPrice: value.maxPrice ? candid_some(value.maxPrice) : candid_none(),
+        attributes: value.attributes,
+        minPrice: value.minPrice ? candid_some(value.minPrice) : candid_none(),
+        categoryIds: value.categoryIds
+    };
+}
+function to_candid_record_n109(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    productId: string;
+    variantSku?: string;
+    quantity: bigint;
+}): {
+    productId: string;
+    variantSku: [] | [string];
+    quantity: bigint;
+} {
+    return {
+        productId: value.productId,
+        variantSku: value.variantSku ? candid_some(value.variantSku) : candid_none(),
+        quantity: value.quantity
+    };
+}
+function to_candid_record_n113(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    restock: boolean;
+    lines: Array<RefundLine>;
+    amount?: bigint;
+    reason: string;
+}): {
+    restock: boolean;
+    lines: Array<_RefundLine>;
+    amount: [] | [bigint];
+    reason: string;
+} {
+    return {
+        restock: value.restock,
+        lines: to_candid_vec_n114(_uploadFile, _downloadFile, value.lines),
+        amount: value.amount ? candid_some(value.amount) : candid_none(),
+        reason: value.reason
+    };
+}
+function to_candid_record_n118(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    active: boolean;
+    expiresAt?: bigint;
+    code: string;
+    kind: DiscountKind;
+    minimumOrder?: bigint;
+    maxUses?: bigint;
+    amount: bigint;
+    maxUsesPerCustomer?: bigint;
+    categoryIds: Array<string>;
+}): {
+    active: boolean;
+    expiresAt: [] | [bigint];
+    code: string;
+    kind: _DiscountKind;
+    minimumOrder: [] | [bigint];
+    maxUses: [] | [bigint];
+    amount: bigint;
+    maxUsesPerCustomer: [] | [bigint];
+    categoryIds: Array<string>;
+} {
+    return {
+        active: value.active,
+        expiresAt: value.expiresAt ? candid_some(value.expiresAt) : candid_none(),
+        code: value.code,
+        kind: to_candid_DiscountKind_n119(_uploadFile, _downloadFile, value.kind),
+        minimumOrder: value.minimumOrder ? candid_some(value.minimumOrder) : candid_none(),
+        maxUses: value.maxUses ? candid_some(value.maxUses) : candid_none(),
+        amount: value.amount,
+        maxUsesPerCustomer: value.maxUsesPerCustomer ? candid_some(value.maxUsesPerCustomer) : candid_none(),
+        categoryIds: value.categoryIds
+    };
+}
+function to_candid_record_n123(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    name: string;
+    valueType: AttributeType;
+    required: boolean;
+    choices: Array<string>;
+}): {
+    name: string;
+    valueType: _AttributeType;
+    required: boolean;
+    choices: Array<string>;
+} {
+    return {
+        name: value.name,
+        valueType: to_candid_AttributeType_n124(_uploadFile, _downloadFile, value.valueType),
+        required: value.required,
+        choices: value.choices
+    };
+}
+function to_candid_record_n128(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    startsAt?: bigint;
+    kind: DiscountKind;
+    amount: bigint;
+    endsAt?: bigint;
+}): {
+    startsAt: [] | [bigint];
+    kind: _DiscountKind;
+    amount: bigint;
+    endsAt: [] | [bigint];
+} {
+    return {
+        startsAt: value.startsAt ? candid_some(value.startsAt) : candid_none(),
+        kind: to_candid_DiscountKind_n119(_uploadFile, _downloadFile, value.kind),
+        amount: value.amount,
+        endsAt: value.endsAt ? candid_some(value.endsAt) : candid_none()
+    };
+}
+function to_candid_record_n131(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    name: string;
+    countries: Array<string>;
+    rates: Array<ShippingRate>;
+}): {
+    name: string;
+    countries: Array<string>;
+    rates: Array<_ShippingRate>;
+} {
+    return {
+        name: value.name,
+        countries: value.countries,
+        rates: to_candid_vec_n132(_uploadFile, _downloadFile, value.rates)
+    };
+}
+function to_candid_record_n134(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    fee: bigint;
+    freeOver?: bigint;
+    tiers: Array<RateTier>;
+    name: string;
+    basis: RateBasis;
+}): {
+    fee: bigint;
+    freeOver: [] | [bigint];
+    tiers: Array<_RateTier>;
+    name: string;
+    basis: _RateBasis;
+} {
+    return {
+        fee: value.fee,
+        freeOver: value.freeOver ? candid_some(value.freeOver) : candid_none(),
+        tiers: value.tiers,
+        name: value.name,
+        basis: to_candid_RateBasis_n135(_uploadFile, _downloadFile, value.basis)
+    };
+}
+function to_candid_record_n138(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    categoryId?: string;
+    weight?: bigint;
+    name?: string;
+    description?: string;
+    attributes?: Array<ProductAttribute>;
+    price?: bigint;
+}): {
+    categoryId: [] | [string];
+    weight: [] | [bigint];
+    name: [] | [string];
+    description: [] | [string];
+    attributes: [] | [Array<_ProductAttribute>];
+    price: [] | [bigint];
+} {
+    return {
+        categoryId: value.categoryId ? candid_some(value.categoryId) : candid_none(),
+        weight: value.weight ? candid_some(value.weight) : candid_none(),
+        name: value.name ? candid_some(value.name) : candid_none(),
+        description: value.description ? candid_some(value.description) : candid_none(),
+        attributes: value.attributes ? candid_some(value.attributes) : candid_none(),
+        price: value.price ? candid_some(value.price) : candid_none()
     };
 }
-function to_candid_record_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function to_candid_record_n140(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     currency: Currency;
     storeName: string;
     contactEmail: string;
@@ -1079,13 +2768,22 @@ function to_candid_record_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8
     taxRate: number;
 } {
     return {
-        currency: to_candid_Currency_n39(_uploadFile, _downloadFile, value.currency),
+        currency: to_candid_Currency_n141(_uploadFile, _downloadFile, value.currency),
         storeName: value.storeName,
         contactEmail: value.contactEmail,
         storeDescription: value.storeDescription,
         taxRate: value.taxRate
     };
 }
+function to_candid_record_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    proposed_top_up_amount?: bigint;
+}): {
+    proposed_top_up_amount: [] | [bigint];
+} {
+    return {
+        proposed_top_up_amount: value.proposed_top_up_amount ? candid_some(value.proposed_top_up_amount) : candid_none()
+    };
+}
 function to_candid_record_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     name: string;
     subcategories: Array<string>;
@@ -1101,22 +2799,121 @@ function to_candid_record_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8A
         parent: value.parent ? candid_some(value.parent) : candid_none()
     };
 }
-function to_candid_variant_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
-    admin: null;
+function to_candid_record_n98(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    status?: OrderStatus;
+    createdBefore?: bigint;
+    createdAfter?: bigint;
+}): {
+    status: [] | [_OrderStatus];
+    createdBefore: [] | [bigint];
+    createdAfter: [] | [bigint];
+} {
+    return {
+        status: value.status ? candid_some(to_candid_OrderStatus_n99(_uploadFile, _downloadFile, value.status)) : candid_none(),
+        createdBefore: value.createdBefore ? candid_some(value.createdBefore) : candid_none(),
+        createdAfter: value.createdAfter ? candid_some(value.createdAfter) : candid_none()
+    };
+}
+function to_candid_variant_n100(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: OrderStatus): {
+    shipped: null;
 } | {
-    user: null;
+    cancelled: null;
 } | {
-    guest: null;
+    pending: null;
+} | {
+    paid: null;
+} | {
+    refunded: null;
+} | {
+    delivered: null;
+} | {
+    packed: null;
 } {
-    return value == UserRole.admin ? {
-        admin: null
-    } : value == UserRole.user ? {
-        user: null
-    } : value == UserRole.guest ? {
-        guest: null
+    return value == OrderStatus.shipped ? {
+        shipped: null
+    } : value == OrderStatus.cancelled ? {
+        cancelled: null
+    } : value == OrderStatus.pending ? {
+        pending: null
+    } : value == OrderStatus.paid ? {
+        paid: null
+    } : value == OrderStatus.refunded ? {
+        refunded: null
+    } : value == OrderStatus.delivered ? {
+        delivered: null
+    } : value == OrderStatus.packed ? {
+        packed: null
+    } : value;
+}
+function to_candid_variant_n104(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: ProductSort): {
+    newest: null;
+} | {
+    relevance: null;
+} | {
+    nameAsc: null;
+} | {
+    priceDesc: null;
+} | {
+    priceAsc: null;
+} {
+    return value == ProductSort.newest ? {
+        newest: null
+    } : value == ProductSort.relevance ? {
+        relevance: null
+    } : value == ProductSort.nameAsc ? {
+        nameAsc: null
+    } : value == ProductSort.priceDesc ? {
+        priceDesc: null
+    } : value == ProductSort.priceAsc ? {
+        priceAsc: null
+    } : value;
+}
+function to_candid_variant_n120(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: DiscountKind): {
+    fixed: null;
+} | {
+    percentage: null;
+} {
+    return value == DiscountKind.fixed ? {
+        fixed: null
+    } : value == DiscountKind.percentage ? {
+        percentage: null
+    } : value;
+}
+function to_candid_variant_n125(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: AttributeType): {
+    text: null;
+} | {
+    boolean: null;
+} | {
+    number: null;
+} | {
+    choice: null;
+} {
+    return value == AttributeType.text ? {
+        text: null
+    } : value == AttributeType.boolean ? {
+        boolean: null
+    } : value == AttributeType.number ? {
+        number: null
+    } : value == AttributeType.choice ? {
+        choice: null
+    } : value;
+}
+function to_candid_variant_n136(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: RateBasis): {
+    weight: null;
+} | {
+    flat: null;
+} | {
+    orderTotal: null;
+} {
+    return value == RateBasis.weight ? {
+        weight: null
+    } : value == RateBasis.flat ? {
+        flat: null
+    } : value == RateBasis.orderTotal ? {
+        orderTotal: null
     } : value;
 }
-function to_candid_variant_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Currency): {
+function to_candid_variant_n142(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Currency): {
     aud: null;
 } | {
     cad: null;
@@ -1139,9 +2936,42 @@ function to_candid_variant_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint
         usd: null
     } : value;
 }
-function to_candid_vec_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<CategoryV2>): Array<_CategoryV2> {
+function to_candid_variant_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
+    admin: null;
+} | {
+    user: null;
+} | {
+    guest: null;
+} {
+    return value == UserRole.admin ? {
+        admin: null
+    } : value == UserRole.user ? {
+        user: null
+    } : value == UserRole.guest ? {
+        guest: null
+    } : value;
+}
+async function to_candid_vec_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<ExternalBlob>): Promise<Array<_ExternalBlob>> {
+    return await Promise.all(value.map(async (x)=>await to_candid_ExternalBlob_n11(_uploadFile, _downloadFile, x)));
+}
+function to_candid_vec_n107(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<BasketItem>): Array<_BasketItem> {
+    return value.map((x)=>to_candid_BasketItem_n108(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n114(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<RefundLine>): Array<_RefundLine> {
+    return value.map((x)=>to_candid_RefundLine_n115(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n116(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<CategoryV2>): Array<_CategoryV2> {
     return value.map((x)=>to_candid_CategoryV2_n8(_uploadFile, _downloadFile, x));
 }
+function to_candid_vec_n121(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<AttributeDefinition>): Array<_AttributeDefinition> {
+    return value.map((x)=>to_candid_AttributeDefinition_n122(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n129(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<ShippingZone>): Array<_ShippingZone> {
+    return value.map((x)=>to_candid_ShippingZone_n130(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n132(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<ShippingRate>): Array<_ShippingRate> {
+    return value.map((x)=>to_candid_ShippingRate_n133(_uploadFile, _downloadFile, x));
+}
 export interface CreateActorOptions {
     agent?: Agent;
     agentOptions?: HttpAgentOptions;
@@ -0,0 +1,90 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { AttributeType, type AttributeDefinition } from '../backend';
+import type { AttributeValues } from '../utils/attributes';
+
+interface AttributeFieldsProps {
+  schema: AttributeDefinition[];
+  values: AttributeValues;
+  onChange: (values: AttributeValues) => void;
+  disabled?: boolean;
+  // Keeps ids unique when several forms are on the page, e.g. one per batch row
+  idPrefix?: string;
+  compact?: boolean;
+}
+
+export default function AttributeFields({
+  schema,
+  values,
+  onChange,
+  disabled = false,
+  idPrefix = 'attribute',
+  compact = false,
+}: AttributeFieldsProps) {
+  if (schema.length === 0) return null;
+
+  const setValue = (name: string, value: string) => onChange({ ...values, [name]: value });
+  const inputClassName = cn('border-sage/30 focus-visible:ring-sage', compact && 'h-8 text-sm');
+
+  return (
+    <div className={cn('grid gap-3', compact ? 'sm:grid-cols-3' : 'sm:grid-cols-2')}>
+      {schema.map((definition, index) => {
+        const id = `${idPrefix}-${index}`;
+        const value = values[definition.name] ?? '';
+        const label = (
+          <Label htmlFor={id} className={cn(compact && 'text-xs')}>
+            {definition.name}
+            {definition.required && <span className="ml-0.5 text-destructive">*</span>}
+          </Label>
+        );
+
+        if (definition.valueType === AttributeType.boolean_) {
+          return (
+            <div key={definition.name} className="flex items-center gap-2 self-end pb-2">
+              <Checkbox
+                id={id}
+                checked={value === 'true'}
+                onCheckedChange={(checked) => setValue(definition.name, checked === true ? 'true' : 'false')}
+                disabled={disabled}
+              />
+              {label}
+            </div>
+          );
+        }
+
+        return (
+          <div key={definition.name} className="space-y-1">
+            {label}
+            {definition.valueType === AttributeType.choice ? (
+              <Select value={value} onValueChange={(choice) => setValue(definition.name, choice)} disabled={disabled}>
+                <SelectTrigger id={id} className={cn('border-sage/30 focus:ring-sage', compact && 'h-8 text-sm')}>
+                  <SelectValue placeholder="Choose..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {definition.choices.map((choice) => (
+                    <SelectItem key={choice} value={choice}>
+                      {choice}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={id}
+                type={definition.valueType === AttributeType.number_ ? 'number' : 'text'}
+                value={value}
+                onChange={(e) => setValue(definition.name, e.target.value)}
+                disabled={disabled}
+                className={inputClassName}
+                step="any"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { useCategories, useStartBatchUpload, useUploadProductImage, useFinishBatchUpload } from '../hooks/useQueries';
 import { usePriceConstraint } from '../hooks/usePriceConstraints';
+import { useAttributeSchema } from '../hooks/useCategoryAttributes';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -10,10 +11,14 @@ import { Progress } from '@/components/ui/progress';
 import { Upload, Loader2, CheckCircle2, XCircle, Image as ImageIcon, AlertCircle, Info } from 'lucide-react';
 import { toast } from 'sonner';
 import { ExternalBlob } from '../backend';
+import AttributeFields from './AttributeFields';
+import { missingRequiredAttributes, toProductAttributes, type AttributeValues } from '../utils/attributes';
 
 interface UploadedProduct {
   name: string;
   price: number;
+  stock: number;
+  attributes: AttributeValues;
   image: File;
   status: 'pending' | 'uploading' | 'success' | 'error';
   error?: string;
@@ -32,6 +37,7 @@ export default function BatchUploader() {
   const uploadProductMutation = useUploadProductImage();
   const finishBatchMutation = useFinishBatchUpload();
   const { data: priceConstraint } = usePriceConstraint(selectedCategory);
+  const { data: attributeSchema = [] } = useAttributeSchema(selectedCategory);
 
   // Validate prices whenever category or products change
   useEffect(() => {
@@ -73,6 +79,8 @@ export default function BatchUploader() {
     const newProducts: UploadedProduct[] = imageFiles.map((file) => ({
       name: file.name.replace(/\.[^/.]+$/, ''),
       price: 0,
+      stock: 1,
+      attributes: {},
       image: file,
       status: 'pending',
     }));
@@ -111,6 +119,14 @@ export default function BatchUploader() {
       return;
     }
 
+    const incompleteProducts = products.filter(
+      (p) => missingRequiredAttributes(attributeSchema, p.attributes).length > 0
+    );
+    if (incompleteProducts.length > 0) {
+      toast.error(`${incompleteProducts.length} product(s) are missing required attributes`);
+      return;
+    }
+
     // Check for price constraint violations
     const priceViolations = products.filter((p) => p.priceError);
     if (priceViolations.length > 0) {
@@ -161,6 +177,8 @@ export default function BatchUploader() {
             image: blob,
             price: BigInt(Math.round(product.price * 100)),
             category: categoryPath,
+            stock: BigInt(product.stock),
+            attributes: toProductAttributes(attributeSchema, product.attributes),
           });
 
           console.log(`[BatchUploader] ✅ Product ${i + 1}/${products.length} uploaded successfully:`, product.name);
@@ -355,7 +373,7 @@ export default function BatchUploader() {
                   </div>
 
                   <div className="flex-1 space-y-2">
-                    <div className="grid gap-2 sm:grid-cols-2">
+                    <div className="grid gap-2 sm:grid-cols-3">
                       <div>
                         <Label htmlFor={`name-${index}`} className="text-xs">
                           Product Name
@@ -386,8 +404,32 @@ export default function BatchUploader() {
                           <p className="mt-1 text-xs text-destructive">{product.priceError}</p>
                         )}
                       </div>
+                      <div>
+                        <Label htmlFor={`stock-${index}`} className="text-xs">
+                          Stock
+                        </Label>
+                        <Input
+                          id={`stock-${index}`}
+                          type="number"
+                          value={product.stock}
+                          onChange={(e) => updateProduct(index, { stock: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                          disabled={isUploading}
+                          className="h-8 border-sage/30 text-sm"
+                          step="1"
+                          min="0"
+                        />
+                      </div>
                     </div>
 
+                    <AttributeFields
+                      schema={attributeSchema}
+                      values={product.attributes}
+                      onChange={(attributes) => updateProduct(index, { attributes })}
+                      disabled={isUploading}
+                      idPrefix={`attribute-${index}`}
+                      compact
+                    />
+
                     {product.status === 'error' && product.error && (
                       <div className="flex items-center gap-1 text-xs text-destructive">
                         <AlertCircle className="h-3 w-3" />
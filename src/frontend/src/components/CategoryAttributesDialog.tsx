@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCategories } from '../hooks/useQueries';
+import { useCategoryAttributes, useSetCategoryAttributes, useAttributeSchema } from '../hooks/useCategoryAttributes';
+import { ATTRIBUTE_TYPE_LABELS } from '../utils/attributes';
+import { AttributeType, type AttributeDefinition } from '../backend';
+
+// Choices are edited as comma-separated text, e.g. "Clay, Porcelain, Stoneware"
+type AttributeDraft = { name: string; valueType: AttributeType; required: boolean; choices: string };
+
+function toDraft(definition: AttributeDefinition): AttributeDraft {
+  return { ...definition, choices: definition.choices.join(', ') };
+}
+
+function toDefinition(draft: AttributeDraft): AttributeDefinition {
+  return {
+    name: draft.name.trim(),
+    valueType: draft.valueType,
+    required: draft.required,
+    choices:
+      draft.valueType === AttributeType.choice
+        ? [...new Set(draft.choices.split(',').map((choice) => choice.trim()).filter(Boolean))]
+        : [],
+  };
+}
+
+interface CategoryAttributesDialogProps {
+  categoryId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function CategoryAttributesDialog({ categoryId, open, onOpenChange }: CategoryAttributesDialogProps) {
+  const { data: categories = [] } = useCategories();
+  const { data: ownAttributes = [], isLoading } = useCategoryAttributes(categoryId);
+  const parentName = categories.find((category) => category.name === categoryId)?.parent;
+  const { data: parentSchema = [] } = useAttributeSchema(parentName ?? '');
+  const setAttributesMutation = useSetCategoryAttributes();
+  const [drafts, setDrafts] = useState<AttributeDraft[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setDrafts(ownAttributes.map(toDraft));
+    }
+  }, [open, categoryId, isLoading]);
+
+  const updateDraft = (index: number, change: Partial<AttributeDraft>) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? { ...draft, ...change } : draft)));
+  };
+
+  const handleSave = async () => {
+    const attributes = drafts.map(toDefinition);
+    if (attributes.some((attribute) => !attribute.name)) {
+      toast.error('Every attribute needs a name');
+      return;
+    }
+    try {
+      await setAttributesMutation.mutateAsync({ categoryId, attributes });
+      toast.success('Attributes saved');
+      onOpenChange(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save attributes');
+    }
+  };
+
+  const isSaving = setAttributesMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Attributes for {categoryId}</DialogTitle>
+          <DialogDescription>
+            Define the specifications every product in this category has, such as key, number of holes or material.
+            They are filled in when adding products and shown on the product page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {parentName && parentSchema.length > 0 && (
+            <p className="rounded-md bg-cream/40 p-3 text-sm text-muted-foreground">
+              Also inherits {parentSchema.map((attribute) => attribute.name).join(', ')} from {parentName}. An
+              attribute with the same name here replaces the inherited one.
+            </p>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-sage" />
+            </div>
+          ) : (
+            drafts.map((draft, index) => (
+              <div key={index} className="space-y-2 rounded-lg border border-sage/20 p-3">
+                <div className="flex gap-2">
+                  <Input
+                    value={draft.name}
+                    onChange={(e) => updateDraft(index, { name: e.target.value })}
+                    placeholder="Name, e.g. Number of holes"
+                    disabled={isSaving}
+                    className="flex-1 border-sage/30 focus-visible:ring-sage"
+                    aria-label="Attribute name"
+                  />
+                  <Select
+                    value={draft.valueType}
+                    onValueChange={(valueType) => updateDraft(index, { valueType: valueType as AttributeType })}
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger className="w-36 border-sage/30 focus:ring-sage" aria-label="Attribute type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(AttributeType).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {ATTRIBUTE_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={isSaving}
+                    aria-label="Remove attribute"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                {draft.valueType === AttributeType.choice && (
+                  <Input
+                    value={draft.choices}
+                    onChange={(e) => updateDraft(index, { choices: e.target.value })}
+                    placeholder="Choices, e.g. Clay, Porcelain, Stoneware"
+                    disabled={isSaving}
+                    className="border-sage/30 focus-visible:ring-sage"
+                    aria-label="Choices"
+                  />
+                )}
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`attribute-required-${index}`}
+                    checked={draft.required}
+                    onCheckedChange={(checked) => updateDraft(index, { required: checked === true })}
+                    disabled={isSaving}
+                  />
+                  <Label htmlFor={`attribute-required-${index}`} className="text-sm font-normal">
+                    Required
+                  </Label>
+                </div>
+              </div>
+            ))
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setDrafts((prev) => [...prev, { name: '', valueType: AttributeType.text, required: false, choices: '' }])
+            }
+            disabled={isSaving || isLoading}
+            className="border-sage/30"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Attribute
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading} className="bg-terracotta hover:bg-terracotta/90">
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Attributes'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
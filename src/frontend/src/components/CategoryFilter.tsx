@@ -1,20 +1,114 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useCategories } from '../hooks/useQueries';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
-import type { Category } from '../backend';
+import type { AttributeFacet, ProductFacets } from '../backend';
+import { hasActiveFilters, toggleAttributeValue, type ProductFilterSearch } from '../utils/products';
 
 interface CategoryFilterProps {
-  selectedCategories: string[];
-  onCategoriesChange: (categories: string[]) => void;
+  filters: ProductFilterSearch;
+  onFiltersChange: (filters: ProductFilterSearch) => void;
+  // Counts for the current result set; undefined while the first page loads
+  facets?: ProductFacets;
 }
 
-export default function CategoryFilter({ selectedCategories, onCategoriesChange }: CategoryFilterProps) {
+function FacetCount({ count }: { count: number | undefined }) {
+  if (count === undefined) return null;
+  return <span className="flex-1 text-right text-xs text-muted-foreground">{count}</span>;
+}
+
+function PriceRangeFilter({ filters, onFiltersChange, facets }: Required<CategoryFilterProps>) {
+  // The slider works in whole currency units around the prices currently on offer
+  const lowest = Math.floor(Number(facets.minPrice) / 100);
+  const highest = Math.ceil(Number(facets.maxPrice) / 100);
+  const selected: [number, number] = [
+    Math.max(lowest, Math.min(filters.minPrice ?? lowest, highest)),
+    Math.min(highest, Math.max(filters.maxPrice ?? highest, lowest)),
+  ];
+  const [range, setRange] = useState(selected);
+
+  useEffect(() => {
+    setRange(selected);
+  }, [selected[0], selected[1]]);
+
+  if (highest <= lowest) return null;
+
+  // Only touch the URL once the thumb is released; a bound at the edge of the range means no limit
+  const handleCommit = ([min, max]: number[]) => {
+    onFiltersChange({
+      ...filters,
+      minPrice: min > lowest ? min : undefined,
+      maxPrice: max < highest ? max : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-semibold">Price</Label>
+      <Slider
+        min={lowest}
+        max={highest}
+        step={1}
+        value={range}
+        onValueChange={(value) => setRange([value[0], value[1]])}
+        onValueCommit={handleCommit}
+        aria-label="Price range"
+      />
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>${range[0]}</span>
+        <span>${range[1]}</span>
+      </div>
+    </div>
+  );
+}
+
+interface AttributeFilterProps {
+  facet: AttributeFacet;
+  filters: ProductFilterSearch;
+  onFiltersChange: (filters: ProductFilterSearch) => void;
+}
+
+function AttributeFilter({ facet, filters, onFiltersChange }: AttributeFilterProps) {
+  const selected = filters.attributes?.[facet.name] ?? [];
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-semibold">{facet.name}</Label>
+      {facet.values.map((option) => {
+        const id = `attribute-${facet.name}-${option.value}`;
+        return (
+          <div key={option.value} className="flex items-center space-x-2">
+            <Checkbox
+              id={id}
+              checked={selected.includes(option.value)}
+              onCheckedChange={() => onFiltersChange(toggleAttributeValue(filters, facet.name, option.value))}
+              className="border-sage data-[state=checked]:bg-sage data-[state=checked]:text-white"
+            />
+            <Label htmlFor={id} className="cursor-pointer text-sm leading-none">
+              {option.displayValue}
+            </Label>
+            <FacetCount count={Number(option.count)} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function CategoryFilter({ filters, onFiltersChange, facets }: CategoryFilterProps) {
   const { data: categories = [], isLoading } = useCategories();
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
+  const selectedCategories = filters.categories ?? [];
+
+  const onCategoriesChange = (next: string[]) => {
+    onFiltersChange({ ...filters, categories: next.length > 0 ? next : undefined });
+  };
+
+  const categoryCounts = new Map(facets?.categories.map((c) => [c.categoryId, Number(c.count)]));
 
   const toggleExpanded = (category: string) => {
     const newExpanded = new Set(expandedCategories);
@@ -40,6 +134,13 @@ export default function CategoryFilter({ selectedCategories, onCategoriesChange
     return [categoryName, ...subcategories.map(sub => sub.name)];
   };
 
+  // A parent category's count includes the products in its subcategories
+  const countFor = (categoryName: string, includeSubcategories: boolean) => {
+    if (!facets) return undefined;
+    const names = includeSubcategories ? getCategoryAndDescendants(categoryName) : [categoryName];
+    return names.reduce((sum, name) => sum + (categoryCounts.get(name) ?? 0), 0);
+  };
+
   const handleToggleParentCategory = (categoryName: string) => {
     const allRelated = getCategoryAndDescendants(categoryName);
     const isAnySelected = allRelated.some((name) => selectedCategories.includes(name));
@@ -62,7 +163,7 @@ export default function CategoryFilter({ selectedCategories, onCategoriesChange
   };
 
   const handleClearAll = () => {
-    onCategoriesChange([]);
+    onFiltersChange({});
   };
 
   const isParentChecked = (categoryName: string) => {
@@ -80,8 +181,8 @@ export default function CategoryFilter({ selectedCategories, onCategoriesChange
     <Card className="border-sage/20">
       <CardHeader>
         <div className="flex items-center justify-between">
-          <CardTitle className="font-serif text-lg text-terracotta">Filter by Category</CardTitle>
-          {selectedCategories.length > 0 && (
+          <CardTitle className="font-serif text-lg text-terracotta">Filters</CardTitle>
+          {hasActiveFilters(filters) && (
             <button
               onClick={handleClearAll}
               className="text-sm text-muted-foreground hover:text-foreground"
@@ -91,77 +192,118 @@ export default function CategoryFilter({ selectedCategories, onCategoriesChange
           )}
         </div>
       </CardHeader>
-      <CardContent>
-        {isLoading ? (
-          <div className="flex items-center justify-center py-8">
-            <Loader2 className="h-6 w-6 animate-spin text-sage" />
-          </div>
-        ) : parentCategories.length === 0 ? (
-          <p className="py-4 text-center text-sm text-muted-foreground">No categories available</p>
-        ) : (
-          <div className="space-y-2">
-            {parentCategories.map((category) => {
-              const subcategories = getSubcategories(category.name);
-              const hasSubcategories = subcategories.length > 0;
-              const isExpanded = expandedCategories.has(category.name);
-
-              return (
-                <div key={category.name} className="space-y-1">
-                  <Collapsible open={isExpanded} onOpenChange={() => toggleExpanded(category.name)}>
-                    <div className="flex items-center space-x-2">
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label className="text-sm font-semibold">Category</Label>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-sage" />
+            </div>
+          ) : parentCategories.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">No categories available</p>
+          ) : (
+            <div className="space-y-2">
+              {parentCategories.map((category) => {
+                const subcategories = getSubcategories(category.name);
+                const hasSubcategories = subcategories.length > 0;
+                const isExpanded = expandedCategories.has(category.name);
+
+                return (
+                  <div key={category.name} className="space-y-1">
+                    <Collapsible open={isExpanded} onOpenChange={() => toggleExpanded(category.name)}>
+                      <div className="flex items-center space-x-2">
+                        {hasSubcategories && (
+                          <CollapsibleTrigger asChild>
+                            <button className="flex h-4 w-4 items-center justify-center text-muted-foreground hover:text-foreground">
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4" />
+                              )}
+                            </button>
+                          </CollapsibleTrigger>
+                        )}
+                        {!hasSubcategories && <div className="w-4" />}
+                        <Checkbox
+                          id={`category-${category.name}`}
+                          checked={isParentChecked(category.name)}
+                          onCheckedChange={() => handleToggleParentCategory(category.name)}
+                          className="border-sage data-[state=checked]:bg-sage data-[state=checked]:text-white"
+                          data-indeterminate={isParentIndeterminate(category.name)}
+                        />
+                        <Label
+                          htmlFor={`category-${category.name}`}
+                          className="cursor-pointer text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                        >
+                          {category.name}
+                        </Label>
+                        <FacetCount count={countFor(category.name, true)} />
+                      </div>
+
                       {hasSubcategories && (
-                        <CollapsibleTrigger asChild>
-                          <button className="flex h-4 w-4 items-center justify-center text-muted-foreground hover:text-foreground">
-                            {isExpanded ? (
-                              <ChevronDown className="h-4 w-4" />
-                            ) : (
-                              <ChevronRight className="h-4 w-4" />
-                            )}
-                          </button>
-                        </CollapsibleTrigger>
+                        <CollapsibleContent className="ml-8 mt-2 space-y-2">
+                          {subcategories.map((subcategory) => (
+                            <div key={subcategory.name} className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`category-${subcategory.name}`}
+                                checked={selectedCategories.includes(subcategory.name)}
+                                onCheckedChange={() => handleToggleSubcategory(subcategory.name)}
+                                className="border-sage data-[state=checked]:bg-sage data-[state=checked]:text-white"
+                              />
+                              <Label
+                                htmlFor={`category-${subcategory.name}`}
+                                className="cursor-pointer text-sm leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                              >
+                                {subcategory.name}
+                              </Label>
+                              <FacetCount count={countFor(subcategory.name, false)} />
+                            </div>
+                          ))}
+                        </CollapsibleContent>
                       )}
-                      {!hasSubcategories && <div className="w-4" />}
-                      <Checkbox
-                        id={`category-${category.name}`}
-                        checked={isParentChecked(category.name)}
-                        onCheckedChange={() => handleToggleParentCategory(category.name)}
-                        className="border-sage data-[state=checked]:bg-sage data-[state=checked]:text-white"
-                        data-indeterminate={isParentIndeterminate(category.name)}
-                      />
-                      <Label
-                        htmlFor={`category-${category.name}`}
-                        className="cursor-pointer text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                      >
-                        {category.name}
-                      </Label>
-                    </div>
-
-                    {hasSubcategories && (
-                      <CollapsibleContent className="ml-8 mt-2 space-y-2">
-                        {subcategories.map((subcategory) => (
-                          <div key={subcategory.name} className="flex items-center space-x-2">
-                            <Checkbox
-                              id={`category-${subcategory.name}`}
-                              checked={selectedCategories.includes(subcategory.name)}
-                              onCheckedChange={() => handleToggleSubcategory(subcategory.name)}
-                              className="border-sage data-[state=checked]:bg-sage data-[state=checked]:text-white"
-                            />
-                            <Label
-                              htmlFor={`category-${subcategory.name}`}
-                              className="cursor-pointer text-sm leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                            >
-                              {subcategory.name}
-                            </Label>
-                          </div>
-                        ))}
-                      </CollapsibleContent>
-                    )}
-                  </Collapsible>
-                </div>
-              );
-            })}
+                    </Collapsible>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {facets && <PriceRangeFilter filters={filters} onFiltersChange={onFiltersChange} facets={facets} />}
+
+        <div className="space-y-3">
+          <Label className="text-sm font-semibold">Availability</Label>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="filter-in-stock"
+              checked={filters.inStock ?? false}
+              onCheckedChange={(checked) => onFiltersChange({ ...filters, inStock: checked === true ? true : undefined })}
+              className="border-sage data-[state=checked]:bg-sage data-[state=checked]:text-white"
+            />
+            <Label htmlFor="filter-in-stock" className="cursor-pointer text-sm leading-none">
+              In stock only
+            </Label>
+            <FacetCount count={facets ? Number(facets.inStock) : undefined} />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="filter-new-arrivals"
+              checked={filters.newArrivals ?? false}
+              onCheckedChange={(checked) =>
+                onFiltersChange({ ...filters, newArrivals: checked === true ? true : undefined })
+              }
+              className="border-sage data-[state=checked]:bg-sage data-[state=checked]:text-white"
+            />
+            <Label htmlFor="filter-new-arrivals" className="cursor-pointer text-sm leading-none">
+              New arrivals
+            </Label>
+            <FacetCount count={facets ? Number(facets.newArrivals) : undefined} />
           </div>
-        )}
+        </div>
+
+        {facets?.attributes.map((facet) => (
+          <AttributeFilter key={facet.name} facet={facet} filters={filters} onFiltersChange={onFiltersChange} />
+        ))}
       </CardContent>
     </Card>
   );
@@ -31,9 +31,10 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Plus, Loader2, Edit2, Trash2, Info } from 'lucide-react';
+import { Plus, Loader2, Edit2, Trash2, Info, ListChecks } from 'lucide-react';
 import { toast } from 'sonner';
 import type { Category } from '../backend';
+import CategoryAttributesDialog from './CategoryAttributesDialog';
 
 interface CategorySelectorProps {
   value: string;
@@ -53,6 +54,7 @@ export default function CategorySelector({
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showAttributesDialog, setShowAttributesDialog] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [parentCategory, setParentCategory] = useState<string>(NONE_VALUE);
   const [editTarget, setEditTarget] = useState<Category | null>(null);
@@ -322,6 +324,18 @@ export default function CategorySelector({
         >
           <Plus className="h-4 w-4" />
         </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => setShowAttributesDialog(true)}
+          className="border-sage/30 hover:bg-sage/10"
+          disabled={isLoading || !value}
+          aria-label="Edit category attributes"
+          title="Edit category attributes"
+        >
+          <ListChecks className="h-4 w-4" />
+        </Button>
       </div>
       
       {/* Display minimum price requirement if available */}
@@ -472,6 +486,14 @@ export default function CategorySelector({
         </DialogContent>
       </Dialog>
 
+      {value && (
+        <CategoryAttributesDialog
+          categoryId={value}
+          open={showAttributesDialog}
+          onOpenChange={setShowAttributesDialog}
+        />
+      )}
+
       {/* Delete Category Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
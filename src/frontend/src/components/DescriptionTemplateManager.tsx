@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCategories } from '../hooks/useQueries';
+import { useSettingsQuery } from '../hooks/useSettings';
+import { useAttributeSchema } from '../hooks/useCategoryAttributes';
+import { useDescriptionTemplates, useSetDescriptionTemplate } from '../hooks/useDescriptionTemplates';
+import { DESCRIPTION_PLACEHOLDERS, inheritedDescriptionTemplate, renderDescriptionTemplate } from '../utils/descriptions';
+import { AttributeType, Currency, type AttributeDefinition } from '../backend';
+
+const DEFAULT_VALUE = '__default__';
+
+// Stand-in attribute values for the preview
+function sampleAttributeValue(definition: AttributeDefinition): string {
+  switch (definition.valueType) {
+    case AttributeType.choice:
+      return definition.choices[0] ?? '';
+    case AttributeType.boolean_:
+      return 'true';
+    default:
+      return `<${definition.name}>`;
+  }
+}
+
+export default function DescriptionTemplateManager() {
+  const { data: templates, isLoading } = useDescriptionTemplates();
+  const { data: categories = [] } = useCategories();
+  const { data: settings } = useSettingsQuery();
+  const setTemplateMutation = useSetDescriptionTemplate();
+
+  const [target, setTarget] = useState(DEFAULT_VALUE);
+  const [template, setTemplate] = useState('');
+  const [sampleName, setSampleName] = useState('Alto C Ocarina');
+  const [samplePrice, setSamplePrice] = useState('45.00');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const categoryId = target === DEFAULT_VALUE ? '' : target;
+  const { data: attributeSchema = [] } = useAttributeSchema(categoryId);
+
+  // Load the saved template whenever another category is picked or the templates are refetched
+  useEffect(() => {
+    if (!templates) return;
+    setTemplate(
+      categoryId
+        ? (templates.categories.find((entry) => entry.categoryId === categoryId)?.template ?? '')
+        : templates.defaultTemplate
+    );
+  }, [templates, categoryId]);
+
+  const insertPlaceholder = (placeholder: string) => {
+    const token = `{${placeholder}}`;
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? template.length;
+    const end = textarea?.selectionEnd ?? template.length;
+    setTemplate(template.slice(0, start) + token + template.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!categoryId && !template.trim()) {
+      toast.error('The default template cannot be empty');
+      return;
+    }
+    try {
+      await setTemplateMutation.mutateAsync({ categoryId: categoryId || null, template: template.trim() });
+      toast.success(
+        categoryId && !template.trim() ? `${categoryId} now uses the inherited template` : 'Template saved'
+      );
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save template');
+    }
+  };
+
+  if (isLoading || !templates) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-sage" />
+      </div>
+    );
+  }
+
+  // An empty category template falls back to the parent's or the default
+  const effectiveTemplate =
+    template.trim() || (categoryId ? inheritedDescriptionTemplate(templates, categories, categoryId) : '');
+  const placeholders = [...DESCRIPTION_PLACEHOLDERS, ...attributeSchema.map((definition) => definition.name)];
+  const parsedSamplePrice = parseFloat(samplePrice);
+  const preview = renderDescriptionTemplate(effectiveTemplate, {
+    name: sampleName,
+    categoryId: categoryId || 'Ceramic Ocarina',
+    price: BigInt(Math.round((isNaN(parsedSamplePrice) ? 0 : parsedSamplePrice) * 100)),
+    currency: settings?.currency ?? Currency.usd,
+    schema: attributeSchema,
+    attributes: Object.fromEntries(
+      attributeSchema.map((definition) => [definition.name, sampleAttributeValue(definition)])
+    ),
+  });
+
+  return (
+    <Card className="border-sage/20">
+      <CardHeader>
+        <CardTitle className="font-serif text-terracotta">Description Templates</CardTitle>
+        <CardDescription>
+          New products get their description from their category's template unless one is written for them. Changing
+          a template does not change existing products.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="template-target">Template</Label>
+          <Select value={target} onValueChange={setTarget}>
+            <SelectTrigger id="template-target" className="border-sage/30 focus:ring-sage">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_VALUE}>Default (all categories)</SelectItem>
+              {categories
+                .filter((category) => !category.parent)
+                .flatMap((category) => [category.name, ...category.subcategories])
+                .map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {categories.find((category) => category.name === name)?.parent ? `↳ ${name}` : name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-text">Template text</Label>
+          <Textarea
+            ref={textareaRef}
+            id="template-text"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            placeholder={categoryId ? 'Leave empty to use the parent category or default template' : undefined}
+            rows={6}
+            disabled={setTemplateMutation.isPending}
+            className="border-sage/30 font-mono text-sm focus-visible:ring-sage"
+          />
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs text-muted-foreground">Insert:</span>
+            {placeholders.map((placeholder) => (
+              <Button
+                key={placeholder}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => insertPlaceholder(placeholder)}
+                disabled={setTemplateMutation.isPending}
+                className="h-7 border-sage/30 px-2 font-mono text-xs"
+              >
+                {`{${placeholder}}`}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3 rounded-lg border border-sage/20 bg-cream/20 p-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="sample-name" className="text-xs">
+                Sample product name
+              </Label>
+              <Input
+                id="sample-name"
+                value={sampleName}
+                onChange={(e) => setSampleName(e.target.value)}
+                className="h-8 border-sage/30 text-sm"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sample-price" className="text-xs">
+                Sample price
+              </Label>
+              <Input
+                id="sample-price"
+                type="number"
+                value={samplePrice}
+                onChange={(e) => setSamplePrice(e.target.value)}
+                className="h-8 border-sage/30 text-sm"
+                step="0.01"
+                min="0"
+              />
+            </div>
+          </div>
+          <div>
+            <p className="mb-1 text-xs font-medium text-muted-foreground">Preview</p>
+            <p className="whitespace-pre-line text-sm leading-relaxed text-foreground">{preview}</p>
+          </div>
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={setTemplateMutation.isPending}
+          className="bg-terracotta hover:bg-terracotta/90"
+        >
+          {setTemplateMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save Template
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,11 +1,26 @@
-import { Link, useNavigate } from '@tanstack/react-router';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearch } from '@tanstack/react-router';
 import { Button } from '@/components/ui/button';
-import { ShoppingBag, Settings } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ShoppingBag, Settings, Package, Search } from 'lucide-react';
 import { useCart } from '../hooks/useCart';
+import { ProductSort } from '../backend';
 
 export default function Header() {
   const navigate = useNavigate();
   const { itemCount } = useCart();
+  const { q } = useSearch({ strict: false });
+  const [searchText, setSearchText] = useState(q ?? '');
+
+  // Follow the query of the search page being viewed, e.g. after back/forward navigation
+  useEffect(() => {
+    setSearchText(q ?? '');
+  }, [q]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate({ to: '/search', search: { q: searchText.trim(), sort: ProductSort.relevance, page: 1 } });
+  };
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
@@ -16,7 +31,21 @@ export default function Header() {
             Artisan Market
           </span>
         </Link>
-        
+
+        <form onSubmit={handleSearch} className="mx-4 min-w-0 max-w-sm flex-1" role="search">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search products..."
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              className="border-sage/30 pl-9 focus-visible:ring-sage"
+              aria-label="Search products"
+            />
+          </div>
+        </form>
+
         <nav className="flex items-center gap-4">
           <Button
             variant="ghost"
@@ -25,6 +54,14 @@ export default function Header() {
           >
             Shop
           </Button>
+          <Button
+            variant="ghost"
+            onClick={() => navigate({ to: '/orders' })}
+            className="text-foreground/80 hover:text-foreground"
+          >
+            <Package className="mr-2 h-4 w-4" />
+            Orders
+          </Button>
           <Button
             variant="ghost"
             onClick={() => navigate({ to: '/admin' })}
@@ -40,8 +77,8 @@ export default function Header() {
           >
             <ShoppingBag className="h-5 w-5" />
             {itemCount > 0 && (
-              <span className="absolute -right-1 -top-1 flex h-5 w-5 items-center justify-center rounded-full bg-terracotta text-xs font-semibold text-white">
-                {itemCount}
+              <span className="absolute -right-1 -top-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-terracotta px-1 text-xs font-semibold text-white">
+                {itemCount > 99 ? '99+' : itemCount}
               </span>
             )}
           </Button>
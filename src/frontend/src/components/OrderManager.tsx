@@ -0,0 +1,548 @@
+import { useState } from 'react';
+import {
+  useAllOrders,
+  useUpdateOrderStatus,
+  useUpdateOrderFulfillment,
+  useRefundOrder,
+  type OrderListFilter,
+} from '../hooks/useQueries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, ClipboardList } from 'lucide-react';
+import { toast } from 'sonner';
+import { OrderStatus, type Order, type OrderItem, type RefundRequest } from '../backend';
+import {
+  cancelsWithRefund,
+  formatOrderDate,
+  isRefundableStatus,
+  lineRefundAmount,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUS_STYLES,
+  ORDER_STATUS_TRANSITIONS,
+  refundableQuantity,
+  refundedAmount,
+} from '../utils/orders';
+import { formatMoney } from '../utils/pricing';
+
+const ALL_STATUSES = 'all';
+
+function shortPrincipal(principal: string) {
+  return principal.length > 16 ? `${principal.slice(0, 8)}…${principal.slice(-5)}` : principal;
+}
+
+const lineKey = (item: OrderItem) => `${item.productId}/${item.variantSku ?? ''}`;
+
+/**
+ * A refund being entered: how many of each line to refund, keyed by lineKey, and an amount in the store
+ * currency, e.g. "12.50", blank to refund what the buyer paid for the lines.
+ */
+type RefundDraft = {
+  quantities: Record<string, string>;
+  amount: string;
+  restock: boolean;
+  reason: string;
+};
+
+/**
+ * Converts the draft into a refund for the backend, which checks the rest. Throws when a field cannot be read.
+ */
+function toRefundRequest(order: Order, draft: RefundDraft): RefundRequest {
+  const lines = order.items.flatMap((item) => {
+    const value = draft.quantities[lineKey(item)]?.trim();
+    if (!value) return [];
+    const quantity = parseInt(value, 10);
+    if (isNaN(quantity) || quantity < 0) {
+      throw new Error(`The quantity of ${item.productName} must be a whole number`);
+    }
+    if (BigInt(quantity) > refundableQuantity(order, item)) {
+      throw new Error(`Only ${refundableQuantity(order, item)} of ${item.productName} can still be refunded`);
+    }
+    return quantity === 0 ? [] : [{ productId: item.productId, variantSku: item.variantSku, quantity: BigInt(quantity) }];
+  });
+  let amount: bigint | undefined;
+  if (draft.amount.trim()) {
+    const parsed = parseFloat(draft.amount);
+    if (isNaN(parsed) || parsed <= 0) {
+      throw new Error('The refund must be an amount greater than 0');
+    }
+    amount = BigInt(Math.round(parsed * 100));
+  } else if (lines.length === 0) {
+    throw new Error('Choose the items to refund or enter an amount');
+  }
+  return { lines, amount, restock: draft.restock && lines.length > 0, reason: draft.reason.trim() };
+}
+
+function RefundSection({ order, onRefunded }: { order: Order; onRefunded: () => void }) {
+  const refundOrder = useRefundOrder();
+  const [draft, setDraft] = useState<RefundDraft>({ quantities: {}, amount: '', restock: false, reason: '' });
+  const [pendingRequest, setPendingRequest] = useState<RefundRequest | null>(null);
+
+  const remaining = order.total - refundedAmount(order);
+  const canRefund = isRefundableStatus(order) && remaining > 0n;
+  const refundAmount = (request: RefundRequest) => request.amount ?? lineRefundAmount(order, request.lines);
+
+  const updateDraft = (changes: Partial<RefundDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const handleReview = () => {
+    try {
+      setPendingRequest(toRefundRequest(order, draft));
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleRefund = async () => {
+    if (!pendingRequest) return;
+    try {
+      await refundOrder.mutateAsync({ orderId: order.id, request: pendingRequest });
+      toast.success(`Refunded ${formatMoney(refundAmount(pendingRequest), order.currency)}`);
+      setPendingRequest(null);
+      onRefunded();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to refund order');
+      setPendingRequest(null);
+    }
+  };
+
+  if (!canRefund && order.refunds.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <Label>Refunds</Label>
+      {order.refunds.map((refund) => (
+        <div key={refund.id} className="rounded-lg border border-sage/20 p-3 text-sm">
+          <div className="flex justify-between font-medium">
+            <span>{formatMoney(refund.amount, order.currency)}</span>
+            <span className="text-xs text-muted-foreground">{formatOrderDate(refund.refundedAt)}</span>
+          </div>
+          {refund.lines.length > 0 && (
+            <p className="text-muted-foreground">
+              {refund.lines
+                .map((line) => {
+                  const item = order.items.find(
+                    (candidate) => candidate.productId === line.productId && candidate.variantSku === line.variantSku
+                  );
+                  return `${item?.productName ?? line.productId} × ${line.quantity}`;
+                })
+                .join(', ')}
+              {refund.restocked && ' (restocked)'}
+            </p>
+          )}
+          {refund.reason && <p className="text-muted-foreground">{refund.reason}</p>}
+        </div>
+      ))}
+
+      {canRefund &&
+        (order.paymentIntentId ? (
+          <div className="space-y-3 rounded-lg border border-sage/20 p-4">
+            <p className="text-sm text-muted-foreground">
+              {formatMoney(remaining, order.currency)} can still be refunded. Choose the items to refund, enter an
+              amount, or both.
+            </p>
+            {order.items.map((item) => {
+              const refundable = refundableQuantity(order, item);
+              return (
+                <div key={lineKey(item)} className="flex items-center justify-between gap-4 text-sm">
+                  <span>
+                    {item.productName}
+                    <span className="text-muted-foreground"> ({refundable.toString()} refundable)</span>
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={Number(refundable)}
+                    placeholder="0"
+                    value={draft.quantities[lineKey(item)] ?? ''}
+                    onChange={(e) => updateDraft({ quantities: { ...draft.quantities, [lineKey(item)]: e.target.value } })}
+                    disabled={refundable === 0n || refundOrder.isPending}
+                    className="w-20"
+                  />
+                </div>
+              );
+            })}
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="refund-amount">Amount</Label>
+                <Input
+                  id="refund-amount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="What was paid for the items"
+                  value={draft.amount}
+                  onChange={(e) => updateDraft({ amount: e.target.value })}
+                  disabled={refundOrder.isPending}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="refund-reason">Reason (shown to the buyer)</Label>
+                <Input
+                  id="refund-reason"
+                  placeholder="e.g. Arrived cracked"
+                  value={draft.reason}
+                  onChange={(e) => updateDraft({ reason: e.target.value })}
+                  disabled={refundOrder.isPending}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="refund-restock"
+                checked={draft.restock}
+                onCheckedChange={(checked) => updateDraft({ restock: checked === true })}
+                disabled={refundOrder.isPending}
+              />
+              <Label htmlFor="refund-restock" className="font-normal">
+                Put the refunded items back into stock
+              </Label>
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleReview}
+              disabled={refundOrder.isPending}
+              className="w-full border-terracotta/40 text-terracotta"
+            >
+              {refundOrder.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Refund
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Refunds can be made here once Stripe has confirmed the payment for this order.
+          </p>
+        ))}
+
+      <AlertDialog open={!!pendingRequest} onOpenChange={(open) => !open && setPendingRequest(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Refund {pendingRequest && formatMoney(refundAmount(pendingRequest), order.currency)}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Stripe returns the money to the buyer's payment method. A refund cannot be undone.
+              {pendingRequest?.restock && ' The refunded items go back into stock.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRefund}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Refund
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function OrderDialog({ order, onClose }: { order: Order; onClose: () => void }) {
+  const updateStatus = useUpdateOrderStatus();
+  const updateFulfillment = useUpdateOrderFulfillment();
+
+  const [nextStatus, setNextStatus] = useState<OrderStatus | ''>('');
+  const [statusNote, setStatusNote] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState(order.trackingNumber ?? '');
+  const [notes, setNotes] = useState(order.notes);
+
+  const allowedStatuses = ORDER_STATUS_TRANSITIONS[order.status];
+  const isSaving = updateStatus.isPending || updateFulfillment.isPending;
+
+  const handleStatusChange = async () => {
+    if (!nextStatus) return;
+    try {
+      // Cancelling a paid order refunds it, so the order can end up in another status than the one chosen
+      const updated = await updateStatus.mutateAsync({ orderId: order.id, status: nextStatus, note: statusNote.trim() });
+      toast.success(`Order marked as ${ORDER_STATUS_LABELS[updated.status].toLowerCase()}`);
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update order status');
+    }
+  };
+
+  const handleFulfillmentSave = async () => {
+    try {
+      await updateFulfillment.mutateAsync({
+        orderId: order.id,
+        trackingNumber: trackingNumber.trim() || null,
+        notes: notes.trim(),
+      });
+      toast.success('Order details saved');
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save order details');
+    }
+  };
+
+  return (
+    <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-3 font-serif text-terracotta">
+          Order {order.id}
+          <Badge className={ORDER_STATUS_STYLES[order.status]}>{ORDER_STATUS_LABELS[order.status]}</Badge>
+        </DialogTitle>
+        <DialogDescription>
+          Placed {formatOrderDate(order.createdAt)} by {order.buyer.toString()}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-6">
+        <div className="space-y-2 rounded-lg border border-sage/20 p-4 text-sm">
+          {order.items.map((item) => (
+            <div key={`${item.productId}/${item.variantSku ?? ''}`} className="flex justify-between">
+              <span>
+                {item.productName} × {item.quantity.toString()}
+              </span>
+              <span>{formatMoney(item.unitPrice * item.quantity, order.currency)}</span>
+            </div>
+          ))}
+          {order.discountCode && (
+            <div className="flex justify-between">
+              <span>Discount: {order.discountCode}</span>
+              <span>-{formatMoney(order.discount, order.currency)}</span>
+            </div>
+          )}
+          {order.shippingMethod && (
+            <div className="flex justify-between">
+              <span>Shipping: {order.shippingMethod}</span>
+              <span>{formatMoney(order.shipping, order.currency)}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-t border-sage/20 pt-2 font-semibold">
+            <span>Total (incl. {formatMoney(order.tax, order.currency)} tax)</span>
+            <span className="text-terracotta">{formatMoney(order.total, order.currency)}</span>
+          </div>
+        </div>
+
+        <RefundSection order={order} onRefunded={onClose} />
+
+        <div className="space-y-3">
+          <Label>Change Status</Label>
+          {allowedStatuses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This order is closed and can no longer change status.</p>
+          ) : (
+            <>
+              <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as OrderStatus)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select the next status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allowedStatuses.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {ORDER_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {nextStatus === OrderStatus.cancelled && cancelsWithRefund(order) && (
+                <p className="text-sm text-muted-foreground">
+                  Cancelling refunds the {formatMoney(order.total - refundedAmount(order), order.currency)} not yet
+                  refunded through Stripe and puts the items back into stock. The order is then marked refunded.
+                </p>
+              )}
+              <Input
+                placeholder="Note for this change (optional)"
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+                disabled={isSaving}
+              />
+              <Button
+                onClick={handleStatusChange}
+                disabled={!nextStatus || isSaving}
+                className="w-full bg-terracotta hover:bg-terracotta/90"
+              >
+                {updateStatus.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Update Status
+              </Button>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="tracking-number">Tracking Number</Label>
+            <Input
+              id="tracking-number"
+              placeholder="e.g. 1Z999AA10123456784"
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="order-notes">Internal Notes</Label>
+            <Textarea
+              id="order-notes"
+              placeholder="Packing notes, customer requests..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={isSaving}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>History</Label>
+          <div className="space-y-2 text-sm">
+            {[...order.history].reverse().map((event, index) => (
+              <div key={index} className="flex items-start justify-between gap-4 border-b border-sage/10 pb-2 last:border-0">
+                <div>
+                  <Badge className={ORDER_STATUS_STYLES[event.status]}>{ORDER_STATUS_LABELS[event.status]}</Badge>
+                  {event.note && <p className="mt-1 text-muted-foreground">{event.note}</p>}
+                </div>
+                <div className="text-right text-xs text-muted-foreground">
+                  <div>{formatOrderDate(event.changedAt)}</div>
+                  <div className="font-mono">{shortPrincipal(event.changedBy.toString())}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={isSaving} className="border-sage/30">
+          Close
+        </Button>
+        <Button onClick={handleFulfillmentSave} disabled={isSaving} className="bg-terracotta hover:bg-terracotta/90">
+          {updateFulfillment.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+          Save Details
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+}
+
+export default function OrderManager() {
+  const [filter, setFilter] = useState<OrderListFilter>({});
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const { data: orders = [], isLoading } = useAllOrders(filter);
+
+  return (
+    <Card className="border-sage/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-serif text-terracotta">
+          <ClipboardList className="h-5 w-5" />
+          Orders
+        </CardTitle>
+        <CardDescription>Track orders and move them through packing, shipping and delivery.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select
+              value={filter.status ?? ALL_STATUSES}
+              onValueChange={(value) =>
+                setFilter((prev) => ({ ...prev, status: value === ALL_STATUSES ? undefined : (value as OrderStatus) }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                {Object.values(OrderStatus).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {ORDER_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="orders-from">From</Label>
+            <Input
+              id="orders-from"
+              type="date"
+              value={filter.from ?? ''}
+              onChange={(e) => setFilter((prev) => ({ ...prev, from: e.target.value || undefined }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="orders-to">To</Label>
+            <Input
+              id="orders-to"
+              type="date"
+              value={filter.to ?? ''}
+              onChange={(e) => setFilter((prev) => ({ ...prev, to: e.target.value || undefined }))}
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-sage" />
+          </div>
+        ) : orders.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No orders match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Placed</TableHead>
+                <TableHead>Buyer</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => (
+                <TableRow key={order.id}>
+                  <TableCell className="font-medium">{order.id}</TableCell>
+                  <TableCell>{formatOrderDate(order.createdAt)}</TableCell>
+                  <TableCell className="font-mono text-xs">{shortPrincipal(order.buyer.toString())}</TableCell>
+                  <TableCell>{formatMoney(order.total, order.currency)}</TableCell>
+                  <TableCell>
+                    <Badge className={ORDER_STATUS_STYLES[order.status]}>{ORDER_STATUS_LABELS[order.status]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" onClick={() => setSelectedOrder(order)} className="border-sage/30">
+                      Manage
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedOrder} onOpenChange={(open) => !open && setSelectedOrder(null)}>
+        {selectedOrder && (
+          <OrderDialog key={selectedOrder.id} order={selectedOrder} onClose={() => setSelectedOrder(null)} />
+        )}
+      </Dialog>
+    </Card>
+  );
+}
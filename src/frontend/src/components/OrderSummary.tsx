@@ -0,0 +1,78 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { formatOrderDate, refundedAmount } from '../utils/orders';
+import { formatMoney } from '../utils/pricing';
+import type { Order } from '../backend';
+
+interface OrderSummaryProps {
+  order: Order;
+}
+
+export default function OrderSummary({ order }: OrderSummaryProps) {
+  return (
+    <Card className="border-sage/20">
+      <CardContent className="p-6">
+        {order.items.map((item) => (
+          <div
+            key={`${item.productId}/${item.variantSku ?? ''}`}
+            className="flex items-center justify-between border-b border-sage/20 py-4 first:pt-0 last:border-0"
+          >
+            <div>
+              <h3 className="font-serif text-lg font-semibold text-foreground">{item.productName}</h3>
+              <p className="text-sm text-muted-foreground">
+                Qty: {item.quantity.toString()} × {formatMoney(item.unitPrice, order.currency)}
+              </p>
+            </div>
+            <span className="font-semibold text-foreground">
+              {formatMoney(item.unitPrice * item.quantity, order.currency)}
+            </span>
+          </div>
+        ))}
+
+        <div className="mt-4 space-y-2 border-t border-sage/20 pt-4 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Subtotal</span>
+            <span>{formatMoney(order.subtotal, order.currency)}</span>
+          </div>
+          {order.discountCode && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Discount ({order.discountCode})</span>
+              <span>-{formatMoney(order.discount, order.currency)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Tax</span>
+            <span>{formatMoney(order.tax, order.currency)}</span>
+          </div>
+          {order.shippingMethod && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Shipping ({order.shippingMethod})</span>
+              <span>{order.shipping > 0n ? formatMoney(order.shipping, order.currency) : 'Free'}</span>
+            </div>
+          )}
+          <div className="flex justify-between text-base font-semibold">
+            <span>Total</span>
+            <span className="text-terracotta">{formatMoney(order.total, order.currency)}</span>
+          </div>
+        </div>
+
+        {order.refunds.length > 0 && (
+          <div className="mt-4 space-y-2 border-t border-sage/20 pt-4 text-sm">
+            {order.refunds.map((refund) => (
+              <div key={refund.id} className="flex justify-between gap-4">
+                <span className="text-muted-foreground">
+                  Refunded {formatOrderDate(refund.refundedAt)}
+                  {refund.reason && ` · ${refund.reason}`}
+                </span>
+                <span>-{formatMoney(refund.amount, order.currency)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-semibold">
+              <span>Paid after refunds</span>
+              <span>{formatMoney(order.total - refundedAmount(order), order.currency)}</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
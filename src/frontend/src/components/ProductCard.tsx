@@ -1,40 +1,51 @@
-import { useState, useRef } from 'react';
+import { useState } from 'react';
+import { Link, useNavigate } from '@tanstack/react-router';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Progress } from '@/components/ui/progress';
-import { Loader2, ShoppingCart, Edit, Upload, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, ShoppingCart, Edit } from 'lucide-react';
 import { toast } from 'sonner';
+import { LOW_STOCK_THRESHOLD, emptyVariantSelection, findVariant } from '../utils/products';
+import { formatMoney, salePrice, storePricing } from '../utils/pricing';
 import { useCreateCheckoutSession } from '../hooks/useCheckout';
 import { useCart } from '../hooks/useCart';
-import { useStripeConfigured, useUpdateProductImage } from '../hooks/useQueries';
+import { useStripeConfigured } from '../hooks/useQueries';
+import { useSettingsQuery } from '../hooks/useSettings';
+import { useShippingZones } from '../hooks/useShipping';
 import { useInternetIdentity } from '../hooks/useInternetIdentity';
 import { useActor } from '../hooks/useActor';
-import type { Product, ShoppingItem } from '../backend';
+import ProductEditDialog from './ProductEditDialog';
+import VariantPicker from './VariantPicker';
+import type { Product } from '../backend';
 
 interface ProductCardProps {
   product: Product;
 }
 
 export default function ProductCard({ product }: ProductCardProps) {
+  const navigate = useNavigate();
   const createCheckoutSession = useCreateCheckoutSession();
-  const { addToBasket, isAddingToBasket } = useCart();
+  const { basketItems, addToBasket, isAddingToBasket } = useCart();
   const { data: isStripeConfigured } = useStripeConfigured();
+  const { data: settings } = useSettingsQuery();
+  const { data: shippingZones = [] } = useShippingZones();
   const { identity } = useInternetIdentity();
   const { actor } = useActor();
-  const updateImageMutation = useUpdateProductImage();
   
   const [isBuyingNow, setIsBuyingNow] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
   const [isAdmin, setIsAdmin] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const priceInDollars = Number(product.price) / 100;
+  const [selection, setSelection] = useState(() => emptyVariantSelection(product));
+
+  const hasVariants = product.variants.length > 0;
+  const selectedVariant = findVariant(product, selection);
+  // Until a variant is chosen, the product shows its lowest price and total stock
+  const regularPrice = selectedVariant?.price ?? product.price;
+  const price = salePrice(product, regularPrice);
+  const stock = Number(selectedVariant?.stock ?? product.stock);
+  const isSoldOut = stock === 0;
+  const isUnavailable = isSoldOut || product.archived;
+  const needsVariant = hasVariants && !selectedVariant;
 
   // Check if user is admin
   useState(() => {
@@ -67,15 +78,21 @@ export default function ProductCard({ product }: ProductCardProps) {
 
     setIsBuyingNow(true);
     try {
-      const shoppingItem: ShoppingItem = {
-        productName: product.name,
-        productDescription: product.description,
-        priceInCents: product.price,
-        quantity: BigInt(1),
-        currency: 'usd',
-      };
-
-      const session = await createCheckoutSession.mutateAsync([shoppingItem]);
+      // Checkout always covers the whole basket, so a shopper with other items in it reviews them in the cart first
+      const basketHadItems = basketItems.length > 0;
+      // Prices are resolved by the backend, so buying now goes through the basket
+      await addToBasket({ productId: product.id, variantSku: selectedVariant?.sku, quantity: BigInt(1) });
+      if (basketHadItems) {
+        toast.success('Added to cart. Checkout includes everything in your cart, so review it before paying.');
+        navigate({ to: '/cart' });
+        return;
+      }
+      // Visitors sign in, and everyone picks a shipping method, from the cart before they can pay
+      if (!identity || shippingZones.length > 0) {
+        navigate({ to: '/cart' });
+        return;
+      }
+      const session = await createCheckoutSession.mutateAsync({});
       if (!session?.url) {
         throw new Error('Stripe session missing url');
       }
@@ -88,71 +105,15 @@ export default function ProductCard({ product }: ProductCardProps) {
 
   const handleAddToCart = async () => {
     try {
-      await addToBasket({ productId: product.id, quantity: BigInt(1) });
+      await addToBasket({ productId: product.id, variantSku: selectedVariant?.sku, quantity: BigInt(1) });
       toast.success('Added to cart');
     } catch (error: any) {
       toast.error(error.message || 'Failed to add to cart');
     }
   };
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    if (!file.type.startsWith('image/')) {
-      toast.error('Please select an image file');
-      return;
-    }
-
-    // Check file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      toast.error('Image size must be less than 5MB');
-      return;
-    }
-
-    setSelectedImage(file);
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setImagePreview(reader.result as string);
-    };
-    reader.readAsDataURL(file);
-  };
-
-  const clearImage = () => {
-    setSelectedImage(null);
-    setImagePreview(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
-  };
-
-  const handleUpdateImage = async () => {
-    if (!selectedImage) {
-      toast.error('Please select an image');
-      return;
-    }
-
-    try {
-      setUploadProgress(0);
-      await updateImageMutation.mutateAsync({
-        productId: product.id,
-        newImage: selectedImage,
-        onProgress: (percentage) => setUploadProgress(percentage),
-      });
-      
-      toast.success('Product image updated successfully');
-      setIsEditDialogOpen(false);
-      clearImage();
-      setUploadProgress(0);
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to update product image');
-    }
-  };
-
   const handleEditClick = () => {
     setIsEditDialogOpen(true);
-    clearImage();
-    setUploadProgress(0);
   };
 
   return (
@@ -168,26 +129,54 @@ export default function ProductCard({ product }: ProductCardProps) {
             <Edit className="h-4 w-4 text-terracotta" />
           </Button>
         )}
-        <div className="aspect-square overflow-hidden bg-cream/30">
-          <img
-            src={product.image.getDirectURL()}
-            alt={product.name}
-            className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
-          />
+        <div className="relative aspect-square overflow-hidden bg-cream/30">
+          {product.archived ? (
+            <Badge className="absolute left-2 top-2 z-10 border-transparent bg-muted text-muted-foreground">Archived</Badge>
+          ) : isSoldOut ? (
+            <Badge className="absolute left-2 top-2 z-10 border-transparent bg-foreground/80 text-white">Sold out</Badge>
+          ) : (
+            stock <= LOW_STOCK_THRESHOLD && (
+              <Badge className="absolute left-2 top-2 z-10 border-transparent bg-terracotta text-white">
+                Only {stock} left
+              </Badge>
+            )
+          )}
+          <Link to="/product/$slug" params={{ slug: product.slug }}>
+            <img
+              src={product.images[0].getDirectURL()}
+              alt={product.name}
+              className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
+            />
+          </Link>
         </div>
         <CardContent className="p-4">
           <div className="mb-2 flex items-start justify-between gap-2">
-            <h3 className="font-serif text-lg font-medium text-foreground line-clamp-1">{product.name}</h3>
-            <p className="whitespace-nowrap font-semibold text-terracotta">${priceInDollars.toFixed(2)}</p>
+            <Link to="/product/$slug" params={{ slug: product.slug }} className="min-w-0 hover:underline">
+              <h3 className="font-serif text-lg font-medium text-foreground line-clamp-1">{product.name}</h3>
+            </Link>
+            <p className="whitespace-nowrap font-semibold text-terracotta">
+              {needsVariant && 'From '}
+              {price < regularPrice && (
+                <span className="mr-1 text-sm font-normal text-muted-foreground line-through">
+                  {formatMoney(regularPrice, storePricing(settings).currency)}
+                </span>
+              )}
+              {formatMoney(price, storePricing(settings).currency)}
+            </p>
           </div>
           <p className="mb-2 text-sm text-muted-foreground">{formatCategory(product.categoryId)}</p>
           {product.description && (
             <p className="mb-4 text-xs text-muted-foreground line-clamp-2">{product.description}</p>
           )}
+          {hasVariants && !product.archived && (
+            <div className="mb-4">
+              <VariantPicker product={product} selection={selection} onSelectionChange={setSelection} compact />
+            </div>
+          )}
           <div className="flex gap-2">
             <Button
               onClick={handleBuyNow}
-              disabled={isBuyingNow || !isStripeConfigured}
+              disabled={isBuyingNow || !isStripeConfigured || isUnavailable || needsVariant}
               className="flex-1 bg-terracotta hover:bg-terracotta/90"
               size="sm"
             >
@@ -196,13 +185,17 @@ export default function ProductCard({ product }: ProductCardProps) {
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Processing...
                 </>
+              ) : isSoldOut ? (
+                'Sold Out'
+              ) : needsVariant ? (
+                'Choose Options'
               ) : (
                 'Buy Now'
               )}
             </Button>
             <Button
               onClick={handleAddToCart}
-              disabled={isAddingToBasket || !isStripeConfigured}
+              disabled={isAddingToBasket || !isStripeConfigured || isUnavailable || needsVariant}
               variant="outline"
               size="sm"
               className="border-sage/30 hover:bg-sage/10"
@@ -217,108 +210,7 @@ export default function ProductCard({ product }: ProductCardProps) {
         </CardContent>
       </Card>
 
-      <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle className="font-serif text-terracotta">Update Product Image</DialogTitle>
-            <DialogDescription>
-              Replace the image for {product.name}
-            </DialogDescription>
-          </DialogHeader>
-          
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label>Current Image</Label>
-              <div className="aspect-square w-full overflow-hidden rounded-lg border border-sage/20 bg-cream/30">
-                <img
-                  src={product.image.getDirectURL()}
-                  alt={product.name}
-                  className="h-full w-full object-cover"
-                />
-              </div>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="new-image">New Image</Label>
-              <Input
-                ref={fileInputRef}
-                id="new-image"
-                type="file"
-                accept="image/*"
-                onChange={handleImageSelect}
-                disabled={updateImageMutation.isPending}
-                className="border-sage/30 focus-visible:ring-sage"
-              />
-              <p className="text-xs text-muted-foreground">
-                Maximum file size: 5MB. Supported formats: JPG, PNG, GIF, WebP
-              </p>
-            </div>
-
-            {imagePreview && (
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <Label>Preview</Label>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={clearImage}
-                    disabled={updateImageMutation.isPending}
-                    className="h-6 px-2 text-xs"
-                  >
-                    <X className="mr-1 h-3 w-3" />
-                    Clear
-                  </Button>
-                </div>
-                <div className="aspect-square w-full overflow-hidden rounded-lg border border-sage/20 bg-cream/30">
-                  <img
-                    src={imagePreview}
-                    alt="Preview"
-                    className="h-full w-full object-cover"
-                  />
-                </div>
-              </div>
-            )}
-
-            {updateImageMutation.isPending && (
-              <div className="space-y-2">
-                <div className="flex items-center justify-between text-sm">
-                  <span className="text-muted-foreground">Uploading...</span>
-                  <span className="font-medium text-sage">{Math.round(uploadProgress)}%</span>
-                </div>
-                <Progress value={uploadProgress} className="h-2" />
-              </div>
-            )}
-          </div>
-
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => setIsEditDialogOpen(false)}
-              disabled={updateImageMutation.isPending}
-              className="border-sage/30"
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={handleUpdateImage}
-              disabled={!selectedImage || updateImageMutation.isPending}
-              className="bg-terracotta hover:bg-terracotta/90"
-            >
-              {updateImageMutation.isPending ? (
-                <>
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Updating...
-                </>
-              ) : (
-                <>
-                  <Upload className="mr-2 h-4 w-4" />
-                  Update Image
-                </>
-              )}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <ProductEditDialog product={product} open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen} />
     </>
   );
 }
@@ -0,0 +1,589 @@
+import { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import {
+  Loader2,
+  Save,
+  Trash2,
+  Archive,
+  ArchiveRestore,
+  ChevronLeft,
+  ChevronRight,
+  Star,
+  ImagePlus,
+  X,
+  FileText,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useUpdateProduct,
+  useAddProductImages,
+  useRemoveProductImage,
+  useReorderProductImages,
+  useUpdateProductStock,
+  useArchiveProduct,
+  useDeleteProduct,
+  useSetProductVariants,
+  useSetProductSale,
+} from '../hooks/useQueries';
+import { useSettingsQuery } from '../hooks/useSettings';
+import { useAttributeSchema } from '../hooks/useCategoryAttributes';
+import { useGeneratedDescription } from '../hooks/useDescriptionTemplates';
+import CategorySelector from './CategorySelector';
+import AttributeFields from './AttributeFields';
+import SaleFields from './SaleFields';
+import ProductVariantsEditor, {
+  buildVariants,
+  toOptionDrafts,
+  toVariantDrafts,
+  variantsChanged,
+  type OptionDraft,
+  type VariantDraft,
+} from './ProductVariantsEditor';
+import {
+  missingRequiredAttributes,
+  toAttributeValues,
+  toProductAttributes,
+  type AttributeValues,
+} from '../utils/attributes';
+import { sameSale, toSale, toSaleDraft, type SaleDraft } from '../utils/sales';
+import { storePricing } from '../utils/pricing';
+import { DiscountKind, type Product, type ProductAttribute, type ProductUpdate, type Sale } from '../backend';
+
+interface ProductEditDialogProps {
+  product: Product;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ProductEditDialog({ product, open, onOpenChange }: ProductEditDialogProps) {
+  const updateProductMutation = useUpdateProduct();
+  const addImagesMutation = useAddProductImages();
+  const removeImageMutation = useRemoveProductImage();
+  const reorderImagesMutation = useReorderProductImages();
+  const updateStockMutation = useUpdateProductStock();
+  const archiveProductMutation = useArchiveProduct();
+  const deleteProductMutation = useDeleteProduct();
+  const setVariantsMutation = useSetProductVariants();
+  const setSaleMutation = useSetProductSale();
+  const { data: settings } = useSettingsQuery();
+
+  const [name, setName] = useState(product.name);
+  const [description, setDescription] = useState(product.description);
+  const [price, setPrice] = useState((Number(product.price) / 100).toFixed(2));
+  const [categoryId, setCategoryId] = useState(product.categoryId);
+  const [stock, setStock] = useState(product.stock.toString());
+  // In grams
+  const [weight, setWeight] = useState(product.weight.toString());
+  const [saleDraft, setSaleDraft] = useState<SaleDraft>(() => toSaleDraft(product.sale));
+  const [optionDrafts, setOptionDrafts] = useState<OptionDraft[]>(() => toOptionDrafts(product));
+  const [variantDrafts, setVariantDrafts] = useState<VariantDraft[]>(() => toVariantDrafts(product));
+  const [attributeValues, setAttributeValues] = useState<AttributeValues>(() => toAttributeValues(product.attributes));
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: attributeSchema = [], isSuccess: isSchemaLoaded } = useAttributeSchema(categoryId);
+  const parsedPriceForTemplate = parseFloat(price);
+  const generatedDescription = useGeneratedDescription({
+    name: name.trim(),
+    categoryId,
+    price: isNaN(parsedPriceForTemplate) ? product.price : BigInt(Math.round(parsedPriceForTemplate * 100)),
+    schema: attributeSchema,
+    attributes: attributeValues,
+  });
+
+  // Start every edit session from the product as currently stored. Image changes are saved
+  // immediately and refetch the product, which must not wipe out unsaved field edits.
+  useEffect(() => {
+    if (open) {
+      setName(product.name);
+      setDescription(product.description);
+      setPrice((Number(product.price) / 100).toFixed(2));
+      setCategoryId(product.categoryId);
+      setStock(product.stock.toString());
+      setWeight(product.weight.toString());
+      setSaleDraft(toSaleDraft(product.sale));
+      setOptionDrafts(toOptionDrafts(product));
+      setVariantDrafts(toVariantDrafts(product));
+      setAttributeValues(toAttributeValues(product.attributes));
+      setUploadProgress(0);
+    }
+  }, [open, product.id]);
+
+  // Price and stock come from the variants once there are any
+  const hasVariants = variantDrafts.length > 0;
+  const isSaving =
+    updateProductMutation.isPending ||
+    updateStockMutation.isPending ||
+    setVariantsMutation.isPending ||
+    setSaleMutation.isPending;
+  const isUpdatingImages =
+    addImagesMutation.isPending || removeImageMutation.isPending || reorderImagesMutation.isPending;
+  const isBusy = isSaving || isUpdatingImages || archiveProductMutation.isPending || deleteProductMutation.isPending;
+
+  const handleImagesSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (files.length === 0) return;
+
+    if (files.some((file) => !file.type.startsWith('image/'))) {
+      toast.error('Please select only image files');
+      return;
+    }
+
+    // Check file size (max 5MB)
+    if (files.some((file) => file.size > 5 * 1024 * 1024)) {
+      toast.error('Each image must be less than 5MB');
+      return;
+    }
+
+    try {
+      setUploadProgress(0);
+      await addImagesMutation.mutateAsync({
+        productId: product.id,
+        images: files,
+        onProgress: (percentage) => setUploadProgress(percentage),
+      });
+      toast.success(files.length === 1 ? 'Image added' : `${files.length} images added`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add images');
+    }
+  };
+
+  // Moves the image at `from` to position `to`, shifting the others along
+  const moveImage = async (from: number, to: number) => {
+    const order = product.images.map((_, index) => index);
+    order.splice(to, 0, ...order.splice(from, 1));
+    try {
+      await reorderImagesMutation.mutateAsync({ productId: product.id, order });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to reorder images');
+    }
+  };
+
+  const removeImage = async (index: number) => {
+    try {
+      await removeImageMutation.mutateAsync({ productId: product.id, index });
+      toast.success('Image removed');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to remove image');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Please enter a product name');
+      return;
+    }
+
+    const parsedPrice = parseFloat(price);
+    if (!hasVariants && (isNaN(parsedPrice) || parsedPrice <= 0)) {
+      toast.error('Please enter a valid price');
+      return;
+    }
+
+    const parsedStock = parseInt(stock, 10);
+    if (!hasVariants && (isNaN(parsedStock) || parsedStock < 0)) {
+      toast.error('Please enter a valid stock quantity');
+      return;
+    }
+
+    const parsedWeight = parseInt(weight || '0', 10);
+    if (isNaN(parsedWeight) || parsedWeight < 0) {
+      toast.error('Please enter a valid weight');
+      return;
+    }
+
+    const missingAttributes = missingRequiredAttributes(attributeSchema, attributeValues);
+    if (missingAttributes.length > 0) {
+      toast.error(`Please fill in ${missingAttributes.join(', ')}`);
+      return;
+    }
+
+    let variants: ReturnType<typeof buildVariants>;
+    let sale: Sale | null;
+    try {
+      variants = buildVariants(optionDrafts, variantDrafts);
+      sale = toSale(saleDraft);
+    } catch (error: any) {
+      toast.error(error.message);
+      return;
+    }
+
+    // Only send the fields that actually changed
+    const priceInCents = hasVariants ? product.price : BigInt(Math.round(parsedPrice * 100));
+    const update: ProductUpdate = {
+      name: name.trim() !== product.name ? name.trim() : undefined,
+      description: description !== product.description ? description : undefined,
+      price: priceInCents !== product.price ? priceInCents : undefined,
+      categoryId: categoryId && categoryId !== product.categoryId ? categoryId : undefined,
+      weight: BigInt(parsedWeight) !== product.weight ? BigInt(parsedWeight) : undefined,
+    };
+    // Until the schema has loaded there is nothing to compare the values against
+    if (isSchemaLoaded) {
+      const attributes = toProductAttributes(attributeSchema, attributeValues);
+      const describe = (list: ProductAttribute[]) => list.map(({ name, value }) => `${name}=${value}`).join('\n');
+      if (describe(attributes) !== describe(product.attributes)) {
+        update.attributes = attributes;
+      }
+    }
+
+    const saleChanged = !sameSale(sale, product.sale);
+    // A fixed-amount sale must stay below the price, so one being changed is ended before prices change
+    const endSaleFirst = saleChanged && product.sale?.kind === DiscountKind.fixed;
+    try {
+      if (endSaleFirst) {
+        await setSaleMutation.mutateAsync({ productId: product.id, sale: null });
+      }
+      // Variants go first, so removing them all frees the price and stock for the updates below
+      if (variantsChanged(product, variants)) {
+        await setVariantsMutation.mutateAsync({ productId: product.id, ...variants });
+      }
+      if (Object.values(update).some((value) => value !== undefined)) {
+        await updateProductMutation.mutateAsync({ productId: product.id, update });
+      }
+      if (!hasVariants && BigInt(parsedStock) !== product.stock) {
+        await updateStockMutation.mutateAsync({ productId: product.id, stock: BigInt(parsedStock) });
+      }
+      // Last, so a fixed-amount sale is checked against the new prices
+      if (saleChanged && (sale || !endSaleFirst)) {
+        await setSaleMutation.mutateAsync({ productId: product.id, sale });
+      }
+
+      toast.success('Product updated successfully');
+      onOpenChange(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update product');
+    }
+  };
+
+  const handleArchiveToggle = async () => {
+    try {
+      await archiveProductMutation.mutateAsync({ productId: product.id, archived: !product.archived });
+      toast.success(product.archived ? 'Product restored to the shop' : 'Product archived');
+      onOpenChange(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update product');
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteProductMutation.mutateAsync(product.id);
+      toast.success('Product deleted');
+      setShowDeleteConfirm(false);
+      onOpenChange(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete product');
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-serif text-terracotta">Edit Product</DialogTitle>
+            <DialogDescription>Update the details, stock, variants and images for {product.name}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-name">Product Name</Label>
+              <Input
+                id="edit-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={isBusy}
+                className="border-sage/30 focus-visible:ring-sage"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="edit-description">Description</Label>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => generatedDescription && setDescription(generatedDescription)}
+                  disabled={isBusy || !generatedDescription}
+                  className="h-7 px-2 text-xs"
+                >
+                  <FileText className="mr-1 h-3 w-3" />
+                  Use Template
+                </Button>
+              </div>
+              <Textarea
+                id="edit-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={isBusy}
+                rows={5}
+                className="border-sage/30 focus-visible:ring-sage"
+              />
+            </div>
+
+            {!hasVariants && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-price">Price ($)</Label>
+                  <Input
+                    id="edit-price"
+                    type="number"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    disabled={isBusy}
+                    className="border-sage/30 focus-visible:ring-sage"
+                    step="0.01"
+                    min="0"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-stock">Stock</Label>
+                  <Input
+                    id="edit-stock"
+                    type="number"
+                    value={stock}
+                    onChange={(e) => setStock(e.target.value)}
+                    disabled={isBusy}
+                    className="border-sage/30 focus-visible:ring-sage"
+                    step="1"
+                    min="0"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-weight">Shipping weight (g)</Label>
+              <Input
+                id="edit-weight"
+                type="number"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                disabled={isBusy}
+                className="border-sage/30 focus-visible:ring-sage sm:w-1/2"
+                step="1"
+                min="0"
+              />
+              <p className="text-xs text-muted-foreground">Used by weight-based shipping rates</p>
+            </div>
+
+            <div className="space-y-3 rounded-lg border border-sage/20 p-4">
+              <SaleFields
+                draft={saleDraft}
+                onChange={setSaleDraft}
+                currency={storePricing(settings).currency}
+                disabled={isBusy}
+                idPrefix="edit-sale"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <CategorySelector value={categoryId} onValueChange={setCategoryId} />
+            </div>
+
+            {attributeSchema.length > 0 && (
+              <div className="space-y-3 rounded-lg border border-sage/20 p-4">
+                <Label>Attributes</Label>
+                <AttributeFields
+                  schema={attributeSchema}
+                  values={attributeValues}
+                  onChange={setAttributeValues}
+                  disabled={isBusy}
+                  idPrefix="edit-attribute"
+                />
+              </div>
+            )}
+
+            <ProductVariantsEditor
+              options={optionDrafts}
+              variants={variantDrafts}
+              onOptionsChange={setOptionDrafts}
+              onVariantsChange={setVariantDrafts}
+              skuPrefix={product.slug}
+              defaultPrice={price}
+              disabled={isBusy}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="edit-images">Images</Label>
+              <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
+                {product.images.map((image, index) => (
+                  <div
+                    key={`${index}-${image.getDirectURL()}`}
+                    className="group relative aspect-square overflow-hidden rounded-lg border border-sage/20 bg-cream/30"
+                  >
+                    <img src={image.getDirectURL()} alt={`${product.name} ${index + 1}`} className="h-full w-full object-cover" />
+                    {index === 0 && (
+                      <span className="absolute left-1 top-1 rounded bg-terracotta px-1.5 py-0.5 text-[10px] font-medium text-white">
+                        Primary
+                      </span>
+                    )}
+                    <div className="absolute inset-x-0 bottom-0 flex justify-center gap-0.5 bg-black/50 p-0.5 opacity-0 transition-opacity group-hover:opacity-100">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveImage(index, index - 1)}
+                        disabled={isBusy || index === 0}
+                        className="h-6 w-6 text-white hover:bg-white/20 hover:text-white"
+                        aria-label="Move image left"
+                      >
+                        <ChevronLeft className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveImage(index, 0)}
+                        disabled={isBusy || index === 0}
+                        className="h-6 w-6 text-white hover:bg-white/20 hover:text-white"
+                        aria-label="Make primary image"
+                      >
+                        <Star className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => moveImage(index, index + 1)}
+                        disabled={isBusy || index === product.images.length - 1}
+                        className="h-6 w-6 text-white hover:bg-white/20 hover:text-white"
+                        aria-label="Move image right"
+                      >
+                        <ChevronRight className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeImage(index)}
+                        disabled={isBusy || product.images.length === 1}
+                        className="h-6 w-6 text-white hover:bg-white/20 hover:text-white"
+                        aria-label="Remove image"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <label
+                  htmlFor="edit-images"
+                  className="flex aspect-square cursor-pointer flex-col items-center justify-center gap-1 rounded-lg border border-dashed border-sage/40 text-xs text-muted-foreground transition-colors hover:bg-cream/30"
+                >
+                  {isUpdatingImages ? <Loader2 className="h-5 w-5 animate-spin" /> : <ImagePlus className="h-5 w-5" />}
+                  Add images
+                </label>
+              </div>
+              <Input
+                ref={fileInputRef}
+                id="edit-images"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={handleImagesSelect}
+                disabled={isBusy}
+                className="sr-only"
+              />
+              <p className="text-xs text-muted-foreground">
+                Image changes are saved immediately. The first image is shown in listings. Maximum file size: 5MB.
+              </p>
+            </div>
+
+            {addImagesMutation.isPending && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Uploading...</span>
+                  <span className="font-medium text-sage">{Math.round(uploadProgress)}%</span>
+                </div>
+                <Progress value={uploadProgress} className="h-2" />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter className="flex-col gap-2 sm:flex-row sm:justify-between">
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleArchiveToggle}
+                disabled={isBusy}
+                className="border-sage/30"
+              >
+                {product.archived ? (
+                  <>
+                    <ArchiveRestore className="mr-2 h-4 w-4" />
+                    Restore
+                  </>
+                ) : (
+                  <>
+                    <Archive className="mr-2 h-4 w-4" />
+                    Archive
+                  </>
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => setShowDeleteConfirm(true)}
+                disabled={isBusy}
+                className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete
+              </Button>
+            </div>
+            <Button onClick={handleSave} disabled={isBusy} className="bg-terracotta hover:bg-terracotta/90">
+              {isSaving ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {product.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the product and takes it out of every customer's cart. Past orders keep
+              their record of it. Archive the product instead if you may want to sell it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleteProductMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={deleteProductMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteProductMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Delete Product
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from '@/components/ui/carousel';
+import { cn } from '@/lib/utils';
+import type { ExternalBlob } from '../backend';
+
+interface ProductGalleryProps {
+  images: ExternalBlob[];
+  name: string;
+}
+
+export default function ProductGallery({ images, name }: ProductGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  // Keep the highlighted thumbnail in sync with swipes and arrow navigation
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setSelectedIndex(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  const hasMultiple = images.length > 1;
+
+  return (
+    <div className="space-y-4">
+      <Carousel setApi={setApi} opts={{ loop: hasMultiple }} className="group">
+        <CarouselContent>
+          {images.map((image, index) => (
+            <CarouselItem key={index}>
+              <div className="aspect-square overflow-hidden rounded-lg border border-sage/20 bg-cream/30">
+                <img
+                  src={image.getDirectURL()}
+                  alt={hasMultiple ? `${name} (${index + 1} of ${images.length})` : name}
+                  className="h-full w-full object-cover"
+                />
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {hasMultiple && (
+          <>
+            <CarouselPrevious className="left-3 bg-white/80 hover:bg-white" />
+            <CarouselNext className="right-3 bg-white/80 hover:bg-white" />
+          </>
+        )}
+      </Carousel>
+
+      {hasMultiple && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {images.map((image, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              className={cn(
+                'h-16 w-16 shrink-0 overflow-hidden rounded-md border-2 transition-opacity',
+                index === selectedIndex ? 'border-terracotta' : 'border-transparent opacity-70 hover:opacity-100'
+              )}
+              aria-label={`Show image ${index + 1}`}
+              aria-current={index === selectedIndex}
+            >
+              <img src={image.getDirectURL()} alt="" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
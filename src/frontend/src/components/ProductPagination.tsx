@@ -0,0 +1,80 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+
+interface ProductPaginationProps {
+  // Zero-based
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+// Always shows the first and last page plus the pages around the current one
+function visiblePages(page: number, pageCount: number): (number | 'ellipsis')[] {
+  const pages: (number | 'ellipsis')[] = [];
+  for (let i = 0; i < pageCount; i++) {
+    if (i === 0 || i === pageCount - 1 || Math.abs(i - page) <= 1) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== 'ellipsis') {
+      pages.push('ellipsis');
+    }
+  }
+  return pages;
+}
+
+export default function ProductPagination({ page, pageSize, total, onPageChange }: ProductPaginationProps) {
+  const pageCount = Math.ceil(total / pageSize);
+  if (pageCount <= 1) return null;
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 0 && target < pageCount && target !== page) {
+      onPageChange(target);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    }
+  };
+
+  return (
+    <Pagination className="mt-8">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 0}
+            className={cn(page === 0 && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+        {visiblePages(page, pageCount).map((item, index) =>
+          item === 'ellipsis' ? (
+            <PaginationItem key={`ellipsis-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={item}>
+              <PaginationLink href="#" onClick={goTo(item)} isActive={item === page}>
+                {item + 1}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(page + 1)}
+            aria-disabled={page === pageCount - 1}
+            className={cn(page === pageCount - 1 && 'pointer-events-none opacity-50')}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
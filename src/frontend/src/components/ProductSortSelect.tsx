@@ -0,0 +1,32 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ProductSort } from '../backend';
+import { PRODUCT_SORT_LABELS } from '../utils/products';
+
+interface ProductSortSelectProps {
+  value: ProductSort;
+  onValueChange: (sort: ProductSort) => void;
+  options: ProductSort[];
+}
+
+export default function ProductSortSelect({ value, onValueChange, options }: ProductSortSelectProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Label htmlFor="product-sort" className="text-sm text-muted-foreground">
+        Sort by
+      </Label>
+      <Select value={value} onValueChange={(sort) => onValueChange(sort as ProductSort)}>
+        <SelectTrigger id="product-sort" className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {PRODUCT_SORT_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
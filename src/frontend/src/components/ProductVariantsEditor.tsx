@@ -0,0 +1,278 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Plus, Wand2, X } from 'lucide-react';
+import type { Product, ProductOption, ProductVariant } from '../backend';
+
+/**
+ * An option as typed by the admin; values are comma-separated, e.g. "C, G, F"
+ */
+export type OptionDraft = { name: string; values: string };
+
+/**
+ * A variant as typed by the admin; price is in dollars
+ */
+export type VariantDraft = { sku: string; optionValues: string[]; price: string; stock: string };
+
+export function toOptionDrafts(product: Product): OptionDraft[] {
+  return product.options.map((option) => ({ name: option.name, values: option.values.join(', ') }));
+}
+
+export function toVariantDrafts(product: Product): VariantDraft[] {
+  return product.variants.map((variant) => ({
+    sku: variant.sku,
+    optionValues: variant.optionValues,
+    price: (Number(variant.price) / 100).toFixed(2),
+    stock: variant.stock.toString(),
+  }));
+}
+
+function parseValues(values: string): string[] {
+  return [...new Set(values.split(',').map((value) => value.trim()).filter(Boolean))];
+}
+
+/**
+ * Turns the drafts into what the backend expects, throwing on anything that cannot be saved
+ */
+export function buildVariants(
+  optionDrafts: OptionDraft[],
+  variantDrafts: VariantDraft[]
+): { options: ProductOption[]; variants: ProductVariant[] } {
+  const options = optionDrafts
+    // Rows added but never filled in are ignored
+    .filter((option) => option.name.trim() || option.values.trim())
+    .map((option) => ({ name: option.name.trim(), values: parseValues(option.values) }));
+  const variants = variantDrafts.map((variant) => {
+    const price = parseFloat(variant.price);
+    const stock = parseInt(variant.stock, 10);
+    if (isNaN(price) || price <= 0) {
+      throw new Error(`Please enter a valid price for ${variant.sku || 'every variant'}`);
+    }
+    if (isNaN(stock) || stock < 0) {
+      throw new Error(`Please enter a valid stock quantity for ${variant.sku || 'every variant'}`);
+    }
+    return {
+      sku: variant.sku.trim(),
+      optionValues: variant.optionValues,
+      price: BigInt(Math.round(price * 100)),
+      stock: BigInt(stock),
+    };
+  });
+  return { options, variants };
+}
+
+export function variantsChanged(
+  product: Product,
+  { options, variants }: { options: ProductOption[]; variants: ProductVariant[] }
+): boolean {
+  const sameOptions =
+    options.length === product.options.length &&
+    options.every(
+      (option, i) =>
+        option.name === product.options[i].name && option.values.join('\n') === product.options[i].values.join('\n')
+    );
+  const sameVariants =
+    variants.length === product.variants.length &&
+    variants.every((variant, i) => {
+      const current = product.variants[i];
+      return (
+        variant.sku === current.sku &&
+        variant.optionValues.join('\n') === current.optionValues.join('\n') &&
+        variant.price === current.price &&
+        variant.stock === current.stock
+      );
+    });
+  return !(sameOptions && sameVariants);
+}
+
+// Every combination of one value from each list
+function combinations(lists: string[][]): string[][] {
+  return lists.reduce<string[][]>(
+    (combos, values) => combos.flatMap((combo) => values.map((value) => [...combo, value])),
+    [[]]
+  );
+}
+
+function suggestSku(prefix: string, optionValues: string[]): string {
+  return [prefix, ...optionValues]
+    .join('-')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+interface ProductVariantsEditorProps {
+  options: OptionDraft[];
+  variants: VariantDraft[];
+  onOptionsChange: (options: OptionDraft[]) => void;
+  onVariantsChange: (variants: VariantDraft[]) => void;
+  // Used for generated variants
+  skuPrefix: string;
+  defaultPrice: string;
+  disabled?: boolean;
+}
+
+export default function ProductVariantsEditor({
+  options,
+  variants,
+  onOptionsChange,
+  onVariantsChange,
+  skuPrefix,
+  defaultPrice,
+  disabled = false,
+}: ProductVariantsEditorProps) {
+  const updateOption = (index: number, change: Partial<OptionDraft>) => {
+    onOptionsChange(options.map((option, i) => (i === index ? { ...option, ...change } : option)));
+  };
+
+  const updateVariant = (index: number, change: Partial<VariantDraft>) => {
+    onVariantsChange(variants.map((variant, i) => (i === index ? { ...variant, ...change } : variant)));
+  };
+
+  const removeOption = (index: number) => {
+    onOptionsChange(options.filter((_, i) => i !== index));
+    // Variants no longer line up with the options, so start them over
+    onVariantsChange([]);
+  };
+
+  // Creates a variant for every combination of values, keeping the SKU, price and stock of ones that already exist
+  const generateVariants = () => {
+    const values = options.map((option) => parseValues(option.values));
+    if (values.length === 0 || values.some((list) => list.length === 0)) return;
+    onVariantsChange(
+      combinations(values).map(
+        (optionValues) =>
+          variants.find((variant) => variant.optionValues.join('\n') === optionValues.join('\n')) ?? {
+            sku: suggestSku(skuPrefix, optionValues),
+            optionValues,
+            price: defaultPrice,
+            stock: '0',
+          }
+      )
+    );
+  };
+
+  const canGenerate =
+    options.length > 0 && options.every((option) => option.name.trim() && parseValues(option.values).length > 0);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Variants</Label>
+        <p className="text-xs text-muted-foreground">
+          Sell this product in several options, such as key or finish. Each variant has its own SKU, price and stock.
+        </p>
+      </div>
+
+      {options.map((option, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            value={option.name}
+            onChange={(e) => updateOption(index, { name: e.target.value })}
+            placeholder="Option, e.g. Key"
+            disabled={disabled}
+            className="w-1/3 border-sage/30 focus-visible:ring-sage"
+            aria-label="Option name"
+          />
+          <Input
+            value={option.values}
+            onChange={(e) => updateOption(index, { values: e.target.value })}
+            placeholder="Values, e.g. C, G, F"
+            disabled={disabled}
+            className="flex-1 border-sage/30 focus-visible:ring-sage"
+            aria-label="Option values"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => removeOption(index)}
+            disabled={disabled}
+            aria-label="Remove option"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onOptionsChange([...options, { name: '', values: '' }])}
+          disabled={disabled}
+          className="border-sage/30"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Option
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={generateVariants}
+          disabled={disabled || !canGenerate}
+          className="border-sage/30"
+        >
+          <Wand2 className="mr-2 h-4 w-4" />
+          Generate Variants
+        </Button>
+      </div>
+
+      {variants.length > 0 && (
+        <div className="space-y-2 rounded-lg border border-sage/20 p-3">
+          <div className="grid grid-cols-[1fr_1fr_5rem_4rem_2rem] gap-2 text-xs font-medium text-muted-foreground">
+            <span>Variant</span>
+            <span>SKU</span>
+            <span>Price ($)</span>
+            <span>Stock</span>
+            <span />
+          </div>
+          {variants.map((variant, index) => (
+            <div
+              key={variant.optionValues.join('\n')}
+              className="grid grid-cols-[1fr_1fr_5rem_4rem_2rem] items-center gap-2"
+            >
+              <span className="truncate text-sm">{variant.optionValues.join(' / ')}</span>
+              <Input
+                value={variant.sku}
+                onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                disabled={disabled}
+                className="h-8 border-sage/30 focus-visible:ring-sage"
+                aria-label="SKU"
+              />
+              <Input
+                type="number"
+                value={variant.price}
+                onChange={(e) => updateVariant(index, { price: e.target.value })}
+                disabled={disabled}
+                className="h-8 border-sage/30 focus-visible:ring-sage"
+                step="0.01"
+                min="0"
+                aria-label="Price"
+              />
+              <Input
+                type="number"
+                value={variant.stock}
+                onChange={(e) => updateVariant(index, { stock: e.target.value })}
+                disabled={disabled}
+                className="h-8 border-sage/30 focus-visible:ring-sage"
+                step="1"
+                min="0"
+                aria-label="Stock"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onVariantsChange(variants.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="h-8 w-8"
+                aria-label="Remove variant"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
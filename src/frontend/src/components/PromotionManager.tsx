@@ -0,0 +1,536 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Pencil, Save, Tag, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useCategories } from '../hooks/useQueries';
+import { useSettingsQuery } from '../hooks/useSettings';
+import {
+  useDeleteDiscountCode,
+  useDiscountCodes,
+  useSaveDiscountCode,
+  useSetCategorySale,
+} from '../hooks/usePromotions';
+import SaleFields from './SaleFields';
+import { formatMoney, storePricing } from '../utils/pricing';
+import { emptySaleDraft, toSale, type SaleDraft } from '../utils/sales';
+import { DiscountKind, type Category, type Currency, type DiscountCode, type Sale } from '../backend';
+
+// Amounts are edited in the store currency, e.g. "5.00", limits as whole numbers and the expiry as a date
+type DiscountDraft = {
+  code: string;
+  kind: DiscountKind;
+  amount: string;
+  minimumOrder: string;
+  categoryIds: string[];
+  maxUses: string;
+  maxUsesPerCustomer: string;
+  expiresOn: string;
+  active: boolean;
+};
+
+const emptyDraft = (): DiscountDraft => ({
+  code: '',
+  kind: DiscountKind.percentage,
+  amount: '',
+  minimumOrder: '',
+  categoryIds: [],
+  maxUses: '',
+  maxUsesPerCustomer: '',
+  expiresOn: '',
+  active: true,
+});
+
+const formatAmount = (amount: bigint) => (Number(amount) / 100).toFixed(2);
+
+// Expiry is stored in nanoseconds; a code expires at the end of the chosen day
+const toDateInput = (nanoseconds: bigint) => {
+  const date = new Date(Number(nanoseconds / 1_000_000n));
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+function toDraft(discount: DiscountCode): DiscountDraft {
+  return {
+    code: discount.code,
+    kind: discount.kind,
+    amount: discount.kind === DiscountKind.fixed ? formatAmount(discount.amount) : discount.amount.toString(),
+    minimumOrder: discount.minimumOrder === undefined ? '' : formatAmount(discount.minimumOrder),
+    categoryIds: discount.categoryIds,
+    maxUses: discount.maxUses?.toString() ?? '',
+    maxUsesPerCustomer: discount.maxUsesPerCustomer?.toString() ?? '',
+    expiresOn: discount.expiresAt === undefined ? '' : toDateInput(discount.expiresAt),
+    active: discount.active,
+  };
+}
+
+function parseAmount(value: string, label: string): bigint {
+  const amount = parseFloat(value);
+  if (isNaN(amount) || amount < 0) {
+    throw new Error(`${label} must be an amount of 0 or more`);
+  }
+  return BigInt(Math.round(amount * 100));
+}
+
+function parseLimit(value: string, label: string): bigint | undefined {
+  if (!value.trim()) return undefined;
+  const limit = parseInt(value, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`${label} must be a whole number of at least 1`);
+  }
+  return BigInt(limit);
+}
+
+/**
+ * Converts the draft into a code for the backend, which checks the rest. Throws when a field cannot be read.
+ */
+function toDiscountCode(draft: DiscountDraft): DiscountCode {
+  let amount: bigint;
+  if (draft.kind === DiscountKind.percentage) {
+    const percentage = parseInt(draft.amount, 10);
+    if (isNaN(percentage)) {
+      throw new Error('The discount must be a whole percentage');
+    }
+    amount = BigInt(Math.max(percentage, 0));
+  } else {
+    amount = parseAmount(draft.amount, 'The discount');
+  }
+  return {
+    code: draft.code.trim(),
+    kind: draft.kind,
+    amount,
+    minimumOrder: draft.minimumOrder.trim() ? parseAmount(draft.minimumOrder, 'The minimum order') : undefined,
+    categoryIds: draft.categoryIds,
+    maxUses: parseLimit(draft.maxUses, 'The total uses'),
+    maxUsesPerCustomer: parseLimit(draft.maxUsesPerCustomer, 'The uses per customer'),
+    expiresAt: draft.expiresOn
+      ? BigInt(new Date(`${draft.expiresOn}T23:59:59.999`).getTime()) * 1_000_000n
+      : undefined,
+    active: draft.active,
+  };
+}
+
+function describeDiscount(discount: DiscountCode, currency: Currency): string {
+  const amount =
+    discount.kind === DiscountKind.percentage ? `${discount.amount}% off` : `${formatMoney(discount.amount, currency)} off`;
+  const scope = discount.categoryIds.length > 0 ? ` ${discount.categoryIds.join(', ')}` : '';
+  const minimum =
+    discount.minimumOrder === undefined ? '' : `, orders of ${formatMoney(discount.minimumOrder, currency)} or more`;
+  return `${amount}${scope}${minimum}`;
+}
+
+// Puts a whole category on sale at once; single products are put on sale from their edit dialog
+function CategorySaleCard({ categories, currency }: { categories: Category[]; currency: Currency }) {
+  const setCategorySaleMutation = useSetCategorySale();
+  const [categoryId, setCategoryId] = useState('');
+  const [saleDraft, setSaleDraft] = useState<SaleDraft>(() => ({ ...emptySaleDraft(), onSale: true }));
+
+  const handleApply = async () => {
+    let sale: Sale | null;
+    try {
+      sale = toSale(saleDraft);
+    } catch (error: any) {
+      toast.error(error.message);
+      return;
+    }
+    try {
+      const count = await setCategorySaleMutation.mutateAsync({ categoryId, sale });
+      const products = `${count} product${count === 1n ? '' : 's'}`;
+      toast.success(sale ? `Sale applied to ${products} in ${categoryId}` : `Sale ended on ${products} in ${categoryId}`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update the sale');
+    }
+  };
+
+  const isApplying = setCategorySaleMutation.isPending;
+
+  return (
+    <Card className="border-sage/20">
+      <CardHeader>
+        <CardTitle className="font-serif text-terracotta">Category Sale</CardTitle>
+        <CardDescription>
+          Puts every product in a category and its subcategories on the same sale, replacing any sale they had. Turn
+          the sale off and apply to end it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="category-sale-category">Category</Label>
+          <Select value={categoryId} onValueChange={setCategoryId} disabled={isApplying}>
+            <SelectTrigger id="category-sale-category" className="border-sage/30 focus:ring-sage sm:w-1/2">
+              <SelectValue placeholder="Choose a category" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((category) => (
+                <SelectItem key={category.name} value={category.name}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <SaleFields
+          draft={saleDraft}
+          onChange={setSaleDraft}
+          currency={currency}
+          disabled={isApplying}
+          idPrefix="category-sale"
+        />
+        <Button
+          onClick={handleApply}
+          disabled={isApplying || !categoryId}
+          className="bg-terracotta hover:bg-terracotta/90"
+        >
+          {isApplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Apply to Category
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PromotionManager() {
+  const { data: discountCodes = [], isLoading } = useDiscountCodes();
+  const { data: categories = [] } = useCategories();
+  const { data: settings } = useSettingsQuery();
+  const saveMutation = useSaveDiscountCode();
+  const deleteMutation = useDeleteDiscountCode();
+  const [draft, setDraft] = useState<DiscountDraft>(emptyDraft);
+  // The code being edited, or null when adding a new one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [codeToDelete, setCodeToDelete] = useState<string | null>(null);
+  const { currency } = storePricing(settings);
+
+  const updateDraft = (change: Partial<DiscountDraft>) => setDraft((prev) => ({ ...prev, ...change }));
+
+  const toggleCategory = (categoryId: string, checked: boolean) => {
+    updateDraft({
+      categoryIds: checked
+        ? [...draft.categoryIds, categoryId]
+        : draft.categoryIds.filter((id) => id !== categoryId),
+    });
+  };
+
+  const handleEdit = (discount: DiscountCode) => {
+    setDraft(toDraft(discount));
+    setEditing(discount.code);
+  };
+
+  const handleCancelEdit = () => {
+    setDraft(emptyDraft());
+    setEditing(null);
+  };
+
+  const handleSave = async () => {
+    let discountCode: DiscountCode;
+    try {
+      discountCode = toDiscountCode(draft);
+    } catch (error: any) {
+      toast.error(error.message);
+      return;
+    }
+    const code = discountCode.code.toUpperCase();
+    if (code !== editing && discountCodes.some(({ discountCode: existing }) => existing.code === code)) {
+      toast.error(`${code} already exists`);
+      return;
+    }
+    try {
+      await saveMutation.mutateAsync(discountCode);
+      // Renaming a code saves it under the new name, so the old one goes
+      if (editing && editing !== code) {
+        await deleteMutation.mutateAsync(editing);
+      }
+      toast.success(`${code} saved`);
+      handleCancelEdit();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save discount code');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!codeToDelete) return;
+    try {
+      await deleteMutation.mutateAsync(codeToDelete);
+      toast.success(`${codeToDelete} deleted`);
+      if (editing === codeToDelete) {
+        handleCancelEdit();
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete discount code');
+    }
+    setCodeToDelete(null);
+  };
+
+  const isSaving = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-sage/20">
+        <CardHeader>
+          <CardTitle className="font-serif text-terracotta">{editing ? `Edit ${editing}` : 'New Discount Code'}</CardTitle>
+          <CardDescription>
+            Customers enter the code in their cart. A code counts as used once its order is paid.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="discount-code">Code</Label>
+              <Input
+                id="discount-code"
+                value={draft.code}
+                onChange={(e) => updateDraft({ code: e.target.value.toUpperCase() })}
+                placeholder="e.g. SUMMER10"
+                disabled={isSaving}
+                className="border-sage/30 focus-visible:ring-sage"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-kind">Type</Label>
+              <Select
+                value={draft.kind}
+                onValueChange={(kind) => updateDraft({ kind: kind as DiscountKind })}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="discount-kind" className="border-sage/30 focus:ring-sage">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DiscountKind.percentage}>Percentage</SelectItem>
+                  <SelectItem value={DiscountKind.fixed}>Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-amount">
+                {draft.kind === DiscountKind.percentage ? 'Percentage off' : `Amount off (${currency.toUpperCase()})`}
+              </Label>
+              <Input
+                id="discount-amount"
+                type="number"
+                value={draft.amount}
+                onChange={(e) => updateDraft({ amount: e.target.value })}
+                disabled={isSaving}
+                className="border-sage/30 focus-visible:ring-sage"
+                step={draft.kind === DiscountKind.percentage ? '1' : '0.01'}
+                min="0"
+                max={draft.kind === DiscountKind.percentage ? '100' : undefined}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="discount-minimum">Minimum order</Label>
+              <Input
+                id="discount-minimum"
+                type="number"
+                value={draft.minimumOrder}
+                onChange={(e) => updateDraft({ minimumOrder: e.target.value })}
+                placeholder="None"
+                disabled={isSaving}
+                className="border-sage/30 focus-visible:ring-sage"
+                step="0.01"
+                min="0"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-max-uses">Total uses</Label>
+              <Input
+                id="discount-max-uses"
+                type="number"
+                value={draft.maxUses}
+                onChange={(e) => updateDraft({ maxUses: e.target.value })}
+                placeholder="Unlimited"
+                disabled={isSaving}
+                className="border-sage/30 focus-visible:ring-sage"
+                min="1"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-max-uses-per-customer">Uses per customer</Label>
+              <Input
+                id="discount-max-uses-per-customer"
+                type="number"
+                value={draft.maxUsesPerCustomer}
+                onChange={(e) => updateDraft({ maxUsesPerCustomer: e.target.value })}
+                placeholder="Unlimited"
+                disabled={isSaving}
+                className="border-sage/30 focus-visible:ring-sage"
+                min="1"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="discount-expires">Expires after</Label>
+              <Input
+                id="discount-expires"
+                type="date"
+                value={draft.expiresOn}
+                onChange={(e) => updateDraft({ expiresOn: e.target.value })}
+                disabled={isSaving}
+                className="border-sage/30 focus-visible:ring-sage"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Categories</Label>
+            <p className="text-xs text-muted-foreground">
+              Leave all unticked to discount the whole basket. Subcategories of a ticked category are included.
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {categories.map((category) => (
+                <div key={category.name} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`discount-category-${category.name}`}
+                    checked={draft.categoryIds.includes(category.name)}
+                    onCheckedChange={(checked) => toggleCategory(category.name, checked === true)}
+                    disabled={isSaving}
+                  />
+                  <Label htmlFor={`discount-category-${category.name}`} className="font-normal">
+                    {category.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="discount-active"
+              checked={draft.active}
+              onCheckedChange={(active) => updateDraft({ active })}
+              disabled={isSaving}
+            />
+            <Label htmlFor="discount-active">Active</Label>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={isSaving} className="bg-terracotta hover:bg-terracotta/90">
+              {saveMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save Code
+            </Button>
+            {editing && (
+              <Button variant="outline" onClick={handleCancelEdit} disabled={isSaving} className="border-sage/30">
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-sage/20">
+        <CardHeader>
+          <CardTitle className="font-serif text-terracotta">Discount Codes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-sage" />
+            </div>
+          ) : discountCodes.length === 0 ? (
+            <div className="py-8 text-center">
+              <Tag className="mx-auto h-12 w-12 text-muted-foreground/50" />
+              <p className="mt-2 text-sm text-muted-foreground">No discount codes yet</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Uses</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {discountCodes.map(({ discountCode, uses }) => (
+                  <TableRow key={discountCode.code}>
+                    <TableCell className="font-mono font-medium">{discountCode.code}</TableCell>
+                    <TableCell className="text-sm">{describeDiscount(discountCode, currency)}</TableCell>
+                    <TableCell className="text-sm">
+                      {uses.toString()}
+                      {discountCode.maxUses !== undefined && ` / ${discountCode.maxUses}`}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {discountCode.expiresAt === undefined
+                        ? 'Never'
+                        : new Date(Number(discountCode.expiresAt / 1_000_000n)).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={discountCode.active ? 'default' : 'secondary'}>
+                        {discountCode.active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(discountCode)}
+                        disabled={isSaving}
+                        aria-label={`Edit ${discountCode.code}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setCodeToDelete(discountCode.code)}
+                        disabled={isSaving}
+                        className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+                        aria-label={`Delete ${discountCode.code}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CategorySaleCard categories={categories} currency={currency} />
+
+      <AlertDialog open={!!codeToDelete} onOpenChange={() => setCodeToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {codeToDelete}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Customers will no longer be able to use this code, and its usage count is lost. Orders already placed
+              with it keep their discount.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
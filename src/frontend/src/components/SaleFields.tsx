@@ -0,0 +1,97 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DiscountKind, type Currency } from '../backend';
+import type { SaleDraft } from '../utils/sales';
+
+interface SaleFieldsProps {
+  draft: SaleDraft;
+  onChange: (draft: SaleDraft) => void;
+  currency: Currency;
+  disabled?: boolean;
+  // Keeps ids unique when several forms are on the page
+  idPrefix?: string;
+}
+
+export default function SaleFields({ draft, onChange, currency, disabled = false, idPrefix = 'sale' }: SaleFieldsProps) {
+  const update = (change: Partial<SaleDraft>) => onChange({ ...draft, ...change });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`${idPrefix}-on-sale`}
+          checked={draft.onSale}
+          onCheckedChange={(onSale) => update({ onSale })}
+          disabled={disabled}
+        />
+        <Label htmlFor={`${idPrefix}-on-sale`}>On sale</Label>
+      </div>
+      {draft.onSale && (
+        <>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-kind`}>Type</Label>
+              <Select
+                value={draft.kind}
+                onValueChange={(kind) => update({ kind: kind as DiscountKind })}
+                disabled={disabled}
+              >
+                <SelectTrigger id={`${idPrefix}-kind`} className="border-sage/30 focus:ring-sage">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DiscountKind.percentage}>Percentage off</SelectItem>
+                  <SelectItem value={DiscountKind.fixed}>Amount off</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-amount`}>
+                {draft.kind === DiscountKind.percentage ? 'Percentage' : `Amount (${currency.toUpperCase()})`}
+              </Label>
+              <Input
+                id={`${idPrefix}-amount`}
+                type="number"
+                value={draft.amount}
+                onChange={(e) => update({ amount: e.target.value })}
+                disabled={disabled}
+                className="border-sage/30 focus-visible:ring-sage"
+                step={draft.kind === DiscountKind.percentage ? '1' : '0.01'}
+                min="0"
+                max={draft.kind === DiscountKind.percentage ? '99' : undefined}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-starts`}>Starts</Label>
+              <Input
+                id={`${idPrefix}-starts`}
+                type="datetime-local"
+                value={draft.startsAt}
+                onChange={(e) => update({ startsAt: e.target.value })}
+                disabled={disabled}
+                className="border-sage/30 focus-visible:ring-sage"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}-ends`}>Ends</Label>
+              <Input
+                id={`${idPrefix}-ends`}
+                type="datetime-local"
+                value={draft.endsAt}
+                onChange={(e) => update({ endsAt: e.target.value })}
+                disabled={disabled}
+                className="border-sage/30 focus-visible:ring-sage"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Taken off the regular price of every variant. Leave the start blank to begin now and the end blank to run
+            until you turn it off.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
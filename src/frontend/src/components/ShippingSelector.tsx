@@ -0,0 +1,75 @@
+import { useEffect } from 'react';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useShippingQuotes, useShippingZones } from '../hooks/useShipping';
+import { countryName, shippingCountries } from '../utils/shipping';
+import { formatMoney } from '../utils/pricing';
+import type { BasketItem, Currency, ShippingChoice } from '../backend';
+
+interface ShippingSelectorProps {
+  items: BasketItem[];
+  value: ShippingChoice | null;
+  onChange: (choice: ShippingChoice | null) => void;
+  currency: Currency;
+}
+
+export default function ShippingSelector({ items, value, onChange, currency }: ShippingSelectorProps) {
+  const { data: zones = [] } = useShippingZones();
+  const country = value?.country ?? '';
+  const { data: quotes = [], isLoading } = useShippingQuotes(items, country);
+
+  // Pick the first rate for a new country, or when the cart changes so the chosen rate no longer applies
+  useEffect(() => {
+    if (!country || isLoading) return;
+    if (!quotes.some((quote) => quote.rate === value?.rate)) {
+      onChange(quotes.length > 0 ? { country, rate: quotes[0].rate } : null);
+    }
+  }, [country, quotes, isLoading]);
+
+  if (zones.length === 0) return null;
+
+  return (
+    <div className="space-y-3 border-t border-sage/20 pt-4">
+      <div className="space-y-2">
+        <Label htmlFor="shipping-country">Ship to</Label>
+        <Select value={country} onValueChange={(code) => onChange({ country: code, rate: '' })}>
+          <SelectTrigger id="shipping-country" className="border-sage/30 focus:ring-sage">
+            <SelectValue placeholder="Choose a country" />
+          </SelectTrigger>
+          <SelectContent>
+            {shippingCountries(zones).map((code) => (
+              <SelectItem key={code} value={code}>
+                {countryName(code)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {country &&
+        (isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-5 w-5 animate-spin text-sage" />
+          </div>
+        ) : quotes.length === 0 ? (
+          <p className="text-sm text-destructive">
+            None of our shipping methods to {countryName(country)} can take this order.
+          </p>
+        ) : (
+          <RadioGroup value={value?.rate ?? ''} onValueChange={(rate) => onChange({ country, rate })}>
+            {quotes.map((quote) => (
+              <div key={quote.rate} className="flex items-center gap-2">
+                <RadioGroupItem id={`shipping-rate-${quote.rate}`} value={quote.rate} />
+                <Label htmlFor={`shipping-rate-${quote.rate}`} className="flex flex-1 justify-between font-normal">
+                  <span>{quote.rate}</span>
+                  <span className="font-medium">{quote.fee > 0n ? formatMoney(quote.fee, currency) : 'Free'}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        ))}
+    </div>
+  );
+}
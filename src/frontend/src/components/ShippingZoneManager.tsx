@@ -0,0 +1,351 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useSetShippingZones, useShippingZones } from '../hooks/useShipping';
+import { RATE_BASIS_LABELS } from '../utils/shipping';
+import { RateBasis, type ShippingRate, type ShippingZone } from '../backend';
+
+// Amounts are edited in the store currency, e.g. "4.95", and weights in grams
+type TierDraft = { upTo: string; fee: string };
+type RateDraft = { name: string; basis: RateBasis; fee: string; tiers: TierDraft[]; freeOver: string };
+// Countries are edited as comma-separated codes, e.g. "GB, IE"
+type ZoneDraft = { name: string; countries: string; rates: RateDraft[] };
+
+const formatAmount = (amount: bigint) => (Number(amount) / 100).toFixed(2);
+
+function toZoneDraft(zone: ShippingZone): ZoneDraft {
+  return {
+    name: zone.name,
+    countries: zone.countries.join(', '),
+    rates: zone.rates.map((rate) => ({
+      name: rate.name,
+      basis: rate.basis,
+      fee: formatAmount(rate.fee),
+      tiers: rate.tiers.map((tier) => ({
+        upTo: rate.basis === RateBasis.weight ? tier.upTo.toString() : formatAmount(tier.upTo),
+        fee: formatAmount(tier.fee),
+      })),
+      freeOver: rate.freeOver === undefined ? '' : formatAmount(rate.freeOver),
+    })),
+  };
+}
+
+function parseAmount(value: string, label: string): bigint {
+  const amount = parseFloat(value);
+  if (isNaN(amount) || amount < 0) {
+    throw new Error(`${label} must be an amount of 0 or more`);
+  }
+  return BigInt(Math.round(amount * 100));
+}
+
+function toRate(draft: RateDraft, zoneName: string): ShippingRate {
+  const label = `${draft.name.trim() || 'Rate'} in ${zoneName}`;
+  return {
+    name: draft.name.trim(),
+    basis: draft.basis,
+    fee: draft.basis === RateBasis.flat ? parseAmount(draft.fee, `The fee of ${label}`) : 0n,
+    tiers:
+      draft.basis === RateBasis.flat
+        ? []
+        : draft.tiers.map((tier) => {
+            const fee = parseAmount(tier.fee, `A tier fee of ${label}`);
+            if (draft.basis === RateBasis.orderTotal) {
+              return { upTo: parseAmount(tier.upTo, `A tier limit of ${label}`), fee };
+            }
+            const grams = parseInt(tier.upTo, 10);
+            if (isNaN(grams) || grams < 0) {
+              throw new Error(`A tier limit of ${label} must be a weight in grams`);
+            }
+            return { upTo: BigInt(grams), fee };
+          }),
+    freeOver: draft.freeOver.trim() ? parseAmount(draft.freeOver, `The free shipping threshold of ${label}`) : undefined,
+  };
+}
+
+/**
+ * Converts the drafts into zones for the backend, which checks the rest. Throws when an amount cannot be read.
+ */
+function toZones(drafts: ZoneDraft[]): ShippingZone[] {
+  return drafts.map((draft) => ({
+    name: draft.name.trim(),
+    countries: [
+      ...new Set(
+        draft.countries
+          .split(',')
+          .map((code) => code.trim().toUpperCase())
+          .filter(Boolean)
+      ),
+    ],
+    rates: draft.rates.map((rate) => toRate(rate, draft.name.trim())),
+  }));
+}
+
+const emptyRate = (): RateDraft => ({ name: '', basis: RateBasis.flat, fee: '', tiers: [], freeOver: '' });
+
+export default function ShippingZoneManager() {
+  const { data: zones, isLoading } = useShippingZones();
+  const setZonesMutation = useSetShippingZones();
+  const [drafts, setDrafts] = useState<ZoneDraft[]>([]);
+
+  useEffect(() => {
+    if (zones) {
+      setDrafts(zones.map(toZoneDraft));
+    }
+  }, [zones]);
+
+  const updateZone = (zoneIndex: number, change: Partial<ZoneDraft>) => {
+    setDrafts((prev) => prev.map((zone, i) => (i === zoneIndex ? { ...zone, ...change } : zone)));
+  };
+
+  const updateRate = (zoneIndex: number, rateIndex: number, change: Partial<RateDraft>) => {
+    setDrafts((prev) =>
+      prev.map((zone, i) =>
+        i === zoneIndex
+          ? { ...zone, rates: zone.rates.map((rate, j) => (j === rateIndex ? { ...rate, ...change } : rate)) }
+          : zone
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    let shippingZones: ShippingZone[];
+    try {
+      shippingZones = toZones(drafts);
+    } catch (error: any) {
+      toast.error(error.message);
+      return;
+    }
+    try {
+      await setZonesMutation.mutateAsync(shippingZones);
+      toast.success('Shipping zones saved');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save shipping zones');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-sage" />
+      </div>
+    );
+  }
+
+  const isSaving = setZonesMutation.isPending;
+
+  return (
+    <Card className="border-sage/20">
+      <CardHeader>
+        <CardTitle className="font-serif text-terracotta">Shipping Zones</CardTitle>
+        <CardDescription>
+          Group the countries you ship to into zones and give each zone its rates. Customers choose a rate in the
+          cart. Without any zones, every order ships free.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {drafts.map((zone, zoneIndex) => (
+          <div key={zoneIndex} className="space-y-4 rounded-lg border border-sage/20 p-4">
+            <div className="flex gap-2">
+              <div className="grid flex-1 gap-2 sm:grid-cols-2">
+                <Input
+                  value={zone.name}
+                  onChange={(e) => updateZone(zoneIndex, { name: e.target.value })}
+                  placeholder="Zone name, e.g. Europe"
+                  disabled={isSaving}
+                  className="border-sage/30 focus-visible:ring-sage"
+                  aria-label="Zone name"
+                />
+                <Input
+                  value={zone.countries}
+                  onChange={(e) => updateZone(zoneIndex, { countries: e.target.value })}
+                  placeholder="Country codes, e.g. FR, DE, IE"
+                  disabled={isSaving}
+                  className="border-sage/30 focus-visible:ring-sage"
+                  aria-label="Countries"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setDrafts((prev) => prev.filter((_, i) => i !== zoneIndex))}
+                disabled={isSaving}
+                aria-label="Remove zone"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {zone.rates.map((rate, rateIndex) => (
+              <div key={rateIndex} className="space-y-3 rounded-md bg-cream/20 p-3">
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    value={rate.name}
+                    onChange={(e) => updateRate(zoneIndex, rateIndex, { name: e.target.value })}
+                    placeholder="Rate name, e.g. Standard"
+                    disabled={isSaving}
+                    className="min-w-40 flex-1 border-sage/30 focus-visible:ring-sage"
+                    aria-label="Rate name"
+                  />
+                  <Select
+                    value={rate.basis}
+                    onValueChange={(basis) => updateRate(zoneIndex, rateIndex, { basis: basis as RateBasis })}
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger className="w-40 border-sage/30 focus:ring-sage" aria-label="Rate type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(RateBasis).map((basis) => (
+                        <SelectItem key={basis} value={basis}>
+                          {RATE_BASIS_LABELS[basis]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {rate.basis === RateBasis.flat && (
+                    <Input
+                      type="number"
+                      value={rate.fee}
+                      onChange={(e) => updateRate(zoneIndex, rateIndex, { fee: e.target.value })}
+                      placeholder="Fee"
+                      disabled={isSaving}
+                      className="w-28 border-sage/30 focus-visible:ring-sage"
+                      step="0.01"
+                      min="0"
+                      aria-label="Fee"
+                    />
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      updateZone(zoneIndex, { rates: zone.rates.filter((_, j) => j !== rateIndex) })
+                    }
+                    disabled={isSaving}
+                    aria-label="Remove rate"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {rate.basis !== RateBasis.flat && (
+                  <div className="space-y-2">
+                    {rate.tiers.map((tier, tierIndex) => {
+                      const setTier = (change: Partial<TierDraft>) =>
+                        updateRate(zoneIndex, rateIndex, {
+                          tiers: rate.tiers.map((t, k) => (k === tierIndex ? { ...t, ...change } : t)),
+                        });
+                      return (
+                        <div key={tierIndex} className="flex items-center gap-2 text-sm">
+                          <span className="text-muted-foreground">Up to</span>
+                          <Input
+                            type="number"
+                            value={tier.upTo}
+                            onChange={(e) => setTier({ upTo: e.target.value })}
+                            disabled={isSaving}
+                            className="h-8 w-28 border-sage/30 text-sm"
+                            step={rate.basis === RateBasis.weight ? '1' : '0.01'}
+                            min="0"
+                            aria-label="Tier limit"
+                          />
+                          <span className="text-muted-foreground">
+                            {rate.basis === RateBasis.weight ? 'g' : 'order total'}, fee
+                          </span>
+                          <Input
+                            type="number"
+                            value={tier.fee}
+                            onChange={(e) => setTier({ fee: e.target.value })}
+                            disabled={isSaving}
+                            className="h-8 w-28 border-sage/30 text-sm"
+                            step="0.01"
+                            min="0"
+                            aria-label="Tier fee"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              updateRate(zoneIndex, rateIndex, { tiers: rate.tiers.filter((_, k) => k !== tierIndex) })
+                            }
+                            disabled={isSaving}
+                            aria-label="Remove tier"
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        updateRate(zoneIndex, rateIndex, { tiers: [...rate.tiers, { upTo: '', fee: '' }] })
+                      }
+                      disabled={isSaving}
+                      className="h-7 border-sage/30 text-xs"
+                    >
+                      <Plus className="mr-1 h-3 w-3" />
+                      Add Tier
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                      Orders above the last tier cannot use this rate.
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2 text-sm">
+                  <Label htmlFor={`free-over-${zoneIndex}-${rateIndex}`} className="font-normal text-muted-foreground">
+                    Free for orders of at least
+                  </Label>
+                  <Input
+                    id={`free-over-${zoneIndex}-${rateIndex}`}
+                    type="number"
+                    value={rate.freeOver}
+                    onChange={(e) => updateRate(zoneIndex, rateIndex, { freeOver: e.target.value })}
+                    placeholder="No threshold"
+                    disabled={isSaving}
+                    className="h-8 w-32 border-sage/30 text-sm"
+                    step="0.01"
+                    min="0"
+                  />
+                </div>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateZone(zoneIndex, { rates: [...zone.rates, emptyRate()] })}
+              disabled={isSaving}
+              className="border-sage/30"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rate
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setDrafts((prev) => [...prev, { name: '', countries: '', rates: [emptyRate()] }])}
+            disabled={isSaving}
+            className="border-sage/30"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Zone
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} className="bg-terracotta hover:bg-terracotta/90">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Shipping
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,28 +1,52 @@
 import { useState, useRef, useEffect } from 'react';
 import { useAddProduct } from '../hooks/useQueries';
 import { usePriceConstraint } from '../hooks/usePriceConstraints';
+import { useAttributeSchema } from '../hooks/useCategoryAttributes';
+import { useGeneratedDescription } from '../hooks/useDescriptionTemplates';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Upload, Loader2, Image as ImageIcon, X, AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
 import { ExternalBlob } from '../backend';
 import CategorySelector from './CategorySelector';
+import AttributeFields from './AttributeFields';
+import { missingRequiredAttributes, toProductAttributes, type AttributeValues } from '../utils/attributes';
 
 export default function SingleProductUploader() {
   const [productName, setProductName] = useState('');
   const [productPrice, setProductPrice] = useState('');
+  const [productStock, setProductStock] = useState('1');
   const [selectedCategory, setSelectedCategory] = useState('');
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // The first selected image becomes the product's primary image
+  const [selectedImages, setSelectedImages] = useState<File[]>([]);
+  const [imagePreviews, setImagePreviews] = useState<string[]>([]);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [priceError, setPriceError] = useState<string | null>(null);
+  const [attributeValues, setAttributeValues] = useState<AttributeValues>({});
+  // Left empty, the description is generated from the category's template
+  const [description, setDescription] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const addProductMutation = useAddProduct();
   const { data: priceConstraint } = usePriceConstraint(selectedCategory);
+  const { data: attributeSchema = [] } = useAttributeSchema(selectedCategory);
+  const parsedPrice = parseFloat(productPrice);
+  const generatedDescription = useGeneratedDescription({
+    name: productName.trim(),
+    categoryId: selectedCategory,
+    price: BigInt(Math.round((isNaN(parsedPrice) ? 0 : parsedPrice) * 100)),
+    schema: attributeSchema,
+    attributes: attributeValues,
+  });
+
+  // Each category has its own attributes, so values entered for another one do not carry over
+  useEffect(() => {
+    setAttributeValues({});
+  }, [selectedCategory]);
 
   // Validate price against constraint whenever price or category changes
   useEffect(() => {
@@ -42,31 +66,34 @@ export default function SingleProductUploader() {
   }, [productPrice, priceConstraint]);
 
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0) return;
 
-    if (!file.type.startsWith('image/')) {
-      toast.error('Please select an image file');
+    if (files.some((file) => !file.type.startsWith('image/'))) {
+      toast.error('Please select only image files');
       return;
     }
 
     // Check file size (max 5MB)
-    if (file.size > 5 * 1024 * 1024) {
-      toast.error('Image size must be less than 5MB');
+    if (files.some((file) => file.size > 5 * 1024 * 1024)) {
+      toast.error('Each image must be less than 5MB');
       return;
     }
 
-    setSelectedImage(file);
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setImagePreview(reader.result as string);
-    };
-    reader.readAsDataURL(file);
+    setSelectedImages(files);
+    setImagePreviews(files.map((file) => URL.createObjectURL(file)));
+  };
+
+  const removeImage = (index: number) => {
+    URL.revokeObjectURL(imagePreviews[index]);
+    setSelectedImages((prev) => prev.filter((_, i) => i !== index));
+    setImagePreviews((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const clearImage = () => {
-    setSelectedImage(null);
-    setImagePreview(null);
+  const clearImages = () => {
+    imagePreviews.forEach((preview) => URL.revokeObjectURL(preview));
+    setSelectedImages([]);
+    setImagePreviews([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -88,13 +115,25 @@ export default function SingleProductUploader() {
       return;
     }
 
+    const stock = parseInt(productStock, 10);
+    if (isNaN(stock) || stock < 0) {
+      toast.error('Please enter a valid stock quantity');
+      return;
+    }
+
     if (!selectedCategory) {
       toast.error('Please select a category');
       return;
     }
 
-    if (!selectedImage) {
-      toast.error('Please select an image');
+    const missingAttributes = missingRequiredAttributes(attributeSchema, attributeValues);
+    if (missingAttributes.length > 0) {
+      toast.error(`Please fill in ${missingAttributes.join(', ')}`);
+      return;
+    }
+
+    if (selectedImages.length === 0) {
+      toast.error('Please select at least one image');
       return;
     }
 
@@ -112,25 +151,34 @@ export default function SingleProductUploader() {
         name: productName,
         price: productPrice,
         category: selectedCategory,
-        imageSize: selectedImage.size,
+        imageCount: selectedImages.length,
       });
 
-      // Convert File to Uint8Array
-      const arrayBuffer = await selectedImage.arrayBuffer();
-      const uint8Array = new Uint8Array(arrayBuffer);
-      
-      // Create ExternalBlob with progress tracking
-      const blob = ExternalBlob.fromBytes(uint8Array).withUploadProgress((percentage) => {
-        setUploadProgress(percentage);
-      });
+      // Report the average progress across all images being uploaded
+      const progressByImage = selectedImages.map(() => 0);
+      const blobs = await Promise.all(
+        selectedImages.map(async (image, index) => {
+          // Convert File to Uint8Array
+          const uint8Array = new Uint8Array(await image.arrayBuffer());
+
+          // Create ExternalBlob with progress tracking
+          return ExternalBlob.fromBytes(uint8Array).withUploadProgress((percentage) => {
+            progressByImage[index] = percentage;
+            setUploadProgress(progressByImage.reduce((sum, p) => sum + p, 0) / progressByImage.length);
+          });
+        })
+      );
 
       const priceInCents = BigInt(Math.round(parseFloat(productPrice) * 100));
 
       await addProductMutation.mutateAsync({
         name: productName,
         price: priceInCents,
-        image: blob,
+        images: blobs,
         categoryId: selectedCategory,
+        stock: BigInt(stock),
+        attributes: toProductAttributes(attributeSchema, attributeValues),
+        description: description.trim() || null,
       });
 
       console.log('[SingleProductUploader] ✅ Product uploaded successfully at', new Date().toISOString());
@@ -146,8 +194,10 @@ export default function SingleProductUploader() {
       // Reset form
       setProductName('');
       setProductPrice('');
+      setProductStock('1');
       setSelectedCategory('');
-      clearImage();
+      setDescription('');
+      clearImages();
       setUploadProgress(0);
     } catch (error: any) {
       console.error('[SingleProductUploader] ❌ Error adding product:', {
@@ -164,7 +214,7 @@ export default function SingleProductUploader() {
     <Card className="border-sage/20">
       <CardHeader>
         <CardTitle className="font-serif text-terracotta">Add Single Product</CardTitle>
-        <CardDescription>Upload a product with image, name, price, and category</CardDescription>
+        <CardDescription>Upload a product with images, name, price, and category</CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-6">
@@ -201,6 +251,24 @@ export default function SingleProductUploader() {
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="product-stock">Stock</Label>
+            <Input
+              id="product-stock"
+              type="number"
+              placeholder="1"
+              value={productStock}
+              onChange={(e) => setProductStock(e.target.value)}
+              disabled={addProductMutation.isPending}
+              className="border-sage/30 focus-visible:ring-sage"
+              step="1"
+              min="0"
+            />
+            <p className="text-xs text-muted-foreground">
+              Number of units available. Handmade one-of-a-kind pieces usually have 1.
+            </p>
+          </div>
+
           <div className="space-y-2">
             <CategorySelector
               value={selectedCategory}
@@ -208,23 +276,57 @@ export default function SingleProductUploader() {
             />
           </div>
 
+          {attributeSchema.length > 0 && (
+            <div className="space-y-3 rounded-lg border border-sage/20 p-4">
+              <Label>Attributes</Label>
+              <AttributeFields
+                schema={attributeSchema}
+                values={attributeValues}
+                onChange={setAttributeValues}
+                disabled={addProductMutation.isPending}
+                idPrefix="product-attribute"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="product-description">Description (optional)</Label>
+            <Textarea
+              id="product-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Leave empty to use the category's description template"
+              disabled={addProductMutation.isPending}
+              rows={4}
+              className="border-sage/30 focus-visible:ring-sage"
+            />
+            {!description.trim() && generatedDescription && (
+              <div className="rounded-md bg-cream/30 p-3 text-sm">
+                <p className="mb-1 text-xs font-medium text-muted-foreground">Generated description</p>
+                <p className="whitespace-pre-line text-foreground">{generatedDescription}</p>
+              </div>
+            )}
+          </div>
+
           <div className="space-y-2">
-            <Label htmlFor="product-image">Product Image</Label>
+            <Label htmlFor="product-image">Product Images</Label>
             <Input
               ref={fileInputRef}
               id="product-image"
               type="file"
               accept="image/*"
+              multiple
               onChange={handleImageSelect}
               disabled={addProductMutation.isPending}
               className="border-sage/30 focus-visible:ring-sage"
             />
             <p className="text-xs text-muted-foreground">
-              Maximum file size: 5MB. Supported formats: JPG, PNG, GIF, WebP
+              Select one or more images; the first is shown in listings. Maximum file size: 5MB each.
+              Supported formats: JPG, PNG, GIF, WebP
             </p>
           </div>
 
-          {imagePreview && (
+          {imagePreviews.length > 0 && (
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label>Image Preview</Label>
@@ -232,7 +334,7 @@ export default function SingleProductUploader() {
                   type="button"
                   variant="ghost"
                   size="sm"
-                  onClick={clearImage}
+                  onClick={clearImages}
                   disabled={addProductMutation.isPending}
                   className="h-8 px-2 text-xs"
                 >
@@ -240,12 +342,31 @@ export default function SingleProductUploader() {
                   Clear
                 </Button>
               </div>
-              <div className="flex h-48 w-full items-center justify-center overflow-hidden rounded-lg border border-sage/20 bg-cream/30">
-                <img
-                  src={imagePreview}
-                  alt="Preview"
-                  className="h-full w-full object-contain"
-                />
+              <div className="grid grid-cols-3 gap-2 sm:grid-cols-4">
+                {imagePreviews.map((preview, index) => (
+                  <div
+                    key={preview}
+                    className="group relative aspect-square overflow-hidden rounded-lg border border-sage/20 bg-cream/30"
+                  >
+                    <img src={preview} alt={`Preview ${index + 1}`} className="h-full w-full object-cover" />
+                    {index === 0 && (
+                      <span className="absolute left-1 top-1 rounded bg-terracotta px-1.5 py-0.5 text-[10px] font-medium text-white">
+                        Primary
+                      </span>
+                    )}
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="icon"
+                      onClick={() => removeImage(index)}
+                      disabled={addProductMutation.isPending}
+                      className="absolute right-1 top-1 h-6 w-6 opacity-0 transition-opacity group-hover:opacity-100"
+                      aria-label="Remove image"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
               </div>
             </div>
           )}
@@ -262,7 +383,7 @@ export default function SingleProductUploader() {
 
           <Button
             type="submit"
-            disabled={addProductMutation.isPending || !productName || !productPrice || !selectedCategory || !selectedImage || !!priceError}
+            disabled={addProductMutation.isPending || !productName || !productPrice || !selectedCategory || selectedImages.length === 0 || !!priceError}
             className="w-full bg-terracotta hover:bg-terracotta/90"
           >
             {addProductMutation.isPending ? (
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useActor } from '../hooks/useActor';
-import { useMutation, useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -8,8 +8,118 @@ import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
 import { toast } from 'sonner';
+import { loadConfig } from '../config';
 import type { StripeConfiguration } from '../backend';
 
+const WEBHOOK_EVENTS = [
+  'checkout.session.completed',
+  'checkout.session.async_payment_succeeded',
+  'checkout.session.expired',
+  'charge.refunded',
+];
+
+// Tells the backend about payments even when the buyer closes the tab before returning to the shop
+function StripeWebhookForm() {
+  const { actor, isFetching: actorFetching } = useActor();
+  const queryClient = useQueryClient();
+  const [signingSecret, setSigningSecret] = useState('');
+
+  const { data: isConfigured } = useQuery({
+    queryKey: ['stripeWebhookConfigured'],
+    queryFn: async () => {
+      if (!actor) return false;
+      return actor.isStripeWebhookConfigured();
+    },
+    enabled: !!actor && !actorFetching,
+  });
+
+  const { data: endpointUrl } = useQuery({
+    queryKey: ['stripeWebhookUrl'],
+    queryFn: async () => {
+      const config = await loadConfig();
+      return `https://${config.backend_canister_id}.icp0.io/stripe/webhook`;
+    },
+  });
+
+  const setSecretMutation = useMutation({
+    mutationFn: async (secret: string) => {
+      if (!actor) throw new Error('Actor not available');
+      await actor.setStripeWebhookSecret(secret);
+    },
+    onSuccess: () => {
+      toast.success('Webhook signing secret saved');
+      setSigningSecret('');
+      queryClient.invalidateQueries({ queryKey: ['stripeWebhookConfigured'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to save the webhook signing secret');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!signingSecret.trim()) {
+      toast.error('Please enter the signing secret of your webhook endpoint');
+      return;
+    }
+    setSecretMutation.mutate(signingSecret.trim());
+  };
+
+  return (
+    <Card className="mx-auto max-w-2xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Payment Webhook
+          {isConfigured && <CheckCircle2 className="h-5 w-5 text-sage" />}
+        </CardTitle>
+        <CardDescription>
+          In the Stripe Dashboard, add a webhook endpoint with this URL, sending the events below. Orders are then
+          confirmed even if a customer never returns from checkout.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="webhookUrl">Endpoint URL</Label>
+            <Input id="webhookUrl" readOnly value={endpointUrl ?? ''} className="font-mono text-sm" />
+            <p className="text-xs text-muted-foreground">Events: {WEBHOOK_EVENTS.join(', ')}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="signingSecret">Signing Secret</Label>
+            <Input
+              id="signingSecret"
+              type="password"
+              placeholder="whsec_..."
+              value={signingSecret}
+              onChange={(e) => setSigningSecret(e.target.value)}
+              className="font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              Shown on the endpoint's page in the Stripe Dashboard. Requests without a valid signature are refused.
+            </p>
+          </div>
+
+          <Button
+            type="submit"
+            disabled={setSecretMutation.isPending}
+            className="w-full bg-terracotta hover:bg-terracotta/90"
+          >
+            {setSecretMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Signing Secret'
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function StripeConfigForm() {
   const { actor, isFetching: actorFetching } = useActor();
   const [secretKey, setSecretKey] = useState('');
@@ -65,89 +175,92 @@ export default function StripeConfigForm() {
   const isLoading = actorFetching || checkingConfig;
 
   return (
-    <Card className="mx-auto max-w-2xl">
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          Payment Settings
-          {isConfigured && <CheckCircle2 className="h-5 w-5 text-sage" />}
-        </CardTitle>
-        <CardDescription>
-          Configure Stripe to accept credit and debit card payments from your customers.
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        {isLoading ? (
-          <div className="flex items-center justify-center py-8">
-            <Loader2 className="h-8 w-8 animate-spin text-sage" />
-          </div>
-        ) : (
-          <>
-            {isConfigured && (
-              <Alert className="mb-6 border-sage/30 bg-sage/10">
-                <CheckCircle2 className="h-4 w-4 text-sage" />
-                <AlertDescription>
-                  Stripe is configured and ready to accept payments. You can update your settings below.
-                </AlertDescription>
-              </Alert>
-            )}
+    <div className="space-y-6">
+      <Card className="mx-auto max-w-2xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Payment Settings
+            {isConfigured && <CheckCircle2 className="h-5 w-5 text-sage" />}
+          </CardTitle>
+          <CardDescription>
+            Configure Stripe to accept credit and debit card payments from your customers.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-sage" />
+            </div>
+          ) : (
+            <>
+              {isConfigured && (
+                <Alert className="mb-6 border-sage/30 bg-sage/10">
+                  <CheckCircle2 className="h-4 w-4 text-sage" />
+                  <AlertDescription>
+                    Stripe is configured and ready to accept payments. You can update your settings below.
+                  </AlertDescription>
+                </Alert>
+              )}
 
-            {!isConfigured && (
-              <Alert className="mb-6 border-terracotta/30 bg-terracotta/10">
-                <AlertCircle className="h-4 w-4 text-terracotta" />
-                <AlertDescription>
-                  Stripe is not configured yet. Please enter your API credentials to enable payments.
-                </AlertDescription>
-              </Alert>
-            )}
+              {!isConfigured && (
+                <Alert className="mb-6 border-terracotta/30 bg-terracotta/10">
+                  <AlertCircle className="h-4 w-4 text-terracotta" />
+                  <AlertDescription>
+                    Stripe is not configured yet. Please enter your API credentials to enable payments.
+                  </AlertDescription>
+                </Alert>
+              )}
 
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="secretKey">Stripe Secret Key</Label>
-                <Input
-                  id="secretKey"
-                  type="password"
-                  placeholder="sk_test_..."
-                  value={secretKey}
-                  onChange={(e) => setSecretKey(e.target.value)}
-                  className="font-mono text-sm"
-                />
-                <p className="text-xs text-muted-foreground">
-                  Your secret key from the Stripe Dashboard. It will be stored securely.
-                </p>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="countries">Allowed Countries</Label>
-                <Input
-                  id="countries"
-                  type="text"
-                  placeholder="US, CA, GB"
-                  value={allowedCountries}
-                  onChange={(e) => setAllowedCountries(e.target.value)}
-                />
-                <p className="text-xs text-muted-foreground">
-                  Comma-separated list of 2-letter country codes (e.g., US, CA, GB, DE, FR).
-                </p>
-              </div>
-
-              <Button
-                type="submit"
-                disabled={setConfigMutation.isPending}
-                className="w-full bg-terracotta hover:bg-terracotta/90"
-              >
-                {setConfigMutation.isPending ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Saving...
-                  </>
-                ) : (
-                  'Save Configuration'
-                )}
-              </Button>
-            </form>
-          </>
-        )}
-      </CardContent>
-    </Card>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="secretKey">Stripe Secret Key</Label>
+                  <Input
+                    id="secretKey"
+                    type="password"
+                    placeholder="sk_test_..."
+                    value={secretKey}
+                    onChange={(e) => setSecretKey(e.target.value)}
+                    className="font-mono text-sm"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Your secret key from the Stripe Dashboard. It will be stored securely.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="countries">Allowed Countries</Label>
+                  <Input
+                    id="countries"
+                    type="text"
+                    placeholder="US, CA, GB"
+                    value={allowedCountries}
+                    onChange={(e) => setAllowedCountries(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Comma-separated list of 2-letter country codes (e.g., US, CA, GB, DE, FR).
+                  </p>
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={setConfigMutation.isPending}
+                  className="w-full bg-terracotta hover:bg-terracotta/90"
+                >
+                  {setConfigMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Save Configuration'
+                  )}
+                </Button>
+              </form>
+            </>
+          )}
+        </CardContent>
+      </Card>
+      <StripeWebhookForm />
+    </div>
   );
 }
@@ -0,0 +1,60 @@
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { isOptionValueAvailable, type VariantSelection } from '../utils/products';
+import type { Product } from '../backend';
+
+interface VariantPickerProps {
+  product: Product;
+  selection: VariantSelection;
+  onSelectionChange: (selection: VariantSelection) => void;
+  compact?: boolean;
+}
+
+export default function VariantPicker({ product, selection, onSelectionChange, compact = false }: VariantPickerProps) {
+  const choose = (optionIndex: number, value: string) => {
+    const next = [...selection];
+    // Clicking the chosen value again clears it, so other options open back up
+    next[optionIndex] = selection[optionIndex] === value ? undefined : value;
+    onSelectionChange(next);
+  };
+
+  return (
+    <div className={cn(compact ? 'space-y-2' : 'space-y-4')}>
+      {product.options.map((option, optionIndex) => (
+        <div key={option.name}>
+          <p className={cn('mb-1.5 font-medium text-foreground', compact ? 'text-xs' : 'text-sm')}>
+            {option.name}
+            {selection[optionIndex] && !compact && (
+              <span className="ml-1 font-normal text-muted-foreground">{selection[optionIndex]}</span>
+            )}
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {option.values.map((value) => {
+              const isSelected = selection[optionIndex] === value;
+              const isAvailable = isOptionValueAvailable(product, selection, optionIndex, value);
+              return (
+                <Button
+                  key={value}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => choose(optionIndex, value)}
+                  disabled={!isAvailable && !isSelected}
+                  aria-pressed={isSelected}
+                  className={cn(
+                    'border-sage/30',
+                    compact && 'h-7 px-2 text-xs',
+                    isSelected && 'border-terracotta bg-terracotta/10 text-terracotta hover:bg-terracotta/15',
+                    !isAvailable && 'line-through'
+                  )}
+                >
+                  {value}
+                </Button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
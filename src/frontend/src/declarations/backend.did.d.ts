@@ -10,38 +10,280 @@ import type { ActorMethod } from '@icp-sdk/core/agent';
 import type { IDL } from '@icp-sdk/core/candid';
 import type { Principal } from '@icp-sdk/core/principal';
 
-export interface BasketItem { 'productId' : string, 'quantity' : bigint }
+export interface AttributeDefinition {
+  'name' : string,
+  'valueType' : AttributeType,
+  'required' : boolean,
+  'choices' : Array<string>,
+}
+export interface AttributeFacet {
+  'name' : string,
+  'values' : Array<AttributeValueCount>,
+}
+export interface AttributeFilter { 'name' : string, 'values' : Array<string> }
+export type AttributeType = { 'text' : null } |
+  { 'boolean' : null } |
+  { 'number' : null } |
+  { 'choice' : null };
+export interface AttributeValueCount {
+  'value' : string,
+  'displayValue' : string,
+  'count' : bigint,
+}
+export interface BasketItem {
+  'productId' : string,
+  'variantSku' : [] | [string],
+  'quantity' : bigint,
+}
+export interface BasketQuote {
+  'tax' : bigint,
+  'total' : bigint,
+  'discountCode' : [] | [string],
+  'shippingMethod' : [] | [string],
+  'shipping' : bigint,
+  'currency' : Currency,
+  'discount' : bigint,
+  'items' : Array<OrderItem>,
+  'subtotal' : bigint,
+}
 export interface Category {
   'name' : string,
   'subcategories' : Array<string>,
   'parent' : [] | [string],
 }
+export interface CategoryCount { 'categoryId' : string, 'count' : bigint }
 export interface CategoryV2 {
   'name' : string,
   'subcategories' : Array<string>,
   'parent' : [] | [string],
 }
+export interface CheckoutSession {
+  'id' : string,
+  'url' : [] | [string],
+  'status' : SessionStatus,
+  'paymentStatus' : PaymentStatus,
+  'amountTotal' : [] | [bigint],
+  'clientReferenceId' : [] | [string],
+  'currency' : [] | [string],
+  'shippingDetails' : [] | [ShippingDetails],
+  'customerEmail' : [] | [string],
+  'paymentIntentId' : [] | [string],
+}
 export type Currency = { 'aud' : null } |
   { 'cad' : null } |
   { 'eur' : null } |
   { 'gbp' : null } |
   { 'usd' : null };
+export interface DescriptionTemplate {
+  'categoryId' : string,
+  'template' : string,
+}
+export interface DescriptionTemplates {
+  'categories' : Array<DescriptionTemplate>,
+  'defaultTemplate' : string,
+}
+export interface DiscountCode {
+  'active' : boolean,
+  'expiresAt' : [] | [bigint],
+  'code' : string,
+  'kind' : DiscountKind,
+  'minimumOrder' : [] | [bigint],
+  'maxUses' : [] | [bigint],
+  'amount' : bigint,
+  'maxUsesPerCustomer' : [] | [bigint],
+  'categoryIds' : Array<string>,
+}
+export interface DiscountCodeUsage {
+  'discountCode' : DiscountCode,
+  'uses' : bigint,
+}
+export type DiscountKind = { 'fixed' : null } |
+  { 'percentage' : null };
 export type ExternalBlob = Uint8Array;
+export type HttpHeader = [string, string];
+export interface HttpRequest {
+  'url' : string,
+  'method' : string,
+  'body' : Uint8Array,
+  'headers' : Array<HttpHeader>,
+}
+export interface HttpResponse {
+  'body' : Uint8Array,
+  'headers' : Array<HttpHeader>,
+  'upgrade' : [] | [boolean],
+  'status_code' : number,
+}
+export interface Order {
+  'id' : string,
+  'tax' : bigint,
+  'status' : OrderStatus,
+  'trackingNumber' : [] | [string],
+  'total' : bigint,
+  'discountCode' : [] | [string],
+  'createdAt' : bigint,
+  'shippingMethod' : [] | [string],
+  'shipping' : bigint,
+  'history' : Array<OrderEvent>,
+  'updatedAt' : bigint,
+  'currency' : Currency,
+  'notes' : string,
+  'discount' : bigint,
+  'buyer' : Principal,
+  'items' : Array<OrderItem>,
+  'stripeSessionId' : string,
+  'refunds' : Array<Refund>,
+  'paymentIntentId' : [] | [string],
+  'subtotal' : bigint,
+}
+export interface OrderEvent {
+  'status' : OrderStatus,
+  'changedAt' : bigint,
+  'changedBy' : Principal,
+  'note' : string,
+}
+export interface OrderFilter {
+  'status' : [] | [OrderStatus],
+  'createdBefore' : [] | [bigint],
+  'createdAfter' : [] | [bigint],
+}
+export interface OrderItem {
+  'productId' : string,
+  'productName' : string,
+  'variantSku' : [] | [string],
+  'quantity' : bigint,
+  'unitPrice' : bigint,
+}
+export type OrderStatus = { 'shipped' : null } |
+  { 'cancelled' : null } |
+  { 'pending' : null } |
+  { 'paid' : null } |
+  { 'refunded' : null } |
+  { 'delivered' : null } |
+  { 'packed' : null };
+export interface PageRequest { 'page' : bigint, 'pageSize' : bigint }
+export type PaymentStatus = { 'paid' : null } |
+  { 'unpaid' : null } |
+  { 'noPaymentRequired' : null };
 export interface PriceConstraint { 'category' : string, 'minPrice' : string }
 export interface Product {
   'id' : string,
   'categoryId' : string,
+  'weight' : bigint,
   'name' : string,
+  'createdAt' : bigint,
+  'sale' : [] | [Sale],
+  'slug' : string,
   'description' : string,
-  'image' : ExternalBlob,
+  'variants' : Array<ProductVariant>,
+  'stock' : bigint,
+  'attributes' : Array<ProductAttribute>,
   'price' : bigint,
+  'options' : Array<ProductOption>,
+  'archived' : boolean,
+  'images' : Array<ExternalBlob>,
 }
-export interface ShoppingItem {
-  'productName' : string,
-  'currency' : string,
+export interface ProductAttribute { 'value' : string, 'name' : string }
+export interface ProductFacets {
+  'categories' : Array<CategoryCount>,
+  'inStock' : bigint,
+  'maxPrice' : bigint,
+  'attributes' : Array<AttributeFacet>,
+  'newArrivals' : bigint,
+  'minPrice' : bigint,
+}
+export interface ProductFilter {
+  'newArrivalsOnly' : boolean,
+  'inStockOnly' : boolean,
+  'maxPrice' : [] | [bigint],
+  'attributes' : Array<AttributeFilter>,
+  'minPrice' : [] | [bigint],
+  'categoryIds' : Array<string>,
+}
+export interface ProductOption { 'name' : string, 'values' : Array<string> }
+export interface ProductResults {
+  'total' : bigint,
+  'page' : bigint,
+  'pageSize' : bigint,
+  'items' : Array<Product>,
+  'facets' : ProductFacets,
+}
+export type ProductSort = { 'newest' : null } |
+  { 'relevance' : null } |
+  { 'nameAsc' : null } |
+  { 'priceDesc' : null } |
+  { 'priceAsc' : null };
+export interface ProductUpdate {
+  'categoryId' : [] | [string],
+  'weight' : [] | [bigint],
+  'name' : [] | [string],
+  'description' : [] | [string],
+  'attributes' : [] | [Array<ProductAttribute>],
+  'price' : [] | [bigint],
+}
+export interface ProductVariant {
+  'sku' : string,
+  'stock' : bigint,
+  'optionValues' : Array<string>,
+  'price' : bigint,
+}
+export type RateBasis = { 'weight' : null } |
+  { 'flat' : null } |
+  { 'orderTotal' : null };
+export interface RateTier { 'fee' : bigint, 'upTo' : bigint }
+export interface Refund {
+  'id' : string,
+  'lines' : Array<RefundLine>,
+  'refundedAt' : bigint,
+  'refundedBy' : Principal,
+  'restocked' : boolean,
+  'amount' : bigint,
+  'reason' : string,
+}
+export interface RefundLine {
+  'productId' : string,
+  'variantSku' : [] | [string],
   'quantity' : bigint,
-  'priceInCents' : bigint,
-  'productDescription' : string,
+}
+export interface RefundRequest {
+  'restock' : boolean,
+  'lines' : Array<RefundLine>,
+  'amount' : [] | [bigint],
+  'reason' : string,
+}
+export interface Sale {
+  'startsAt' : [] | [bigint],
+  'kind' : DiscountKind,
+  'amount' : bigint,
+  'endsAt' : [] | [bigint],
+}
+export type SessionStatus = { 'expired' : null } |
+  { 'open' : null } |
+  { 'complete' : null };
+export interface ShippingAddress {
+  'country' : [] | [string],
+  'city' : [] | [string],
+  'postalCode' : [] | [string],
+  'line1' : [] | [string],
+  'line2' : [] | [string],
+  'state' : [] | [string],
+}
+export interface ShippingChoice { 'country' : string, 'rate' : string }
+export interface ShippingDetails {
+  'name' : [] | [string],
+  'address' : ShippingAddress,
+}
+export interface ShippingQuote { 'fee' : bigint, 'rate' : string }
+export interface ShippingRate {
+  'fee' : bigint,
+  'freeOver' : [] | [bigint],
+  'tiers' : Array<RateTier>,
+  'name' : string,
+  'basis' : RateBasis,
+}
+export interface ShippingZone {
+  'name' : string,
+  'countries' : Array<string>,
+  'rates' : Array<ShippingRate>,
 }
 export interface StoreSettings {
   'currency' : Currency,
@@ -55,7 +297,7 @@ export interface StripeConfiguration {
   'secretKey' : string,
 }
 export type StripeSessionStatus = {
-    'completed' : { 'userPrincipal' : [] | [string], 'response' : string }
+    'completed' : { 'session' : CheckoutSession }
   } |
   { 'failed' : { 'error' : string } };
 export interface TransformationInput {
@@ -107,47 +349,120 @@ export interface _SERVICE {
   '_initializeAccessControlWithSecret' : ActorMethod<[string], undefined>,
   'addAdmin' : ActorMethod<[Principal], undefined>,
   'addCategory' : ActorMethod<[CategoryV2], boolean>,
-  'addProduct' : ActorMethod<[string, bigint, ExternalBlob, string], undefined>,
-  'addToBasket' : ActorMethod<[string, bigint], undefined>,
+  'addProduct' : ActorMethod<
+    [
+      string,
+      bigint,
+      Array<ExternalBlob>,
+      string,
+      bigint,
+      Array<ProductAttribute>,
+      [] | [string],
+    ],
+    undefined
+  >,
+  'addProductImages' : ActorMethod<[string, Array<ExternalBlob>], Product>,
+  'addToBasket' : ActorMethod<[string, [] | [string], bigint], undefined>,
+  'archiveProduct' : ActorMethod<[string, boolean], Product>,
   'assignCallerUserRole' : ActorMethod<[Principal, UserRole], undefined>,
-  'clearBasket' : ActorMethod<[], undefined>,
-  'createCheckoutSession' : ActorMethod<
-    [Array<ShoppingItem>, string, string],
-    string
+  'cancelCheckout' : ActorMethod<[], undefined>,
+  'checkoutBasket' : ActorMethod<
+    [string, string, [] | [ShippingChoice], [] | [string]],
+    CheckoutSession
   >,
+  'clearBasket' : ActorMethod<[], undefined>,
   /**
    * / Only called on init
    */
   'createDefaultCategoriesAndPriceConstraints' : ActorMethod<[], undefined>,
   'deleteCategory' : ActorMethod<[string], undefined>,
+  'deleteDiscountCode' : ActorMethod<[string], undefined>,
+  'deleteProduct' : ActorMethod<[string], undefined>,
   'editCategory' : ActorMethod<[string, Category], undefined>,
   'finishBatchUpload' : ActorMethod<[], undefined>,
   'getAdmins' : ActorMethod<[], Array<Principal>>,
   'getAllProducts' : ActorMethod<[], Array<Product>>,
+  'getAttributeSchema' : ActorMethod<[string], Array<AttributeDefinition>>,
   'getBasket' : ActorMethod<[], Array<BasketItem>>,
   'getCallerUserProfile' : ActorMethod<[], [] | [UserProfile]>,
   'getCallerUserRole' : ActorMethod<[], UserRole>,
   'getCategories' : ActorMethod<[], Array<CategoryV2>>,
   'getCategory' : ActorMethod<[string], [] | [CategoryV2]>,
+  'getCategoryAttributes' : ActorMethod<[string], Array<AttributeDefinition>>,
+  'getDescriptionTemplates' : ActorMethod<[], DescriptionTemplates>,
+  'getMyOrders' : ActorMethod<[], Array<Order>>,
+  'getOrder' : ActorMethod<[string], [] | [Order]>,
   'getPriceConstraint' : ActorMethod<[string], [] | [PriceConstraint]>,
   'getProduct' : ActorMethod<[string], [] | [Product]>,
+  'getProductBySlug' : ActorMethod<[string], [] | [Product]>,
+  'getShippingZones' : ActorMethod<[], Array<ShippingZone>>,
   'getStoreSettings' : ActorMethod<[], [] | [StoreSettings]>,
   'getStripeSessionStatus' : ActorMethod<[string], StripeSessionStatus>,
   'getUserProfile' : ActorMethod<[Principal], [] | [UserProfile]>,
+  'http_request' : ActorMethod<[HttpRequest], HttpResponse>,
+  'http_request_update' : ActorMethod<[HttpRequest], HttpResponse>,
   'isCallerAdmin' : ActorMethod<[], boolean>,
   'isStripeConfigured' : ActorMethod<[], boolean>,
+  'isStripeWebhookConfigured' : ActorMethod<[], boolean>,
+  'listDiscountCodes' : ActorMethod<[], Array<DiscountCodeUsage>>,
+  'listOrders' : ActorMethod<[OrderFilter], Array<Order>>,
+  'listProducts' : ActorMethod<
+    [ProductFilter, ProductSort, PageRequest],
+    ProductResults
+  >,
+  'mergeIntoBasket' : ActorMethod<[Array<BasketItem>], Array<string>>,
+  'quoteBasket' : ActorMethod<
+    [Array<BasketItem>, [] | [ShippingChoice], [] | [string]],
+    BasketQuote
+  >,
+  'quoteShipping' : ActorMethod<
+    [Array<BasketItem>, string],
+    Array<ShippingQuote>
+  >,
+  'refundOrder' : ActorMethod<[string, RefundRequest], Order>,
   'removeAdmin' : ActorMethod<[Principal], undefined>,
-  'removeFromBasket' : ActorMethod<[string], undefined>,
+  'removeFromBasket' : ActorMethod<[string, [] | [string]], undefined>,
+  'removeProductImage' : ActorMethod<[string, bigint], Product>,
   'reorderCategories' : ActorMethod<[Array<CategoryV2>], undefined>,
+  'reorderProductImages' : ActorMethod<[string, Array<bigint>], Product>,
   'saveCallerUserProfile' : ActorMethod<[UserProfile], undefined>,
+  'saveDiscountCode' : ActorMethod<[DiscountCode], undefined>,
+  'searchProducts' : ActorMethod<
+    [string, ProductFilter, ProductSort, PageRequest],
+    ProductResults
+  >,
+  'setCategoryAttributes' : ActorMethod<
+    [string, Array<AttributeDefinition>],
+    undefined
+  >,
+  'setCategorySale' : ActorMethod<[string, [] | [Sale]], bigint>,
+  'setDescriptionTemplate' : ActorMethod<[[] | [string], string], undefined>,
+  'setProductSale' : ActorMethod<[string, [] | [Sale]], Product>,
+  'setProductVariants' : ActorMethod<
+    [string, Array<ProductOption>, Array<ProductVariant>],
+    Product
+  >,
+  'setShippingZones' : ActorMethod<[Array<ShippingZone>], undefined>,
   'setStripeConfiguration' : ActorMethod<[StripeConfiguration], undefined>,
+  'setStripeWebhookSecret' : ActorMethod<[string], undefined>,
   'startBatchUpload' : ActorMethod<[string], undefined>,
   'transform' : ActorMethod<[TransformationInput], TransformationOutput>,
+  'updateBasketQuantity' : ActorMethod<
+    [string, [] | [string], bigint],
+    undefined
+  >,
   'updateCategory' : ActorMethod<[Category], undefined>,
+  'updateOrderFulfillment' : ActorMethod<
+    [string, [] | [string], string],
+    Order
+  >,
+  'updateOrderStatus' : ActorMethod<[string, OrderStatus, string], Order>,
+  'updateProduct' : ActorMethod<[string, ProductUpdate], Product>,
   'updateProductImage' : ActorMethod<[string, ExternalBlob], Product>,
+  'updateProductStock' : ActorMethod<[string, bigint], Product>,
   'updateStoreSettings' : ActorMethod<[StoreSettings], undefined>,
   'uploadProductImage' : ActorMethod<
-    [string, ExternalBlob, bigint, string],
+    [string, ExternalBlob, bigint, string, bigint, Array<ProductAttribute>],
     undefined
   >,
 }
@@ -25,39 +25,135 @@ export const CategoryV2 = IDL.Record({
   'parent' : IDL.Opt(IDL.Text),
 });
 export const ExternalBlob = IDL.Vec(IDL.Nat8);
+export const ProductAttribute = IDL.Record({
+  'value' : IDL.Text,
+  'name' : IDL.Text,
+});
+export const DiscountKind = IDL.Variant({
+  'fixed' : IDL.Null,
+  'percentage' : IDL.Null,
+});
+export const Sale = IDL.Record({
+  'startsAt' : IDL.Opt(IDL.Int),
+  'kind' : DiscountKind,
+  'amount' : IDL.Nat,
+  'endsAt' : IDL.Opt(IDL.Int),
+});
+export const ProductVariant = IDL.Record({
+  'sku' : IDL.Text,
+  'stock' : IDL.Nat,
+  'optionValues' : IDL.Vec(IDL.Text),
+  'price' : IDL.Nat,
+});
+export const ProductOption = IDL.Record({
+  'name' : IDL.Text,
+  'values' : IDL.Vec(IDL.Text),
+});
+export const Product = IDL.Record({
+  'id' : IDL.Text,
+  'categoryId' : IDL.Text,
+  'weight' : IDL.Nat,
+  'name' : IDL.Text,
+  'createdAt' : IDL.Int,
+  'sale' : IDL.Opt(Sale),
+  'slug' : IDL.Text,
+  'description' : IDL.Text,
+  'variants' : IDL.Vec(ProductVariant),
+  'stock' : IDL.Nat,
+  'attributes' : IDL.Vec(ProductAttribute),
+  'price' : IDL.Nat,
+  'options' : IDL.Vec(ProductOption),
+  'archived' : IDL.Bool,
+  'images' : IDL.Vec(ExternalBlob),
+});
 export const UserRole = IDL.Variant({
   'admin' : IDL.Null,
   'user' : IDL.Null,
   'guest' : IDL.Null,
 });
-export const ShoppingItem = IDL.Record({
-  'productName' : IDL.Text,
-  'currency' : IDL.Text,
-  'quantity' : IDL.Nat,
-  'priceInCents' : IDL.Nat,
-  'productDescription' : IDL.Text,
+export const ShippingChoice = IDL.Record({
+  'country' : IDL.Text,
+  'rate' : IDL.Text,
+});
+export const SessionStatus = IDL.Variant({
+  'expired' : IDL.Null,
+  'open' : IDL.Null,
+  'complete' : IDL.Null,
+});
+export const PaymentStatus = IDL.Variant({
+  'paid' : IDL.Null,
+  'unpaid' : IDL.Null,
+  'noPaymentRequired' : IDL.Null,
+});
+export const ShippingAddress = IDL.Record({
+  'country' : IDL.Opt(IDL.Text),
+  'city' : IDL.Opt(IDL.Text),
+  'postalCode' : IDL.Opt(IDL.Text),
+  'line1' : IDL.Opt(IDL.Text),
+  'line2' : IDL.Opt(IDL.Text),
+  'state' : IDL.Opt(IDL.Text),
+});
+export const ShippingDetails = IDL.Record({
+  'name' : IDL.Opt(IDL.Text),
+  'address' : ShippingAddress,
+});
+export const CheckoutSession = IDL.Record({
+  'id' : IDL.Text,
+  'url' : IDL.Opt(IDL.Text),
+  'status' : SessionStatus,
+  'paymentStatus' : PaymentStatus,
+  'amountTotal' : IDL.Opt(IDL.Nat),
+  'clientReferenceId' : IDL.Opt(IDL.Text),
+  'currency' : IDL.Opt(IDL.Text),
+  'shippingDetails' : IDL.Opt(ShippingDetails),
+  'customerEmail' : IDL.Opt(IDL.Text),
+  'paymentIntentId' : IDL.Opt(IDL.Text),
 });
 export const Category = IDL.Record({
   'name' : IDL.Text,
   'subcategories' : IDL.Vec(IDL.Text),
   'parent' : IDL.Opt(IDL.Text),
 });
-export const Product = IDL.Record({
-  'id' : IDL.Text,
-  'categoryId' : IDL.Text,
+export const AttributeType = IDL.Variant({
+  'text' : IDL.Null,
+  'boolean' : IDL.Null,
+  'number' : IDL.Null,
+  'choice' : IDL.Null,
+});
+export const AttributeDefinition = IDL.Record({
   'name' : IDL.Text,
-  'description' : IDL.Text,
-  'image' : ExternalBlob,
-  'price' : IDL.Nat,
+  'valueType' : AttributeType,
+  'required' : IDL.Bool,
+  'choices' : IDL.Vec(IDL.Text),
 });
 export const BasketItem = IDL.Record({
   'productId' : IDL.Text,
+  'variantSku' : IDL.Opt(IDL.Text),
   'quantity' : IDL.Nat,
 });
 export const UserProfile = IDL.Record({ 'name' : IDL.Text });
-export const PriceConstraint = IDL.Record({
-  'category' : IDL.Text,
-  'minPrice' : IDL.Text,
+export const DescriptionTemplate = IDL.Record({
+  'categoryId' : IDL.Text,
+  'template' : IDL.Text,
+});
+export const DescriptionTemplates = IDL.Record({
+  'categories' : IDL.Vec(DescriptionTemplate),
+  'defaultTemplate' : IDL.Text,
+});
+export const OrderStatus = IDL.Variant({
+  'shipped' : IDL.Null,
+  'cancelled' : IDL.Null,
+  'pending' : IDL.Null,
+  'paid' : IDL.Null,
+  'refunded' : IDL.Null,
+  'delivered' : IDL.Null,
+  'packed' : IDL.Null,
+});
+export const OrderEvent = IDL.Record({
+  'status' : OrderStatus,
+  'changedAt' : IDL.Int,
+  'changedBy' : IDL.Principal,
+  'note' : IDL.Text,
 });
 export const Currency = IDL.Variant({
   'aud' : IDL.Null,
@@ -66,6 +162,71 @@ export const Currency = IDL.Variant({
   'gbp' : IDL.Null,
   'usd' : IDL.Null,
 });
+export const OrderItem = IDL.Record({
+  'productId' : IDL.Text,
+  'productName' : IDL.Text,
+  'variantSku' : IDL.Opt(IDL.Text),
+  'quantity' : IDL.Nat,
+  'unitPrice' : IDL.Nat,
+});
+export const RefundLine = IDL.Record({
+  'productId' : IDL.Text,
+  'variantSku' : IDL.Opt(IDL.Text),
+  'quantity' : IDL.Nat,
+});
+export const Refund = IDL.Record({
+  'id' : IDL.Text,
+  'lines' : IDL.Vec(RefundLine),
+  'refundedAt' : IDL.Int,
+  'refundedBy' : IDL.Principal,
+  'restocked' : IDL.Bool,
+  'amount' : IDL.Nat,
+  'reason' : IDL.Text,
+});
+export const Order = IDL.Record({
+  'id' : IDL.Text,
+  'tax' : IDL.Nat,
+  'status' : OrderStatus,
+  'trackingNumber' : IDL.Opt(IDL.Text),
+  'total' : IDL.Nat,
+  'discountCode' : IDL.Opt(IDL.Text),
+  'createdAt' : IDL.Int,
+  'shippingMethod' : IDL.Opt(IDL.Text),
+  'shipping' : IDL.Nat,
+  'history' : IDL.Vec(OrderEvent),
+  'updatedAt' : IDL.Int,
+  'currency' : Currency,
+  'notes' : IDL.Text,
+  'discount' : IDL.Nat,
+  'buyer' : IDL.Principal,
+  'items' : IDL.Vec(OrderItem),
+  'stripeSessionId' : IDL.Text,
+  'refunds' : IDL.Vec(Refund),
+  'paymentIntentId' : IDL.Opt(IDL.Text),
+  'subtotal' : IDL.Nat,
+});
+export const PriceConstraint = IDL.Record({
+  'category' : IDL.Text,
+  'minPrice' : IDL.Text,
+});
+export const RateTier = IDL.Record({ 'fee' : IDL.Nat, 'upTo' : IDL.Nat });
+export const RateBasis = IDL.Variant({
+  'weight' : IDL.Null,
+  'flat' : IDL.Null,
+  'orderTotal' : IDL.Null,
+});
+export const ShippingRate = IDL.Record({
+  'fee' : IDL.Nat,
+  'freeOver' : IDL.Opt(IDL.Nat),
+  'tiers' : IDL.Vec(RateTier),
+  'name' : IDL.Text,
+  'basis' : RateBasis,
+});
+export const ShippingZone = IDL.Record({
+  'name' : IDL.Text,
+  'countries' : IDL.Vec(IDL.Text),
+  'rates' : IDL.Vec(ShippingRate),
+});
 export const StoreSettings = IDL.Record({
   'currency' : Currency,
   'storeName' : IDL.Text,
@@ -74,12 +235,111 @@ export const StoreSettings = IDL.Record({
   'taxRate' : IDL.Float64,
 });
 export const StripeSessionStatus = IDL.Variant({
-  'completed' : IDL.Record({
-    'userPrincipal' : IDL.Opt(IDL.Text),
-    'response' : IDL.Text,
-  }),
+  'completed' : IDL.Record({ 'session' : CheckoutSession }),
   'failed' : IDL.Record({ 'error' : IDL.Text }),
 });
+export const HttpHeader = IDL.Tuple(IDL.Text, IDL.Text);
+export const HttpRequest = IDL.Record({
+  'url' : IDL.Text,
+  'method' : IDL.Text,
+  'body' : IDL.Vec(IDL.Nat8),
+  'headers' : IDL.Vec(HttpHeader),
+});
+export const HttpResponse = IDL.Record({
+  'body' : IDL.Vec(IDL.Nat8),
+  'headers' : IDL.Vec(HttpHeader),
+  'upgrade' : IDL.Opt(IDL.Bool),
+  'status_code' : IDL.Nat16,
+});
+export const DiscountCode = IDL.Record({
+  'active' : IDL.Bool,
+  'expiresAt' : IDL.Opt(IDL.Int),
+  'code' : IDL.Text,
+  'kind' : DiscountKind,
+  'minimumOrder' : IDL.Opt(IDL.Nat),
+  'maxUses' : IDL.Opt(IDL.Nat),
+  'amount' : IDL.Nat,
+  'maxUsesPerCustomer' : IDL.Opt(IDL.Nat),
+  'categoryIds' : IDL.Vec(IDL.Text),
+});
+export const DiscountCodeUsage = IDL.Record({
+  'discountCode' : DiscountCode,
+  'uses' : IDL.Nat,
+});
+export const OrderFilter = IDL.Record({
+  'status' : IDL.Opt(OrderStatus),
+  'createdBefore' : IDL.Opt(IDL.Int),
+  'createdAfter' : IDL.Opt(IDL.Int),
+});
+export const AttributeFilter = IDL.Record({
+  'name' : IDL.Text,
+  'values' : IDL.Vec(IDL.Text),
+});
+export const ProductFilter = IDL.Record({
+  'newArrivalsOnly' : IDL.Bool,
+  'inStockOnly' : IDL.Bool,
+  'maxPrice' : IDL.Opt(IDL.Nat),
+  'attributes' : IDL.Vec(AttributeFilter),
+  'minPrice' : IDL.Opt(IDL.Nat),
+  'categoryIds' : IDL.Vec(IDL.Text),
+});
+export const ProductSort = IDL.Variant({
+  'newest' : IDL.Null,
+  'relevance' : IDL.Null,
+  'nameAsc' : IDL.Null,
+  'priceDesc' : IDL.Null,
+  'priceAsc' : IDL.Null,
+});
+export const PageRequest = IDL.Record({
+  'page' : IDL.Nat,
+  'pageSize' : IDL.Nat,
+});
+export const CategoryCount = IDL.Record({
+  'categoryId' : IDL.Text,
+  'count' : IDL.Nat,
+});
+export const AttributeValueCount = IDL.Record({
+  'value' : IDL.Text,
+  'displayValue' : IDL.Text,
+  'count' : IDL.Nat,
+});
+export const AttributeFacet = IDL.Record({
+  'name' : IDL.Text,
+  'values' : IDL.Vec(AttributeValueCount),
+});
+export const ProductFacets = IDL.Record({
+  'categories' : IDL.Vec(CategoryCount),
+  'inStock' : IDL.Nat,
+  'maxPrice' : IDL.Nat,
+  'attributes' : IDL.Vec(AttributeFacet),
+  'newArrivals' : IDL.Nat,
+  'minPrice' : IDL.Nat,
+});
+export const ProductResults = IDL.Record({
+  'total' : IDL.Nat,
+  'page' : IDL.Nat,
+  'pageSize' : IDL.Nat,
+  'items' : IDL.Vec(Product),
+  'facets' : ProductFacets,
+});
+export const BasketQuote = IDL.Record({
+  'tax' : IDL.Nat,
+  'total' : IDL.Nat,
+  'discountCode' : IDL.Opt(IDL.Text),
+  'shippingMethod' : IDL.Opt(IDL.Text),
+  'shipping' : IDL.Nat,
+  'currency' : Currency,
+  'discount' : IDL.Nat,
+  'items' : IDL.Vec(OrderItem),
+  'subtotal' : IDL.Nat,
+});
+export const ShippingQuote = IDL.Record({ 'fee' : IDL.Nat, 'rate' : IDL.Text });
+export const RefundRequest = IDL.Record({
+  'restock' : IDL.Bool,
+  'lines' : IDL.Vec(RefundLine),
+  'amount' : IDL.Opt(IDL.Nat),
+  'reason' : IDL.Text,
+});
 export const StripeConfiguration = IDL.Record({
   'allowedCountries' : IDL.Vec(IDL.Text),
   'secretKey' : IDL.Text,
@@ -102,6 +362,14 @@ export const TransformationOutput = IDL.Record({
   'body' : IDL.Vec(IDL.Nat8),
   'headers' : IDL.Vec(http_header),
 });
+export const ProductUpdate = IDL.Record({
+  'categoryId' : IDL.Opt(IDL.Text),
+  'weight' : IDL.Opt(IDL.Nat),
+  'name' : IDL.Opt(IDL.Text),
+  'description' : IDL.Opt(IDL.Text),
+  'attributes' : IDL.Opt(IDL.Vec(ProductAttribute)),
+  'price' : IDL.Opt(IDL.Nat),
+});
 
 export const idlService = IDL.Service({
   '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -133,28 +401,64 @@ export const idlService = IDL.Service({
   '_initializeAccessControlWithSecret' : IDL.Func([IDL.Text], [], []),
   'addAdmin' : IDL.Func([IDL.Principal], [], []),
   'addCategory' : IDL.Func([CategoryV2], [IDL.Bool], []),
-  'addProduct' : IDL.Func([IDL.Text, IDL.Nat, ExternalBlob, IDL.Text], [], []),
-  'addToBasket' : IDL.Func([IDL.Text, IDL.Nat], [], []),
+  'addProduct' : IDL.Func(
+      [
+        IDL.Text,
+        IDL.Nat,
+        IDL.Vec(ExternalBlob),
+        IDL.Text,
+        IDL.Nat,
+        IDL.Vec(ProductAttribute),
+        IDL.Opt(IDL.Text),
+      ],
+      [],
+      [],
+    ),
+  'addProductImages' : IDL.Func(
+      [IDL.Text, IDL.Vec(ExternalBlob)],
+      [Product],
+      [],
+    ),
+  'addToBasket' : IDL.Func([IDL.Text, IDL.Opt(IDL.Text), IDL.Nat], [], []),
+  'archiveProduct' : IDL.Func([IDL.Text, IDL.Bool], [Product], []),
   'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
-  'clearBasket' : IDL.Func([], [], []),
-  'createCheckoutSession' : IDL.Func(
-      [IDL.Vec(ShoppingItem), IDL.Text, IDL.Text],
-      [IDL.Text],
+  'cancelCheckout' : IDL.Func([], [], []),
+  'checkoutBasket' : IDL.Func(
+      [IDL.Text, IDL.Text, IDL.Opt(ShippingChoice), IDL.Opt(IDL.Text)],
+      [CheckoutSession],
       [],
     ),
+  'clearBasket' : IDL.Func([], [], []),
   'createDefaultCategoriesAndPriceConstraints' : IDL.Func([], [], []),
   'deleteCategory' : IDL.Func([IDL.Text], [], []),
+  'deleteDiscountCode' : IDL.Func([IDL.Text], [], []),
+  'deleteProduct' : IDL.Func([IDL.Text], [], []),
   'editCategory' : IDL.Func([IDL.Text, Category], [], []),
   'finishBatchUpload' : IDL.Func([], [], []),
   'getAdmins' : IDL.Func([], [IDL.Vec(IDL.Principal)], ['query']),
   'getAllProducts' : IDL.Func([], [IDL.Vec(Product)], ['query']),
+  'getAttributeSchema' : IDL.Func(
+      [IDL.Text],
+      [IDL.Vec(AttributeDefinition)],
+      ['query'],
+    ),
   'getBasket' : IDL.Func([], [IDL.Vec(BasketItem)], ['query']),
   'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
   'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
   'getCategories' : IDL.Func([], [IDL.Vec(CategoryV2)], ['query']),
   'getCategory' : IDL.Func([IDL.Text], [IDL.Opt(CategoryV2)], ['query']),
+  'getCategoryAttributes' : IDL.Func(
+      [IDL.Text],
+      [IDL.Vec(AttributeDefinition)],
+      ['query'],
+    ),
+  'getDescriptionTemplates' : IDL.Func([], [DescriptionTemplates], ['query']),
+  'getMyOrders' : IDL.Func([], [IDL.Vec(Order)], ['query']),
+  'getOrder' : IDL.Func([IDL.Text], [IDL.Opt(Order)], ['query']),
   'getPriceConstraint' : IDL.Func([IDL.Text], [IDL.Opt(PriceConstraint)], []),
   'getProduct' : IDL.Func([IDL.Text], [IDL.Opt(Product)], ['query']),
+  'getProductBySlug' : IDL.Func([IDL.Text], [IDL.Opt(Product)], ['query']),
+  'getShippingZones' : IDL.Func([], [IDL.Vec(ShippingZone)], ['query']),
   'getStoreSettings' : IDL.Func([], [IDL.Opt(StoreSettings)], ['query']),
   'getStripeSessionStatus' : IDL.Func([IDL.Text], [StripeSessionStatus], []),
   'getUserProfile' : IDL.Func(
@@ -162,24 +466,97 @@ export const idlService = IDL.Service({
       [IDL.Opt(UserProfile)],
       ['query'],
     ),
+  'http_request' : IDL.Func([HttpRequest], [HttpResponse], ['query']),
+  'http_request_update' : IDL.Func([HttpRequest], [HttpResponse], []),
   'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
   'isStripeConfigured' : IDL.Func([], [IDL.Bool], ['query']),
+  'isStripeWebhookConfigured' : IDL.Func([], [IDL.Bool], ['query']),
+  'listDiscountCodes' : IDL.Func([], [IDL.Vec(DiscountCodeUsage)], ['query']),
+  'listOrders' : IDL.Func([OrderFilter], [IDL.Vec(Order)], ['query']),
+  'listProducts' : IDL.Func(
+      [ProductFilter, ProductSort, PageRequest],
+      [ProductResults],
+      ['query'],
+    ),
+  'mergeIntoBasket' : IDL.Func([IDL.Vec(BasketItem)], [IDL.Vec(IDL.Text)], []),
+  'quoteBasket' : IDL.Func(
+      [IDL.Vec(BasketItem), IDL.Opt(ShippingChoice), IDL.Opt(IDL.Text)],
+      [BasketQuote],
+      ['query'],
+    ),
+  'quoteShipping' : IDL.Func(
+      [IDL.Vec(BasketItem), IDL.Text],
+      [IDL.Vec(ShippingQuote)],
+      ['query'],
+    ),
+  'refundOrder' : IDL.Func([IDL.Text, RefundRequest], [Order], []),
   'removeAdmin' : IDL.Func([IDL.Principal], [], []),
-  'removeFromBasket' : IDL.Func([IDL.Text], [], []),
+  'removeFromBasket' : IDL.Func([IDL.Text, IDL.Opt(IDL.Text)], [], []),
+  'removeProductImage' : IDL.Func([IDL.Text, IDL.Nat], [Product], []),
   'reorderCategories' : IDL.Func([IDL.Vec(CategoryV2)], [], []),
+  'reorderProductImages' : IDL.Func(
+      [IDL.Text, IDL.Vec(IDL.Nat)],
+      [Product],
+      [],
+    ),
   'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+  'saveDiscountCode' : IDL.Func([DiscountCode], [], []),
+  'searchProducts' : IDL.Func(
+      [IDL.Text, ProductFilter, ProductSort, PageRequest],
+      [ProductResults],
+      ['query'],
+    ),
+  'setCategoryAttributes' : IDL.Func(
+      [IDL.Text, IDL.Vec(AttributeDefinition)],
+      [],
+      [],
+    ),
+  'setCategorySale' : IDL.Func([IDL.Text, IDL.Opt(Sale)], [IDL.Nat], []),
+  'setDescriptionTemplate' : IDL.Func([IDL.Opt(IDL.Text), IDL.Text], [], []),
+  'setProductSale' : IDL.Func([IDL.Text, IDL.Opt(Sale)], [Product], []),
+  'setProductVariants' : IDL.Func(
+      [IDL.Text, IDL.Vec(ProductOption), IDL.Vec(ProductVariant)],
+      [Product],
+      [],
+    ),
+  'setShippingZones' : IDL.Func([IDL.Vec(ShippingZone)], [], []),
   'setStripeConfiguration' : IDL.Func([StripeConfiguration], [], []),
+  'setStripeWebhookSecret' : IDL.Func([IDL.Text], [], []),
   'startBatchUpload' : IDL.Func([IDL.Text], [], []),
   'transform' : IDL.Func(
       [TransformationInput],
       [TransformationOutput],
       ['query'],
     ),
+  'updateBasketQuantity' : IDL.Func(
+      [IDL.Text, IDL.Opt(IDL.Text), IDL.Nat],
+      [],
+      [],
+    ),
   'updateCategory' : IDL.Func([Category], [], []),
+  'updateOrderFulfillment' : IDL.Func(
+      [IDL.Text, IDL.Opt(IDL.Text), IDL.Text],
+      [Order],
+      [],
+    ),
+  'updateOrderStatus' : IDL.Func(
+      [IDL.Text, OrderStatus, IDL.Text],
+      [Order],
+      [],
+    ),
+  'updateProduct' : IDL.Func([IDL.Text, ProductUpdate], [Product], []),
   'updateProductImage' : IDL.Func([IDL.Text, ExternalBlob], [Product], []),
+  'updateProductStock' : IDL.Func([IDL.Text, IDL.Nat], [Product], []),
   'updateStoreSettings' : IDL.Func([StoreSettings], [], []),
   'uploadProductImage' : IDL.Func(
-      [IDL.Text, ExternalBlob, IDL.Nat, IDL.Text],
+      [
+        IDL.Text,
+        ExternalBlob,
+        IDL.Nat,
+        IDL.Text,
+        IDL.Nat,
+        IDL.Vec(ProductAttribute),
+      ],
       [],
       [],
     ),
@@ -205,39 +582,135 @@ export const idlFactory = ({ IDL }) => {
     'parent' : IDL.Opt(IDL.Text),
   });
   const ExternalBlob = IDL.Vec(IDL.Nat8);
+  const ProductAttribute = IDL.Record({
+    'value' : IDL.Text,
+    'name' : IDL.Text,
+  });
+  const DiscountKind = IDL.Variant({
+    'fixed' : IDL.Null,
+    'percentage' : IDL.Null,
+  });
+  const Sale = IDL.Record({
+    'startsAt' : IDL.Opt(IDL.Int),
+    'kind' : DiscountKind,
+    'amount' : IDL.Nat,
+    'endsAt' : IDL.Opt(IDL.Int),
+  });
+  const ProductVariant = IDL.Record({
+    'sku' : IDL.Text,
+    'stock' : IDL.Nat,
+    'optionValues' : IDL.Vec(IDL.Text),
+    'price' : IDL.Nat,
+  });
+  const ProductOption = IDL.Record({
+    'name' : IDL.Text,
+    'values' : IDL.Vec(IDL.Text),
+  });
+  const Product = IDL.Record({
+    'id' : IDL.Text,
+    'categoryId' : IDL.Text,
+    'weight' : IDL.Nat,
+    'name' : IDL.Text,
+    'createdAt' : IDL.Int,
+    'sale' : IDL.Opt(Sale),
+    'slug' : IDL.Text,
+    'description' : IDL.Text,
+    'variants' : IDL.Vec(ProductVariant),
+    'stock' : IDL.Nat,
+    'attributes' : IDL.Vec(ProductAttribute),
+    'price' : IDL.Nat,
+    'options' : IDL.Vec(ProductOption),
+    'archived' : IDL.Bool,
+    'images' : IDL.Vec(ExternalBlob),
+  });
   const UserRole = IDL.Variant({
     'admin' : IDL.Null,
     'user' : IDL.Null,
     'guest' : IDL.Null,
   });
-  const ShoppingItem = IDL.Record({
-    'productName' : IDL.Text,
-    'currency' : IDL.Text,
-    'quantity' : IDL.Nat,
-    'priceInCents' : IDL.Nat,
-    'productDescription' : IDL.Text,
+  const ShippingChoice = IDL.Record({
+    'country' : IDL.Text,
+    'rate' : IDL.Text,
+  });
+  const SessionStatus = IDL.Variant({
+    'expired' : IDL.Null,
+    'open' : IDL.Null,
+    'complete' : IDL.Null,
+  });
+  const PaymentStatus = IDL.Variant({
+    'paid' : IDL.Null,
+    'unpaid' : IDL.Null,
+    'noPaymentRequired' : IDL.Null,
+  });
+  const ShippingAddress = IDL.Record({
+    'country' : IDL.Opt(IDL.Text),
+    'city' : IDL.Opt(IDL.Text),
+    'postalCode' : IDL.Opt(IDL.Text),
+    'line1' : IDL.Opt(IDL.Text),
+    'line2' : IDL.Opt(IDL.Text),
+    'state' : IDL.Opt(IDL.Text),
+  });
+  const ShippingDetails = IDL.Record({
+    'name' : IDL.Opt(IDL.Text),
+    'address' : ShippingAddress,
+  });
+  const CheckoutSession = IDL.Record({
+    'id' : IDL.Text,
+    'url' : IDL.Opt(IDL.Text),
+    'status' : SessionStatus,
+    'paymentStatus' : PaymentStatus,
+    'amountTotal' : IDL.Opt(IDL.Nat),
+    'clientReferenceId' : IDL.Opt(IDL.Text),
+    'currency' : IDL.Opt(IDL.Text),
+    'shippingDetails' : IDL.Opt(ShippingDetails),
+    'customerEmail' : IDL.Opt(IDL.Text),
+    'paymentIntentId' : IDL.Opt(IDL.Text),
   });
   const Category = IDL.Record({
     'name' : IDL.Text,
     'subcategories' : IDL.Vec(IDL.Text),
     'parent' : IDL.Opt(IDL.Text),
   });
-  const Product = IDL.Record({
-    'id' : IDL.Text,
-    'categoryId' : IDL.Text,
+  const AttributeType = IDL.Variant({
+    'text' : IDL.Null,
+    'boolean' : IDL.Null,
+    'number' : IDL.Null,
+    'choice' : IDL.Null,
+  });
+  const AttributeDefinition = IDL.Record({
     'name' : IDL.Text,
-    'description' : IDL.Text,
-    'image' : ExternalBlob,
-    'price' : IDL.Nat,
+    'valueType' : AttributeType,
+    'required' : IDL.Bool,
+    'choices' : IDL.Vec(IDL.Text),
   });
   const BasketItem = IDL.Record({
     'productId' : IDL.Text,
+    'variantSku' : IDL.Opt(IDL.Text),
     'quantity' : IDL.Nat,
   });
   const UserProfile = IDL.Record({ 'name' : IDL.Text });
-  const PriceConstraint = IDL.Record({
-    'category' : IDL.Text,
-    'minPrice' : IDL.Text,
+  const DescriptionTemplate = IDL.Record({
+    'categoryId' : IDL.Text,
+    'template' : IDL.Text,
+  });
+  const DescriptionTemplates = IDL.Record({
+    'categories' : IDL.Vec(DescriptionTemplate),
+    'defaultTemplate' : IDL.Text,
+  });
+  const OrderStatus = IDL.Variant({
+    'shipped' : IDL.Null,
+    'cancelled' : IDL.Null,
+    'pending' : IDL.Null,
+    'paid' : IDL.Null,
+    'refunded' : IDL.Null,
+    'delivered' : IDL.Null,
+    'packed' : IDL.Null,
+  });
+  const OrderEvent = IDL.Record({
+    'status' : OrderStatus,
+    'changedAt' : IDL.Int,
+    'changedBy' : IDL.Principal,
+    'note' : IDL.Text,
   });
   const Currency = IDL.Variant({
     'aud' : IDL.Null,
@@ -246,6 +719,71 @@ export const idlFactory = ({ IDL }) => {
     'gbp' : IDL.Null,
     'usd' : IDL.Null,
   });
+  const OrderItem = IDL.Record({
+    'productId' : IDL.Text,
+    'productName' : IDL.Text,
+    'variantSku' : IDL.Opt(IDL.Text),
+    'quantity' : IDL.Nat,
+    'unitPrice' : IDL.Nat,
+  });
+  const RefundLine = IDL.Record({
+    'productId' : IDL.Text,
+    'variantSku' : IDL.Opt(IDL.Text),
+    'quantity' : IDL.Nat,
+  });
+  const Refund = IDL.Record({
+    'id' : IDL.Text,
+    'lines' : IDL.Vec(RefundLine),
+    'refundedAt' : IDL.Int,
+    'refundedBy' : IDL.Principal,
+    'restocked' : IDL.Bool,
+    'amount' : IDL.Nat,
+    'reason' : IDL.Text,
+  });
+  const Order = IDL.Record({
+    'id' : IDL.Text,
+    'tax' : IDL.Nat,
+    'status' : OrderStatus,
+    'trackingNumber' : IDL.Opt(IDL.Text),
+    'total' : IDL.Nat,
+    'discountCode' : IDL.Opt(IDL.Text),
+    'createdAt' : IDL.Int,
+    'shippingMethod' : IDL.Opt(IDL.Text),
+    'shipping' : IDL.Nat,
+    'history' : IDL.Vec(OrderEvent),
+    'updatedAt' : IDL.Int,
+    'currency' : Currency,
+    'notes' : IDL.Text,
+    'discount' : IDL.Nat,
+    'buyer' : IDL.Principal,
+    'items' : IDL.Vec(OrderItem),
+    'stripeSessionId' : IDL.Text,
+    'refunds' : IDL.Vec(Refund),
+    'paymentIntentId' : IDL.Opt(IDL.Text),
+    'subtotal' : IDL.Nat,
+  });
+  const PriceConstraint = IDL.Record({
+    'category' : IDL.Text,
+    'minPrice' : IDL.Text,
+  });
+  const RateTier = IDL.Record({ 'fee' : IDL.Nat, 'upTo' : IDL.Nat });
+  const RateBasis = IDL.Variant({
+    'weight' : IDL.Null,
+    'flat' : IDL.Null,
+    'orderTotal' : IDL.Null,
+  });
+  const ShippingRate = IDL.Record({
+    'fee' : IDL.Nat,
+    'freeOver' : IDL.Opt(IDL.Nat),
+    'tiers' : IDL.Vec(RateTier),
+    'name' : IDL.Text,
+    'basis' : RateBasis,
+  });
+  const ShippingZone = IDL.Record({
+    'name' : IDL.Text,
+    'countries' : IDL.Vec(IDL.Text),
+    'rates' : IDL.Vec(ShippingRate),
+  });
   const StoreSettings = IDL.Record({
     'currency' : Currency,
     'storeName' : IDL.Text,
@@ -254,12 +792,108 @@ export const idlFactory = ({ IDL }) => {
     'taxRate' : IDL.Float64,
   });
   const StripeSessionStatus = IDL.Variant({
-    'completed' : IDL.Record({
-      'userPrincipal' : IDL.Opt(IDL.Text),
-      'response' : IDL.Text,
-    }),
+    'completed' : IDL.Record({ 'session' : CheckoutSession }),
     'failed' : IDL.Record({ 'error' : IDL.Text }),
   });
+  const HttpHeader = IDL.Tuple(IDL.Text, IDL.Text);
+  const HttpRequest = IDL.Record({
+    'url' : IDL.Text,
+    'method' : IDL.Text,
+    'body' : IDL.Vec(IDL.Nat8),
+    'headers' : IDL.Vec(HttpHeader),
+  });
+  const HttpResponse = IDL.Record({
+    'body' : IDL.Vec(IDL.Nat8),
+    'headers' : IDL.Vec(HttpHeader),
+    'upgrade' : IDL.Opt(IDL.Bool),
+    'status_code' : IDL.Nat16,
+  });
+  const DiscountCode = IDL.Record({
+    'active' : IDL.Bool,
+    'expiresAt' : IDL.Opt(IDL.Int),
+    'code' : IDL.Text,
+    'kind' : DiscountKind,
+    'minimumOrder' : IDL.Opt(IDL.Nat),
+    'maxUses' : IDL.Opt(IDL.Nat),
+    'amount' : IDL.Nat,
+    'maxUsesPerCustomer' : IDL.Opt(IDL.Nat),
+    'categoryIds' : IDL.Vec(IDL.Text),
+  });
+  const DiscountCodeUsage = IDL.Record({
+    'discountCode' : DiscountCode,
+    'uses' : IDL.Nat,
+  });
+  const OrderFilter = IDL.Record({
+    'status' : IDL.Opt(OrderStatus),
+    'createdBefore' : IDL.Opt(IDL.Int),
+    'createdAfter' : IDL.Opt(IDL.Int),
+  });
+  const AttributeFilter = IDL.Record({
+    'name' : IDL.Text,
+    'values' : IDL.Vec(IDL.Text),
+  });
+  const ProductFilter = IDL.Record({
+    'newArrivalsOnly' : IDL.Bool,
+    'inStockOnly' : IDL.Bool,
+    'maxPrice' : IDL.Opt(IDL.Nat),
+    'attributes' : IDL.Vec(AttributeFilter),
+    'minPrice' : IDL.Opt(IDL.Nat),
+    'categoryIds' : IDL.Vec(IDL.Text),
+  });
+  const ProductSort = IDL.Variant({
+    'newest' : IDL.Null,
+    'relevance' : IDL.Null,
+    'nameAsc' : IDL.Null,
+    'priceDesc' : IDL.Null,
+    'priceAsc' : IDL.Null,
+  });
+  const PageRequest = IDL.Record({ 'page' : IDL.Nat, 'pageSize' : IDL.Nat });
+  const CategoryCount = IDL.Record({
+    'categoryId' : IDL.Text,
+    'count' : IDL.Nat,
+  });
+  const AttributeValueCount = IDL.Record({
+    'value' : IDL.Text,
+    'displayValue' : IDL.Text,
+    'count' : IDL.Nat,
+  });
+  const AttributeFacet = IDL.Record({
+    'name' : IDL.Text,
+    'values' : IDL.Vec(AttributeValueCount),
+  });
+  const ProductFacets = IDL.Record({
+    'categories' : IDL.Vec(CategoryCount),
+    'inStock' : IDL.Nat,
+    'maxPrice' : IDL.Nat,
+    'attributes' : IDL.Vec(AttributeFacet),
+    'newArrivals' : IDL.Nat,
+    'minPrice' : IDL.Nat,
+  });
+  const ProductResults = IDL.Record({
+    'total' : IDL.Nat,
+    'page' : IDL.Nat,
+    'pageSize' : IDL.Nat,
+    'items' : IDL.Vec(Product),
+    'facets' : ProductFacets,
+  });
+  const BasketQuote = IDL.Record({
+    'tax' : IDL.Nat,
+    'total' : IDL.Nat,
+    'discountCode' : IDL.Opt(IDL.Text),
+    'shippingMethod' : IDL.Opt(IDL.Text),
+    'shipping' : IDL.Nat,
+    'currency' : Currency,
+    'discount' : IDL.Nat,
+    'items' : IDL.Vec(OrderItem),
+    'subtotal' : IDL.Nat,
+  });
+  const ShippingQuote = IDL.Record({ 'fee' : IDL.Nat, 'rate' : IDL.Text });
+  const RefundRequest = IDL.Record({
+    'restock' : IDL.Bool,
+    'lines' : IDL.Vec(RefundLine),
+    'amount' : IDL.Opt(IDL.Nat),
+    'reason' : IDL.Text,
+  });
   const StripeConfiguration = IDL.Record({
     'allowedCountries' : IDL.Vec(IDL.Text),
     'secretKey' : IDL.Text,
@@ -279,6 +913,14 @@ export const idlFactory = ({ IDL }) => {
     'body' : IDL.Vec(IDL.Nat8),
     'headers' : IDL.Vec(http_header),
   });
+  const ProductUpdate = IDL.Record({
+    'categoryId' : IDL.Opt(IDL.Text),
+    'weight' : IDL.Opt(IDL.Nat),
+    'name' : IDL.Opt(IDL.Text),
+    'description' : IDL.Opt(IDL.Text),
+    'attributes' : IDL.Opt(IDL.Vec(ProductAttribute)),
+    'price' : IDL.Opt(IDL.Nat),
+  });
   
   return IDL.Service({
     '_caffeineStorageBlobIsLive' : IDL.Func(
@@ -311,31 +953,63 @@ export const idlFactory = ({ IDL }) => {
     'addAdmin' : IDL.Func([IDL.Principal], [], []),
     'addCategory' : IDL.Func([CategoryV2], [IDL.Bool], []),
     'addProduct' : IDL.Func(
-        [IDL.Text, IDL.Nat, ExternalBlob, IDL.Text],
+        [
+          IDL.Text,
+          IDL.Nat,
+          IDL.Vec(ExternalBlob),
+          IDL.Text,
+          IDL.Nat,
+          IDL.Vec(ProductAttribute),
+          IDL.Opt(IDL.Text),
+        ],
+        [],
         [],
+      ),
+    'addProductImages' : IDL.Func(
+        [IDL.Text, IDL.Vec(ExternalBlob)],
+        [Product],
         [],
       ),
-    'addToBasket' : IDL.Func([IDL.Text, IDL.Nat], [], []),
+    'addToBasket' : IDL.Func([IDL.Text, IDL.Opt(IDL.Text), IDL.Nat], [], []),
+    'archiveProduct' : IDL.Func([IDL.Text, IDL.Bool], [Product], []),
     'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
-    'clearBasket' : IDL.Func([], [], []),
-    'createCheckoutSession' : IDL.Func(
-        [IDL.Vec(ShoppingItem), IDL.Text, IDL.Text],
-        [IDL.Text],
+    'cancelCheckout' : IDL.Func([], [], []),
+    'checkoutBasket' : IDL.Func(
+        [IDL.Text, IDL.Text, IDL.Opt(ShippingChoice), IDL.Opt(IDL.Text)],
+        [CheckoutSession],
         [],
       ),
+    'clearBasket' : IDL.Func([], [], []),
     'createDefaultCategoriesAndPriceConstraints' : IDL.Func([], [], []),
     'deleteCategory' : IDL.Func([IDL.Text], [], []),
+    'deleteDiscountCode' : IDL.Func([IDL.Text], [], []),
+    'deleteProduct' : IDL.Func([IDL.Text], [], []),
     'editCategory' : IDL.Func([IDL.Text, Category], [], []),
     'finishBatchUpload' : IDL.Func([], [], []),
     'getAdmins' : IDL.Func([], [IDL.Vec(IDL.Principal)], ['query']),
     'getAllProducts' : IDL.Func([], [IDL.Vec(Product)], ['query']),
+    'getAttributeSchema' : IDL.Func(
+        [IDL.Text],
+        [IDL.Vec(AttributeDefinition)],
+        ['query'],
+      ),
     'getBasket' : IDL.Func([], [IDL.Vec(BasketItem)], ['query']),
     'getCallerUserProfile' : IDL.Func([], [IDL.Opt(UserProfile)], ['query']),
     'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
     'getCategories' : IDL.Func([], [IDL.Vec(CategoryV2)], ['query']),
     'getCategory' : IDL.Func([IDL.Text], [IDL.Opt(CategoryV2)], ['query']),
+    'getCategoryAttributes' : IDL.Func(
+        [IDL.Text],
+        [IDL.Vec(AttributeDefinition)],
+        ['query'],
+      ),
+    'getDescriptionTemplates' : IDL.Func([], [DescriptionTemplates], ['query']),
+    'getMyOrders' : IDL.Func([], [IDL.Vec(Order)], ['query']),
+    'getOrder' : IDL.Func([IDL.Text], [IDL.Opt(Order)], ['query']),
     'getPriceConstraint' : IDL.Func([IDL.Text], [IDL.Opt(PriceConstraint)], []),
     'getProduct' : IDL.Func([IDL.Text], [IDL.Opt(Product)], ['query']),
+    'getProductBySlug' : IDL.Func([IDL.Text], [IDL.Opt(Product)], ['query']),
+    'getShippingZones' : IDL.Func([], [IDL.Vec(ShippingZone)], ['query']),
     'getStoreSettings' : IDL.Func([], [IDL.Opt(StoreSettings)], ['query']),
     'getStripeSessionStatus' : IDL.Func([IDL.Text], [StripeSessionStatus], []),
     'getUserProfile' : IDL.Func(
@@ -343,24 +1017,101 @@ export const idlFactory = ({ IDL }) => {
         [IDL.Opt(UserProfile)],
         ['query'],
       ),
+    'http_request' : IDL.Func([HttpRequest], [HttpResponse], ['query']),
+    'http_request_update' : IDL.Func([HttpRequest], [HttpResponse], []),
     'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
     'isStripeConfigured' : IDL.Func([], [IDL.Bool], ['query']),
+    'isStripeWebhookConfigured' : IDL.Func([], [IDL.Bool], ['query']),
+    'listDiscountCodes' : IDL.Func([], [IDL.Vec(DiscountCodeUsage)], ['query']),
+    'listOrders' : IDL.Func([OrderFilter], [IDL.Vec(Order)], ['query']),
+    'listProducts' : IDL.Func(
+        [ProductFilter, ProductSort, PageRequest],
+        [ProductResults],
+        ['query'],
+      ),
+    'mergeIntoBasket' : IDL.Func(
+        [IDL.Vec(BasketItem)],
+        [IDL.Vec(IDL.Text)],
+        [],
+      ),
+    'quoteBasket' : IDL.Func(
+        [IDL.Vec(BasketItem), IDL.Opt(ShippingChoice), IDL.Opt(IDL.Text)],
+        [BasketQuote],
+        ['query'],
+      ),
+    'quoteShipping' : IDL.Func(
+        [IDL.Vec(BasketItem), IDL.Text],
+        [IDL.Vec(ShippingQuote)],
+        ['query'],
+      ),
+    'refundOrder' : IDL.Func([IDL.Text, RefundRequest], [Order], []),
     'removeAdmin' : IDL.Func([IDL.Principal], [], []),
-    'removeFromBasket' : IDL.Func([IDL.Text], [], []),
+    'removeFromBasket' : IDL.Func([IDL.Text, IDL.Opt(IDL.Text)], [], []),
+    'removeProductImage' : IDL.Func([IDL.Text, IDL.Nat], [Product], []),
     'reorderCategories' : IDL.Func([IDL.Vec(CategoryV2)], [], []),
+    'reorderProductImages' : IDL.Func(
+        [IDL.Text, IDL.Vec(IDL.Nat)],
+        [Product],
+        [],
+      ),
     'saveCallerUserProfile' : IDL.Func([UserProfile], [], []),
+    'saveDiscountCode' : IDL.Func([DiscountCode], [], []),
+    'searchProducts' : IDL.Func(
+        [IDL.Text, ProductFilter, ProductSort, PageRequest],
+        [ProductResults],
+        ['query'],
+      ),
+    'setCategoryAttributes' : IDL.Func(
+        [IDL.Text, IDL.Vec(AttributeDefinition)],
+        [],
+        [],
+      ),
+    'setCategorySale' : IDL.Func([IDL.Text, IDL.Opt(Sale)], [IDL.Nat], []),
+    'setDescriptionTemplate' : IDL.Func([IDL.Opt(IDL.Text), IDL.Text], [], []),
+    'setProductSale' : IDL.Func([IDL.Text, IDL.Opt(Sale)], [Product], []),
+    'setProductVariants' : IDL.Func(
+        [IDL.Text, IDL.Vec(ProductOption), IDL.Vec(ProductVariant)],
+        [Product],
+        [],
+      ),
+    'setShippingZones' : IDL.Func([IDL.Vec(ShippingZone)], [], []),
     'setStripeConfiguration' : IDL.Func([StripeConfiguration], [], []),
+    'setStripeWebhookSecret' : IDL.Func([IDL.Text], [], []),
     'startBatchUpload' : IDL.Func([IDL.Text], [], []),
     'transform' : IDL.Func(
         [TransformationInput],
         [TransformationOutput],
         ['query'],
       ),
+    'updateBasketQuantity' : IDL.Func(
+        [IDL.Text, IDL.Opt(IDL.Text), IDL.Nat],
+        [],
+        [],
+      ),
     'updateCategory' : IDL.Func([Category], [], []),
+    'updateOrderFulfillment' : IDL.Func(
+        [IDL.Text, IDL.Opt(IDL.Text), IDL.Text],
+        [Order],
+        [],
+      ),
+    'updateOrderStatus' : IDL.Func(
+        [IDL.Text, OrderStatus, IDL.Text],
+        [Order],
+        [],
+      ),
+    'updateProduct' : IDL.Func([IDL.Text, ProductUpdate], [Product], []),
     'updateProductImage' : IDL.Func([IDL.Text, ExternalBlob], [Product], []),
+    'updateProductStock' : IDL.Func([IDL.Text, IDL.Nat], [Product], []),
     'updateStoreSettings' : IDL.Func([StoreSettings], [], []),
     'uploadProductImage' : IDL.Func(
-        [IDL.Text, ExternalBlob, IDL.Nat, IDL.Text],
+        [
+          IDL.Text,
+          ExternalBlob,
+          IDL.Nat,
+          IDL.Text,
+          IDL.Nat,
+          IDL.Vec(ProductAttribute),
+        ],
         [],
         [],
       ),
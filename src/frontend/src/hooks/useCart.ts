@@ -1,42 +1,110 @@
+import { useEffect, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useActor } from './useActor';
+import { useInternetIdentity } from './useInternetIdentity';
+import { loadGuestCart, saveGuestCart } from '../utils/guestCart';
 import type { BasketItem } from '../backend';
 
+type BasketLine = {
+  productId: string;
+  // Required for products with variants
+  variantSku?: string | null;
+};
+
+function isLine(item: BasketItem, { productId, variantSku = null }: BasketLine): boolean {
+  return item.productId === productId && (item.variantSku ?? null) === variantSku;
+}
+
+function addLine(items: BasketItem[], line: BasketLine, quantity: bigint): BasketItem[] {
+  return items.some((item) => isLine(item, line))
+    ? items.map((item) => (isLine(item, line) ? { ...item, quantity: item.quantity + quantity } : item))
+    : [...items, { productId: line.productId, variantSku: line.variantSku ?? undefined, quantity }];
+}
+
+function setLineQuantity(items: BasketItem[], line: BasketLine, quantity: bigint): BasketItem[] {
+  return quantity === 0n
+    ? removeLine(items, line)
+    : items.map((item) => (isLine(item, line) ? { ...item, quantity } : item));
+}
+
+function removeLine(items: BasketItem[], line: BasketLine): BasketItem[] {
+  return items.filter((item) => !isLine(item, line));
+}
+
+/**
+ * The basket of the logged-in user, or for visitors a cart kept in the browser until they log in
+ */
 export function useCart() {
   const { actor, isFetching: actorFetching } = useActor();
+  const { identity } = useInternetIdentity();
   const queryClient = useQueryClient();
+  // Keyed by principal so a previous user's basket is never shown after logging out
+  const basketKey = ['basket', identity?.getPrincipal().toString()];
 
   const { data: basketItems = [], isLoading } = useQuery<BasketItem[]>({
-    queryKey: ['basket'],
+    queryKey: basketKey,
     queryFn: async () => {
+      if (!identity) return loadGuestCart();
       if (!actor) return [];
       return actor.getBasket();
     },
-    enabled: !!actor && !actorFetching,
+    enabled: !identity || (!!actor && !actorFetching),
   });
 
+  const updateGuestCart = (update: (items: BasketItem[]) => BasketItem[]) => {
+    saveGuestCart(update(loadGuestCart()));
+  };
+
+  // Applies a change to the cached basket straight away and returns a rollback for when the call fails
+  const updateCachedBasket = async (update: (items: BasketItem[]) => BasketItem[]) => {
+    await queryClient.cancelQueries({ queryKey: basketKey });
+    const previous = queryClient.getQueryData<BasketItem[]>(basketKey);
+    queryClient.setQueryData<BasketItem[]>(basketKey, (items = []) => update(items));
+    return { previous };
+  };
+
+  const optimisticHandlers = {
+    onError: (_error: unknown, _variables: unknown, context?: { previous?: BasketItem[] }) => {
+      queryClient.setQueryData(basketKey, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['basket'] });
+    },
+  };
+
   const addToBasket = useMutation({
-    mutationFn: async ({ productId, quantity }: { productId: string; quantity: bigint }) => {
+    mutationFn: async ({ productId, variantSku = null, quantity }: BasketLine & { quantity: bigint }) => {
+      if (!identity) return updateGuestCart((items) => addLine(items, { productId, variantSku }, quantity));
       if (!actor) throw new Error('Actor not available');
-      await actor.addToBasket(productId, quantity);
+      await actor.addToBasket(productId, variantSku, quantity);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['basket'] });
+    onMutate: (line) => updateCachedBasket((items) => addLine(items, line, line.quantity)),
+    ...optimisticHandlers,
+  });
+
+  const updateQuantity = useMutation({
+    mutationFn: async ({ productId, variantSku = null, quantity }: BasketLine & { quantity: bigint }) => {
+      if (!identity) return updateGuestCart((items) => setLineQuantity(items, { productId, variantSku }, quantity));
+      if (!actor) throw new Error('Actor not available');
+      await actor.updateBasketQuantity(productId, variantSku, quantity);
     },
+    onMutate: (line) => updateCachedBasket((items) => setLineQuantity(items, line, line.quantity)),
+    ...optimisticHandlers,
   });
 
   const removeFromBasket = useMutation({
-    mutationFn: async (productId: string) => {
+    mutationFn: async ({ productId, variantSku = null }: BasketLine) => {
+      if (!identity) return updateGuestCart((items) => removeLine(items, { productId, variantSku }));
       if (!actor) throw new Error('Actor not available');
-      await actor.removeFromBasket(productId);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['basket'] });
+      await actor.removeFromBasket(productId, variantSku);
     },
+    onMutate: (line) => updateCachedBasket((items) => removeLine(items, line)),
+    ...optimisticHandlers,
   });
 
   const clearBasket = useMutation({
     mutationFn: async () => {
+      if (!identity) return saveGuestCart([]);
       if (!actor) throw new Error('Actor not available');
       await actor.clearBasket();
     },
@@ -47,14 +115,50 @@ export function useCart() {
 
   const itemCount = basketItems.reduce((sum, item) => sum + Number(item.quantity), 0);
 
+  const quantityInBasket = (line: BasketLine) =>
+    Number(basketItems.find((item) => isLine(item, line))?.quantity ?? 0n);
+
   return {
     basketItems,
     itemCount,
+    quantityInBasket,
     isLoading,
     addToBasket: addToBasket.mutateAsync,
+    updateQuantity: updateQuantity.mutateAsync,
     removeFromBasket: removeFromBasket.mutateAsync,
     clearBasket: clearBasket.mutateAsync,
     isAddingToBasket: addToBasket.isPending,
     isRemovingFromBasket: removeFromBasket.isPending,
   };
 }
+
+/**
+ * Moves the guest cart into the user's basket once they have logged in. Reports the names of items
+ * that could not be added in full because they sold out or are no longer available.
+ */
+export function useGuestCartMerge(onAdjusted: (names: string[]) => void) {
+  const { actor, isFetching } = useActor();
+  const { identity } = useInternetIdentity();
+  const queryClient = useQueryClient();
+  const isMerging = useRef(false);
+
+  useEffect(() => {
+    // The actor is recreated for the new identity, so wait until it has been
+    if (!identity || !actor || isFetching || isMerging.current) return;
+    const guestItems = loadGuestCart();
+    if (guestItems.length === 0) return;
+
+    isMerging.current = true;
+    actor
+      .mergeIntoBasket(guestItems)
+      .then((adjusted) => {
+        saveGuestCart([]);
+        queryClient.invalidateQueries({ queryKey: ['basket'] });
+        if (adjusted.length > 0) onAdjusted(adjusted);
+      })
+      .catch((error) => console.warn('Failed to merge guest cart:', error))
+      .finally(() => {
+        isMerging.current = false;
+      });
+  }, [identity, actor, isFetching]);
+}
@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useActor } from './useActor';
+import type { AttributeDefinition } from '../backend';
+
+/**
+ * Every attribute a product in the category can have, including those inherited from its parent category
+ */
+export function useAttributeSchema(categoryId: string) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<AttributeDefinition[]>({
+    queryKey: ['attributeSchema', categoryId],
+    queryFn: async () => {
+      if (!actor || !categoryId) return [];
+      return actor.getAttributeSchema(categoryId);
+    },
+    enabled: !!actor && !isFetching && !!categoryId,
+  });
+}
+
+/**
+ * The attributes a category defines itself, for editing its schema
+ */
+export function useCategoryAttributes(categoryId: string) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<AttributeDefinition[]>({
+    queryKey: ['categoryAttributes', categoryId],
+    queryFn: async () => {
+      if (!actor || !categoryId) return [];
+      return actor.getCategoryAttributes(categoryId);
+    },
+    enabled: !!actor && !isFetching && !!categoryId,
+  });
+}
+
+export function useSetCategoryAttributes() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ categoryId, attributes }: { categoryId: string; attributes: AttributeDefinition[] }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      await actor.setCategoryAttributes(categoryId, attributes);
+    },
+    onSuccess: () => {
+      // Subcategories inherit the schema, so every cached schema may have changed
+      queryClient.invalidateQueries({ queryKey: ['categoryAttributes'] });
+      queryClient.invalidateQueries({ queryKey: ['attributeSchema'] });
+    },
+  });
+}
@@ -1,28 +1,116 @@
-import { useMutation } from '@tanstack/react-query';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useActor } from './useActor';
-import type { ShoppingItem } from '../backend';
+import { PaymentStatus, SessionStatus } from '../backend';
+import type { BasketItem, BasketQuote, CheckoutSession, ShippingChoice } from '../backend';
+import { basketItemsKey } from '../utils/shipping';
 
-export type CheckoutSession = {
-  id: string;
-  url: string;
+export type CheckoutOptions = {
+  // Required once the store has shipping zones
+  shipping?: ShippingChoice | null;
+  discountCode?: string | null;
 };
 
 export function useCreateCheckoutSession() {
   const { actor } = useActor();
 
   return useMutation({
-    mutationFn: async (items: ShoppingItem[]): Promise<CheckoutSession> => {
+    mutationFn: async ({ shipping = null, discountCode = null }: CheckoutOptions): Promise<CheckoutSession> => {
       if (!actor) throw new Error('Actor not available');
       const baseUrl = `${window.location.protocol}//${window.location.host}`;
-      const successUrl = `${baseUrl}/payment-success`;
+      // Stripe replaces the placeholder with the session id, so the success page can check the payment went through
+      const successUrl = `${baseUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}`;
       const cancelUrl = `${baseUrl}/payment-failure`;
-      const result = await actor.createCheckoutSession(items, successUrl, cancelUrl);
-      // JSON parsing is important!
-      const session = JSON.parse(result) as CheckoutSession;
-      if (!session?.url) {
+      const session = await actor.checkoutBasket(successUrl, cancelUrl, shipping, discountCode);
+      if (!session.url) {
         throw new Error('Stripe session missing url');
       }
       return session;
     },
   });
 }
+
+// Pending covers sessions that are still open and payment methods, such as bank debits, that have not cleared yet
+export type CheckoutSessionState = 'paid' | 'pending' | 'expired';
+
+export function checkoutSessionState(session: CheckoutSession): CheckoutSessionState {
+  if (session.paymentStatus === PaymentStatus.paid) return 'paid';
+  // A total that came to nothing, e.g. after a 100% discount code, is settled without a payment
+  if (session.status === SessionStatus.complete && session.paymentStatus === PaymentStatus.noPaymentRequired) {
+    return 'paid';
+  }
+  if (session.status === SessionStatus.expired) return 'expired';
+  return 'pending';
+}
+
+/**
+ * Asks the backend where a Stripe checkout session stands. Checking also settles the order: a paid session
+ * marks it paid and takes its items out of the basket, and an expired one cancels it.
+ */
+export function useCheckCheckoutSession() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: string): Promise<CheckoutSession> => {
+      if (!actor) throw new Error('Actor not available');
+      const status = await actor.getStripeSessionStatus(sessionId);
+      if (status.__kind__ === 'failed') {
+        throw new Error(status.failed.error);
+      }
+      return status.completed.session;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['myOrders'] });
+      queryClient.invalidateQueries({ queryKey: ['order'] });
+      queryClient.invalidateQueries({ queryKey: ['basket'] });
+    },
+  });
+}
+
+/**
+ * Closes the buyer's unpaid checkout after they leave Stripe, cancelling its order so the items it held go back
+ * into stock straight away instead of when the session expires.
+ */
+export function useCancelCheckout() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      await actor.cancelCheckout();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['myOrders'] });
+      queryClient.invalidateQueries({ queryKey: ['order'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product'] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+      queryClient.invalidateQueries({ queryKey: ['basketQuote'] });
+    },
+  });
+}
+
+/**
+ * Subtotal, discount, tax, shipping and total for the cart, priced by the backend exactly as checkout charges them.
+ * Fails with the reason when an item can no longer be bought, e.g. because it sold out, or the discount code cannot be used.
+ */
+export function useBasketQuote(
+  items: BasketItem[],
+  shipping: ShippingChoice | null = null,
+  discountCode: string | null = null
+) {
+  const { actor, isFetching: actorFetching } = useActor();
+
+  return useQuery<BasketQuote>({
+    queryKey: ['basketQuote', basketItemsKey(items), shipping?.country, shipping?.rate, discountCode],
+    queryFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      return actor.quoteBasket(items, shipping, discountCode);
+    },
+    enabled: !!actor && !actorFetching && items.length > 0,
+    // Keeps the previous totals on screen while a quantity change is priced
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+}
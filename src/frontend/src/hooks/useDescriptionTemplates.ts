@@ -0,0 +1,60 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useActor } from './useActor';
+import { useCategories } from './useQueries';
+import { useSettingsQuery } from './useSettings';
+import { descriptionTemplateFor, renderDescriptionTemplate } from '../utils/descriptions';
+import type { AttributeValues } from '../utils/attributes';
+import { Currency, type AttributeDefinition, type DescriptionTemplates } from '../backend';
+
+export function useDescriptionTemplates() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<DescriptionTemplates | null>({
+    queryKey: ['descriptionTemplates'],
+    queryFn: async () => {
+      if (!actor) return null;
+      return actor.getDescriptionTemplates();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+/**
+ * Saves a category's template, or the default template when `categoryId` is null.
+ * An empty category template makes the category fall back to its parent's or the default.
+ */
+export function useSetDescriptionTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ categoryId, template }: { categoryId: string | null; template: string }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      await actor.setDescriptionTemplate(categoryId, template);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['descriptionTemplates'] });
+    },
+  });
+}
+
+/**
+ * The description a product with these details would be given, or null until a category is chosen
+ */
+export function useGeneratedDescription(product: {
+  name: string;
+  categoryId: string;
+  price: bigint;
+  schema: AttributeDefinition[];
+  attributes: AttributeValues;
+}): string | null {
+  const { data: templates } = useDescriptionTemplates();
+  const { data: categories = [] } = useCategories();
+  const { data: settings } = useSettingsQuery();
+
+  if (!templates || !product.categoryId) return null;
+  return renderDescriptionTemplate(descriptionTemplateFor(templates, categories, product.categoryId), {
+    ...product,
+    currency: settings?.currency ?? Currency.usd,
+  });
+}
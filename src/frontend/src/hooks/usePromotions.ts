@@ -0,0 +1,70 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useActor } from './useActor';
+import type { DiscountCode, DiscountCodeUsage, Sale } from '../backend';
+
+export function useDiscountCodes() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<DiscountCodeUsage[]>({
+    queryKey: ['discountCodes'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listDiscountCodes();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useSaveDiscountCode() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (discountCode: DiscountCode) => {
+      if (!actor) throw new Error('Actor not initialized');
+      await actor.saveDiscountCode(discountCode);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['discountCodes'] });
+      queryClient.invalidateQueries({ queryKey: ['basketQuote'] });
+    },
+  });
+}
+
+export function useDeleteDiscountCode() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      await actor.deleteDiscountCode(code);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['discountCodes'] });
+      queryClient.invalidateQueries({ queryKey: ['basketQuote'] });
+    },
+  });
+}
+
+/**
+ * Puts every product in a category and its subcategories on the same sale, or ends it with null.
+ * Resolves to the number of products updated.
+ */
+export function useSetCategorySale() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ categoryId, sale }: { categoryId: string; sale: Sale | null }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.setCategorySale(categoryId, sale);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product'] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+      queryClient.invalidateQueries({ queryKey: ['basketQuote'] });
+    },
+  });
+}
@@ -1,8 +1,21 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { useActor } from './useActor';
-import type { Product, Category } from '../backend';
+import type {
+  Product,
+  Category,
+  Order,
+  ProductUpdate,
+  ProductResults,
+  ProductSort,
+  ProductOption,
+  ProductVariant,
+  ProductAttribute,
+  Sale,
+  RefundRequest,
+} from '../backend';
+import { OrderStatus } from '../backend';
 import { ExternalBlob } from '../backend';
-import { useEffect } from 'react';
+import { toProductFilter, type ProductFilterSearch } from '../utils/products';
 
 export function useCategories() {
   const { actor, isFetching } = useActor();
@@ -272,74 +285,68 @@ export function useReorderCategories() {
   });
 }
 
-export function useProducts() {
+export const PRODUCTS_PAGE_SIZE = 24;
+
+export type ProductSearchParams = {
+  query: string;
+  filters: ProductFilterSearch;
+  sort: ProductSort;
+  // Zero-based, like the backend
+  page: number;
+};
+
+export type ProductListParams = Omit<ProductSearchParams, 'query'>;
+
+export function useListProducts(params: ProductListParams, enabled = true) {
   const { actor, isFetching } = useActor();
 
-  const query = useQuery<Product[]>({
-    queryKey: ['products'],
+  return useQuery<ProductResults | null>({
+    queryKey: ['products', 'list', params.filters, params.sort, params.page],
     queryFn: async () => {
-      const timestamp = new Date().toISOString();
-      console.log(`[useProducts] 🔍 Query triggered at ${timestamp}`);
-      
-      if (!actor) {
-        console.log('[useProducts] ⚠️ Actor not available, returning empty array');
-        return [];
-      }
-      
-      try {
-        console.log('[useProducts] 🚀 Calling actor.getAllProducts()...');
-        const result = await actor.getAllProducts();
-        
-        console.log('[useProducts] ✅ Raw response received:', {
-          timestamp: new Date().toISOString(),
-          productCount: result.length,
-          productIds: result.map(p => p.id),
-          products: result.map(p => ({
-            id: p.id,
-            name: p.name,
-            categoryId: p.categoryId,
-            price: p.price.toString(),
-          })),
-        });
-        
-        return result || [];
-      } catch (error: any) {
-        console.error('[useProducts] ❌ Error fetching products:', {
-          timestamp: new Date().toISOString(),
-          error,
-          errorMessage: error?.message,
-          errorStack: error?.stack,
-        });
-        throw error;
-      }
+      if (!actor) return null;
+      return actor.listProducts(
+        toProductFilter(params.filters),
+        params.sort,
+        { page: BigInt(params.page), pageSize: BigInt(PRODUCTS_PAGE_SIZE) }
+      );
     },
-    enabled: !!actor && !isFetching,
+    enabled: !!actor && !isFetching && enabled,
+    placeholderData: keepPreviousData,
   });
+}
 
-  // Log when data changes
-  useEffect(() => {
-    if (query.data) {
-      console.log('[useProducts] 📊 Data updated:', {
-        timestamp: new Date().toISOString(),
-        productCount: query.data.length,
-        productIds: query.data.map(p => p.id),
-      });
-    }
-  }, [query.data]);
+export function useSearchProducts(params: ProductSearchParams, enabled = true) {
+  const { actor, isFetching } = useActor();
 
-  return query;
+  return useQuery<ProductResults | null>({
+    // Nested under 'products' so every product change also refreshes search results
+    queryKey: ['products', 'search', params.query, params.filters, params.sort, params.page],
+    queryFn: async () => {
+      if (!actor) return null;
+      return actor.searchProducts(
+        params.query,
+        toProductFilter(params.filters),
+        params.sort,
+        { page: BigInt(params.page), pageSize: BigInt(PRODUCTS_PAGE_SIZE) }
+      );
+    },
+    enabled: !!actor && !isFetching && enabled,
+    // Keep showing the current page while the next one loads
+    placeholderData: keepPreviousData,
+  });
 }
 
-export function useProduct(productId: string) {
+// Looks a product up by id (cart, orders) or by its URL slug (product page)
+export function useProduct(key: string, by: 'id' | 'slug' = 'id') {
   const { actor, isFetching } = useActor();
 
   return useQuery<Product | null>({
-    queryKey: ['product', productId],
+    queryKey: [by === 'id' ? 'product' : 'productBySlug', key],
     queryFn: async () => {
       if (!actor) return null;
-      return actor.getProduct(productId);
+      return by === 'id' ? actor.getProduct(key) : actor.getProductBySlug(key);
     },
-    enabled: !!actor && !isFetching && !!productId,
+    enabled: !!actor && !isFetching && !!key,
   });
 }
 
@@ -351,13 +358,20 @@ export function useAddProduct() {
     mutationFn: async ({
       name,
       price,
-      image,
+      images,
       categoryId,
+      stock,
+      attributes,
+      description = null,
     }: {
       name: string;
       price: bigint;
-      image: ExternalBlob;
+      images: ExternalBlob[];
       categoryId: string;
+      stock: bigint;
+      attributes: ProductAttribute[];
+      // Generated from the category's description template when left out
+      description?: string | null;
     }) => {
       const timestamp = new Date().toISOString();
       console.log('[useAddProduct] 🚀 Starting product upload:', {
@@ -373,7 +387,7 @@ export function useAddProduct() {
       }
       
       try {
-        await actor.addProduct(name, price, image, categoryId);
+        await actor.addProduct(name, price, images, categoryId, stock, attributes, description);
         console.log('[useAddProduct] ✅ Product uploaded successfully:', {
           timestamp: new Date().toISOString(),
           name,
@@ -431,11 +445,15 @@ export function useUploadProductImage() {
       image,
       price,
       category,
+      stock,
+      attributes,
     }: {
       name: string;
       image: ExternalBlob;
       price: bigint;
       category: string;
+      stock: bigint;
+      attributes: ProductAttribute[];
     }) => {
       console.log('[useUploadProductImage] 📤 Uploading product image:', {
         name,
@@ -444,7 +462,7 @@ export function useUploadProductImage() {
       });
       
       if (!actor) throw new Error('Actor not initialized');
-      await actor.uploadProductImage(name, image, price, category);
+      await actor.uploadProductImage(name, image, price, category, stock, attributes);
       
       console.log('[useUploadProductImage] ✅ Product image uploaded:', name);
     },
@@ -539,6 +557,7 @@ export function useUpdateProductImage() {
       // Invalidate both products list and individual product queries
       queryClient.invalidateQueries({ queryKey: ['products'] });
       queryClient.invalidateQueries({ queryKey: ['product', variables.productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
     },
     onError: (error: any, variables) => {
       console.error('[useUpdateProductImage] Mutation error:', {
@@ -552,6 +571,200 @@ export function useUpdateProductImage() {
   });
 }
 
+export function useAddProductImages() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      productId,
+      images,
+      onProgress,
+    }: {
+      productId: string;
+      images: File[];
+      onProgress?: (percentage: number) => void;
+    }) => {
+      if (!actor) throw new Error('Actor not initialized');
+
+      // Report the average progress across all images being uploaded
+      const progressByImage = images.map(() => 0);
+      const blobs = await Promise.all(
+        images.map(async (image, index) => {
+          const blob = ExternalBlob.fromBytes(new Uint8Array(await image.arrayBuffer()));
+          return blob.withUploadProgress((percentage) => {
+            progressByImage[index] = percentage;
+            onProgress?.(progressByImage.reduce((sum, p) => sum + p, 0) / progressByImage.length);
+          });
+        })
+      );
+      return actor.addProductImages(productId, blobs);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product', variables.productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+    },
+  });
+}
+
+export function useRemoveProductImage() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ productId, index }: { productId: string; index: number }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.removeProductImage(productId, BigInt(index));
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product', variables.productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+    },
+  });
+}
+
+/**
+ * Reorders a product's images; `order` lists the current image indexes in their new order
+ */
+export function useReorderProductImages() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ productId, order }: { productId: string; order: number[] }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.reorderProductImages(productId, order.map((index) => BigInt(index)));
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product', variables.productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+    },
+  });
+}
+
+export function useUpdateProductStock() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ productId, stock }: { productId: string; stock: bigint }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.updateProductStock(productId, stock);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product', variables.productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+    },
+  });
+}
+
+export function useUpdateProduct() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ productId, update }: { productId: string; update: ProductUpdate }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.updateProduct(productId, update);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product', variables.productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+    },
+  });
+}
+
+/**
+ * Replaces a product's options and variants; empty lists make it a single-variant product again
+ */
+export function useSetProductVariants() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      productId,
+      options,
+      variants,
+    }: {
+      productId: string;
+      options: ProductOption[];
+      variants: ProductVariant[];
+    }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.setProductVariants(productId, options, variants);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product', variables.productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+      queryClient.invalidateQueries({ queryKey: ['basket'] });
+    },
+  });
+}
+
+export function useArchiveProduct() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ productId, archived }: { productId: string; archived: boolean }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.archiveProduct(productId, archived);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product', variables.productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+      queryClient.invalidateQueries({ queryKey: ['basket'] });
+    },
+  });
+}
+
+/**
+ * Puts a product on sale, or ends its sale with null
+ */
+export function useSetProductSale() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ productId, sale }: { productId: string; sale: Sale | null }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.setProductSale(productId, sale);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['product', variables.productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+      queryClient.invalidateQueries({ queryKey: ['basketQuote'] });
+    },
+  });
+}
+
+export function useDeleteProduct() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (productId: string) => {
+      if (!actor) throw new Error('Actor not initialized');
+      await actor.deleteProduct(productId);
+    },
+    onSuccess: (_data, productId) => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.removeQueries({ queryKey: ['product', productId] });
+      queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+      queryClient.invalidateQueries({ queryKey: ['basket'] });
+    },
+  });
+}
+
 export function useStripeConfigured() {
   const { actor, isFetching } = useActor();
 
@@ -564,3 +777,152 @@ export function useStripeConfigured() {
     enabled: !!actor && !isFetching,
   });
 }
+
+export function useMyOrders() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Order[]>({
+    queryKey: ['myOrders'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getMyOrders();
+    },
+    enabled: !!actor && !isFetching,
+    retry: false,
+  });
+}
+
+export function useOrder(orderId: string) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Order | null>({
+    queryKey: ['order', orderId],
+    queryFn: async () => {
+      if (!actor) return null;
+      return actor.getOrder(orderId);
+    },
+    enabled: !!actor && !isFetching && !!orderId,
+    retry: false,
+  });
+}
+
+// Asks the backend to re-check the order's Stripe session; a paid session finalizes the order.
+export function useSyncOrderPayment() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (order: Order) => {
+      if (!actor) throw new Error('Actor not initialized');
+      if (order.status !== OrderStatus.pending) return;
+      await actor.getStripeSessionStatus(order.stripeSessionId);
+    },
+    onSuccess: (_data, order) => {
+      queryClient.invalidateQueries({ queryKey: ['order', order.id] });
+      queryClient.invalidateQueries({ queryKey: ['myOrders'] });
+      // A paid order's items leave the basket
+      queryClient.invalidateQueries({ queryKey: ['basket'] });
+    },
+  });
+}
+
+export type OrderListFilter = {
+  status?: OrderStatus;
+  // Inclusive date range as yyyy-mm-dd strings from date inputs
+  from?: string;
+  to?: string;
+};
+
+const NANOS_PER_MILLI = BigInt(1_000_000);
+
+function dateToNanos(date: string, endOfDay: boolean): bigint {
+  const [year, month, day] = date.split('-').map(Number);
+  const millis = new Date(year, month - 1, endOfDay ? day + 1 : day).getTime();
+  return BigInt(millis) * NANOS_PER_MILLI;
+}
+
+export function useAllOrders(filter: OrderListFilter) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<Order[]>({
+    queryKey: ['orders', filter.status ?? 'all', filter.from ?? '', filter.to ?? ''],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.listOrders({
+        status: filter.status,
+        createdAfter: filter.from ? dateToNanos(filter.from, false) : undefined,
+        createdBefore: filter.to ? dateToNanos(filter.to, true) : undefined,
+      });
+    },
+    enabled: !!actor && !isFetching,
+    retry: false,
+  });
+}
+
+export function useUpdateOrderStatus() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, status, note }: { orderId: string; status: OrderStatus; note: string }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.updateOrderStatus(orderId, status, note);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] });
+      // Cancelling returns the order's items to stock
+      if (variables.status === OrderStatus.cancelled) {
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        queryClient.invalidateQueries({ queryKey: ['product'] });
+        queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+      }
+    },
+  });
+}
+
+export function useUpdateOrderFulfillment() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      orderId,
+      trackingNumber,
+      notes,
+    }: {
+      orderId: string;
+      trackingNumber: string | null;
+      notes: string;
+    }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.updateOrderFulfillment(orderId, trackingNumber, notes);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] });
+    },
+  });
+}
+
+// Refunds through Stripe; restocking changes product stock, so product queries are refreshed too
+export function useRefundOrder() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ orderId, request }: { orderId: string; request: RefundRequest }) => {
+      if (!actor) throw new Error('Actor not initialized');
+      return actor.refundOrder(orderId, request);
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      queryClient.invalidateQueries({ queryKey: ['order', variables.orderId] });
+      if (variables.request.restock) {
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        queryClient.invalidateQueries({ queryKey: ['product'] });
+        queryClient.invalidateQueries({ queryKey: ['productBySlug'] });
+      }
+    },
+  });
+}
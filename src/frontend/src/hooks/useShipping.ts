@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useActor } from './useActor';
+import type { BasketItem, ShippingQuote, ShippingZone } from '../backend';
+import { basketItemsKey } from '../utils/shipping';
+
+export function useShippingZones() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<ShippingZone[]>({
+    queryKey: ['shippingZones'],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.getShippingZones();
+    },
+    enabled: !!actor && !isFetching,
+  });
+}
+
+export function useSetShippingZones() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (zones: ShippingZone[]) => {
+      if (!actor) throw new Error('Actor not initialized');
+      await actor.setShippingZones(zones);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['shippingZones'] });
+      queryClient.invalidateQueries({ queryKey: ['shippingQuotes'] });
+      queryClient.invalidateQueries({ queryKey: ['basketQuote'] });
+    },
+  });
+}
+
+/**
+ * The shipping rates the cart can use to a country, with what each would cost
+ */
+export function useShippingQuotes(items: BasketItem[], country: string) {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<ShippingQuote[]>({
+    queryKey: ['shippingQuotes', country, basketItemsKey(items)],
+    queryFn: async () => {
+      if (!actor) return [];
+      return actor.quoteShipping(items, country);
+    },
+    enabled: !!actor && !isFetching && !!country && items.length > 0,
+    retry: false,
+  });
+}
@@ -4,7 +4,11 @@ import SingleProductUploader from '../components/SingleProductUploader';
 import StripeConfigForm from '../components/StripeConfigForm';
 import SettingsForm from '../components/SettingsForm';
 import AdminManager from '../components/AdminManager';
-import { Package, CreditCard, Settings, Shield, Plus } from 'lucide-react';
+import OrderManager from '../components/OrderManager';
+import DescriptionTemplateManager from '../components/DescriptionTemplateManager';
+import ShippingZoneManager from '../components/ShippingZoneManager';
+import PromotionManager from '../components/PromotionManager';
+import { Package, CreditCard, Settings, Shield, Plus, ClipboardList, FileText, Truck, Tag } from 'lucide-react';
 
 export default function AdminPage() {
   return (
@@ -12,12 +16,12 @@ export default function AdminPage() {
       <div className="mb-8">
         <h1 className="mb-2 font-serif text-3xl font-bold tracking-tight">Admin Dashboard</h1>
         <p className="text-muted-foreground">
-          Manage your products, upload new items, and configure payment settings.
+          Manage your products and orders, upload new items, and configure payment settings.
         </p>
       </div>
 
       <Tabs defaultValue="add-product" className="w-full">
-        <TabsList className="grid w-full max-w-4xl grid-cols-5">
+        <TabsList className="grid w-full grid-cols-9">
           <TabsTrigger value="add-product" className="gap-2">
             <Plus className="h-4 w-4" />
             Add Product
@@ -26,6 +30,22 @@ export default function AdminPage() {
             <Package className="h-4 w-4" />
             Batch Upload
           </TabsTrigger>
+          <TabsTrigger value="descriptions" className="gap-2">
+            <FileText className="h-4 w-4" />
+            Descriptions
+          </TabsTrigger>
+          <TabsTrigger value="orders" className="gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Orders
+          </TabsTrigger>
+          <TabsTrigger value="shipping" className="gap-2">
+            <Truck className="h-4 w-4" />
+            Shipping
+          </TabsTrigger>
+          <TabsTrigger value="promotions" className="gap-2">
+            <Tag className="h-4 w-4" />
+            Promotions
+          </TabsTrigger>
           <TabsTrigger value="payment" className="gap-2">
             <CreditCard className="h-4 w-4" />
             Payment
@@ -48,6 +68,22 @@ export default function AdminPage() {
           <BatchUploader />
         </TabsContent>
 
+        <TabsContent value="descriptions" className="mt-6">
+          <DescriptionTemplateManager />
+        </TabsContent>
+
+        <TabsContent value="orders" className="mt-6">
+          <OrderManager />
+        </TabsContent>
+
+        <TabsContent value="shipping" className="mt-6">
+          <ShippingZoneManager />
+        </TabsContent>
+
+        <TabsContent value="promotions" className="mt-6">
+          <PromotionManager />
+        </TabsContent>
+
         <TabsContent value="payment" className="mt-6">
           <StripeConfigForm />
         </TabsContent>
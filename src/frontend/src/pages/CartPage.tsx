@@ -2,20 +2,43 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from '@tanstack/react-router';
 import { useCart } from '../hooks/useCart';
 import { useProduct } from '../hooks/useQueries';
-import { useCreateCheckoutSession } from '../hooks/useCheckout';
+import { useBasketQuote, useCreateCheckoutSession } from '../hooks/useCheckout';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { useSettingsQuery } from '../hooks/useSettings';
+import { useShippingZones } from '../hooks/useShipping';
+import ShippingSelector from '../components/ShippingSelector';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Loader2, Trash2, ShoppingBag, ArrowLeft } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Loader2, Trash2, ShoppingBag, ArrowLeft, Minus, Plus, Tag, X } from 'lucide-react';
 import { toast } from 'sonner';
-import type { ShoppingItem } from '../backend';
+import { findVariantBySku, variantLabel } from '../utils/products';
+import { formatMoney, salePrice, storePricing } from '../utils/pricing';
+import type { BasketItem, ShippingChoice } from '../backend';
 
-function CartItemRow({ productId, quantity }: { productId: string; quantity: bigint }) {
+function CartItemRow({ item: { productId, variantSku, quantity } }: { item: BasketItem }) {
   const { data: product, isLoading } = useProduct(productId);
-  const { removeFromBasket, isRemovingFromBasket } = useCart();
+  const { data: settings } = useSettingsQuery();
+  const { removeFromBasket, updateQuantity, isRemovingFromBasket } = useCart();
+  // What is typed in the quantity box, applied on blur or Enter
+  const [quantityDraft, setQuantityDraft] = useState(quantity.toString());
+
+  useEffect(() => {
+    setQuantityDraft(quantity.toString());
+  }, [quantity]);
+
+  const handleQuantityChange = async (newQuantity: number) => {
+    if (newQuantity === Number(quantity)) return;
+    try {
+      await updateQuantity({ productId, variantSku, quantity: BigInt(newQuantity) });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update quantity');
+    }
+  };
 
   const handleRemove = async () => {
     try {
-      await removeFromBasket(productId);
+      await removeFromBasket({ productId, variantSku });
       toast.success('Removed from cart');
     } catch (error: any) {
       toast.error(error.message || 'Failed to remove item');
@@ -30,18 +53,49 @@ function CartItemRow({ productId, quantity }: { productId: string; quantity: big
     );
   }
 
+  // Archived or deleted products are no longer returned, but the line stays until it is removed
   if (!product) {
-    return null;
+    return (
+      <div className="flex items-center justify-between gap-4 border-b border-sage/20 py-4 last:border-0">
+        <p className="text-sm text-muted-foreground">This item is no longer available.</p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleRemove}
+          disabled={isRemovingFromBasket}
+          className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+          aria-label="Remove unavailable item"
+        >
+          {isRemovingFromBasket ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+        </Button>
+      </div>
+    );
   }
 
-  const priceInDollars = Number(product.price) / 100;
-  const subtotal = priceInDollars * Number(quantity);
+  const variant = findVariantBySku(product, variantSku);
+  const stock = Number(variant?.stock ?? product.stock);
+
+  const applyQuantityDraft = () => {
+    const typed = parseInt(quantityDraft, 10);
+    if (isNaN(typed) || typed < 1) {
+      setQuantityDraft(quantity.toString());
+      return;
+    }
+    if (typed > stock) {
+      toast.error(stock === 0 ? `${product.name} is sold out` : `Only ${stock} of ${product.name} left in stock`);
+    }
+    const newQuantity = Math.min(typed, Math.max(stock, 1));
+    setQuantityDraft(newQuantity.toString());
+    handleQuantityChange(newQuantity);
+  };
+  const unitPrice = salePrice(product, variant?.price ?? product.price);
+  const { currency } = storePricing(settings);
 
   return (
     <div className="flex gap-4 border-b border-sage/20 py-4 last:border-0">
-      <div className="h-24 w-24 flex-shrink-0 overflow-hidden rounded-lg bg-cream/30">
+      <div className="h-24 w-24 shrink-0 overflow-hidden rounded-lg bg-cream/30">
         <img
-          src={product.image.getDirectURL()}
+          src={product.images[0].getDirectURL()}
           alt={product.name}
           className="h-full w-full object-cover"
         />
@@ -49,13 +103,47 @@ function CartItemRow({ productId, quantity }: { productId: string; quantity: big
       <div className="flex flex-1 flex-col justify-between">
         <div>
           <h3 className="font-serif text-lg font-semibold text-foreground">{product.name}</h3>
+          {variant && <p className="text-sm text-foreground">{variantLabel(product, variant)}</p>}
           <p className="text-sm text-muted-foreground">{product.categoryId}</p>
         </div>
         <div className="flex items-center justify-between">
-          <div className="text-sm">
-            <span className="text-muted-foreground">Qty: {quantity.toString()}</span>
-            <span className="mx-2 text-muted-foreground">×</span>
-            <span className="font-semibold text-terracotta">${priceInDollars.toFixed(2)}</span>
+          <div className="flex items-center gap-2 text-sm">
+            <div className="flex items-center rounded-md border border-sage/30">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleQuantityChange(Number(quantity) - 1)}
+                disabled={quantity <= 1n}
+                className="h-8 px-2"
+                aria-label="Decrease quantity"
+              >
+                <Minus className="h-3 w-3" />
+              </Button>
+              <Input
+                type="number"
+                inputMode="numeric"
+                value={quantityDraft}
+                onChange={(e) => setQuantityDraft(e.target.value)}
+                onBlur={applyQuantityDraft}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                min={1}
+                max={stock}
+                className="h-8 w-14 border-0 px-1 text-center focus-visible:ring-sage"
+                aria-label="Quantity"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleQuantityChange(Number(quantity) + 1)}
+                disabled={Number(quantity) >= stock}
+                className="h-8 px-2"
+                aria-label="Increase quantity"
+              >
+                <Plus className="h-3 w-3" />
+              </Button>
+            </div>
+            <span className="text-muted-foreground">×</span>
+            <span className="font-semibold text-terracotta">{formatMoney(unitPrice, currency)}</span>
           </div>
           <Button
             variant="ghost"
@@ -73,7 +161,7 @@ function CartItemRow({ productId, quantity }: { productId: string; quantity: big
         </div>
       </div>
       <div className="flex items-center font-semibold text-foreground">
-        ${subtotal.toFixed(2)}
+        {formatMoney(unitPrice * quantity, currency)}
       </div>
     </div>
   );
@@ -81,33 +169,25 @@ function CartItemRow({ productId, quantity }: { productId: string; quantity: big
 
 export default function CartPage() {
   const navigate = useNavigate();
-  const { basketItems, isLoading: cartLoading } = useCart();
+  const { basketItems, itemCount, isLoading: cartLoading } = useCart();
+  const { identity, login, isLoggingIn } = useInternetIdentity();
+  const { data: settings } = useSettingsQuery();
+  const { data: shippingZones = [] } = useShippingZones();
+  // A country is chosen before its rates have loaded, so only a choice with a rate is priced
+  const [shippingSelection, setShippingSelection] = useState<ShippingChoice | null>(null);
+  const shipping = shippingSelection?.rate ? shippingSelection : null;
+  const needsShipping = shippingZones.length > 0 && !shipping;
+  const [discountCodeDraft, setDiscountCodeDraft] = useState('');
+  // Priced with the quote, which fails with the reason when the code cannot be used
+  const [discountCode, setDiscountCode] = useState<string | null>(null);
+  const { data: quote, error: quoteError, isFetching: isQuoting } = useBasketQuote(basketItems, shipping, discountCode);
   const createCheckoutSession = useCreateCheckoutSession();
   const [isCheckingOut, setIsCheckingOut] = useState(false);
 
   const handleCheckout = async () => {
     setIsCheckingOut(true);
     try {
-      const shoppingItems: ShoppingItem[] = [];
-
-      for (const item of basketItems) {
-        const response = await fetch(`/api/product/${item.productId}`);
-        if (!response.ok) continue;
-        
-        // We need to fetch product details to create shopping items
-        // Since we can't easily do this in parallel with the current setup,
-        // we'll need to use the backend's getProduct method
-        // For now, we'll create a simplified version
-        shoppingItems.push({
-          productName: item.productId,
-          productDescription: 'Product',
-          priceInCents: BigInt(0), // This will be filled by backend
-          quantity: item.quantity,
-          currency: 'usd',
-        });
-      }
-
-      const session = await createCheckoutSession.mutateAsync(shoppingItems);
+      const session = await createCheckoutSession.mutateAsync({ shipping, discountCode });
       if (!session?.url) {
         throw new Error('Stripe session missing url');
       }
@@ -160,7 +240,7 @@ export default function CartPage() {
           <Card>
             <CardContent className="p-6">
               {basketItems.map((item) => (
-                <CartItemRow key={item.productId} productId={item.productId} quantity={item.quantity} />
+                <CartItemRow key={`${item.productId}/${item.variantSku ?? ''}`} item={item} />
               ))}
             </CardContent>
           </Card>
@@ -172,23 +252,141 @@ export default function CartPage() {
                 <div className="space-y-2 border-t border-sage/20 pt-4">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Items</span>
-                    <span className="font-medium">{basketItems.length}</span>
+                    <span className="font-medium">{itemCount}</span>
                   </div>
-                </div>
-                <Button
-                  onClick={handleCheckout}
-                  disabled={isCheckingOut}
-                  className="w-full bg-terracotta hover:bg-terracotta/90"
-                >
-                  {isCheckingOut ? (
+                  {quote && (
                     <>
-                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      Processing...
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Subtotal</span>
+                        <span className="font-medium">{formatMoney(quote.subtotal, quote.currency)}</span>
+                      </div>
+                      {quote.discountCode && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">Discount ({quote.discountCode})</span>
+                          <span className="font-medium text-sage">-{formatMoney(quote.discount, quote.currency)}</span>
+                        </div>
+                      )}
+                      {quote.tax > 0n && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">Tax ({storePricing(settings).taxRate}%)</span>
+                          <span className="font-medium">{formatMoney(quote.tax, quote.currency)}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Shipping</span>
+                        <span className="font-medium">
+                          {needsShipping
+                            ? 'Choose below'
+                            : quote.shipping > 0n
+                              ? formatMoney(quote.shipping, quote.currency)
+                              : 'Free'}
+                        </span>
+                      </div>
+                      <div className="flex justify-between border-t border-sage/20 pt-2 font-semibold">
+                        <span>Total</span>
+                        <span className="text-terracotta">
+                          {isQuoting ? (
+                            <Loader2 className="inline h-4 w-4 animate-spin" />
+                          ) : (
+                            formatMoney(quote.total, quote.currency)
+                          )}
+                        </span>
+                      </div>
                     </>
+                  )}
+                </div>
+                <div className="space-y-2 border-t border-sage/20 pt-4">
+                  {discountCode ? (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2">
+                        <Tag className="h-4 w-4 text-sage" />
+                        <span className="font-mono font-medium">{discountCode}</span>
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDiscountCode(null)}
+                        className="h-7 px-2"
+                        aria-label="Remove discount code"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
                   ) : (
-                    'Proceed to Checkout'
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        const code = discountCodeDraft.trim().toUpperCase();
+                        if (code) {
+                          setDiscountCode(code);
+                          setDiscountCodeDraft('');
+                        }
+                      }}
+                    >
+                      <Input
+                        value={discountCodeDraft}
+                        onChange={(e) => setDiscountCodeDraft(e.target.value)}
+                        placeholder="Discount code"
+                        className="border-sage/30 focus-visible:ring-sage"
+                        aria-label="Discount code"
+                      />
+                      <Button
+                        type="submit"
+                        variant="outline"
+                        disabled={!discountCodeDraft.trim()}
+                        className="border-sage/30"
+                      >
+                        Apply
+                      </Button>
+                    </form>
                   )}
-                </Button>
+                </div>
+                <ShippingSelector
+                  items={basketItems}
+                  value={shippingSelection}
+                  onChange={setShippingSelection}
+                  currency={storePricing(settings).currency}
+                />
+                {quoteError && (
+                  <p className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{quoteError.message}</p>
+                )}
+                {identity ? (
+                  <Button
+                    onClick={handleCheckout}
+                    disabled={isCheckingOut || !!quoteError || needsShipping}
+                    className="w-full bg-terracotta hover:bg-terracotta/90"
+                  >
+                    {isCheckingOut ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Processing...
+                      </>
+                    ) : (
+                      'Proceed to Checkout'
+                    )}
+                  </Button>
+                ) : (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      Sign in with Internet Identity to check out. Your cart is kept and moved to your account.
+                    </p>
+                    <Button
+                      onClick={login}
+                      disabled={isLoggingIn}
+                      className="w-full bg-terracotta hover:bg-terracotta/90"
+                    >
+                      {isLoggingIn ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Signing in...
+                        </>
+                      ) : (
+                        'Sign in to Check Out'
+                      )}
+                    </Button>
+                  </>
+                )}
                 <Button
                   variant="outline"
                   onClick={() => navigate({ to: '/' })}
@@ -1,9 +1,20 @@
-import { useState } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
+import { useListProducts } from '../hooks/useQueries';
 import ProductGrid from '../components/ProductGrid';
 import CategoryFilter from '../components/CategoryFilter';
+import ProductSortSelect from '../components/ProductSortSelect';
+import { CATALOGUE_SORTS, hasActiveFilters, type ProductFilterSearch } from '../utils/products';
 
 export default function MarketplacePage() {
-  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const navigate = useNavigate({ from: '/' });
+  const { sort = CATALOGUE_SORTS[0], page = 1, ...filters } = useSearch({ from: '/' });
+  // The URL counts pages from 1
+  const { data: results, isLoading } = useListProducts({ filters, sort, page: page - 1 });
+
+  // Changing what is listed starts again from the first page
+  const handleFiltersChange = (next: ProductFilterSearch) => {
+    navigate({ search: { sort: sort === CATALOGUE_SORTS[0] ? undefined : sort, ...next } });
+  };
 
   return (
     <div className="container py-8">
@@ -18,14 +29,24 @@ export default function MarketplacePage() {
 
       <div className="grid gap-8 lg:grid-cols-[280px_1fr]">
         <aside className="lg:sticky lg:top-24 lg:h-fit">
-          <CategoryFilter
-            selectedCategories={selectedCategories}
-            onCategoriesChange={setSelectedCategories}
-          />
+          <CategoryFilter filters={filters} onFiltersChange={handleFiltersChange} facets={results?.facets} />
         </aside>
         
         <div>
-          <ProductGrid selectedCategories={selectedCategories} />
+          <div className="mb-4 flex justify-end">
+            <ProductSortSelect
+              value={sort}
+              options={CATALOGUE_SORTS}
+              onValueChange={(next) => navigate({ search: (prev) => ({ ...prev, sort: next, page: undefined }) })}
+            />
+          </div>
+          <ProductGrid
+            results={results}
+            isLoading={isLoading}
+            page={page - 1}
+            onPageChange={(next) => navigate({ search: (prev) => ({ ...prev, page: next + 1 }) })}
+            hasFilters={hasActiveFilters(filters)}
+          />
         </div>
       </div>
     </div>
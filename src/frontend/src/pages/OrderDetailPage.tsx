@@ -0,0 +1,85 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate, useParams } from '@tanstack/react-router';
+import { useOrder, useSyncOrderPayment } from '../hooks/useQueries';
+import { Card, CardContent } from '@/components/ui/card';
+import OrderSummary from '../components/OrderSummary';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, ArrowLeft } from 'lucide-react';
+import { OrderStatus } from '../backend';
+import { formatOrderDate, ORDER_STATUS_LABELS, ORDER_STATUS_STYLES } from '../utils/orders';
+
+export default function OrderDetailPage() {
+  const navigate = useNavigate();
+  const { orderId } = useParams({ from: '/orders/$orderId' });
+  const { data: order, isLoading, error } = useOrder(orderId);
+  const syncOrderPayment = useSyncOrderPayment();
+
+  const syncedOrderId = useRef<string | null>(null);
+
+  // Pending orders may have been paid since they were created; let the backend re-check Stripe once
+  useEffect(() => {
+    if (order && order.status === OrderStatus.pending && syncedOrderId.current !== order.id) {
+      syncedOrderId.current = order.id;
+      syncOrderPayment.mutate(order);
+    }
+  }, [order, syncOrderPayment]);
+
+  if (isLoading) {
+    return (
+      <div className="container flex min-h-[60vh] items-center justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-sage" />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="container py-8">
+        <div className="mx-auto max-w-2xl rounded-lg border border-dashed border-sage/30 bg-cream/20 p-12 text-center">
+          <h2 className="mb-2 font-serif text-2xl font-bold text-foreground">Order not found</h2>
+          <p className="mb-6 text-muted-foreground">
+            {error instanceof Error ? error.message : 'This order does not exist or belongs to another account.'}
+          </p>
+          <Button onClick={() => navigate({ to: '/orders' })} className="bg-terracotta hover:bg-terracotta/90">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Orders
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mx-auto max-w-3xl">
+        <Button variant="ghost" onClick={() => navigate({ to: '/orders' })} className="mb-6 -ml-4">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All Orders
+        </Button>
+
+        <div className="mb-8 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="mb-1 font-serif text-3xl font-bold tracking-tight">Order {order.id}</h1>
+            <p className="text-sm text-muted-foreground">Placed {formatOrderDate(order.createdAt)}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {syncOrderPayment.isPending && <Loader2 className="h-4 w-4 animate-spin text-sage" />}
+            <Badge className={ORDER_STATUS_STYLES[order.status]}>{ORDER_STATUS_LABELS[order.status]}</Badge>
+          </div>
+        </div>
+
+        {order.trackingNumber && (
+          <Card className="mb-6 border-sage/20 bg-sage/5">
+            <CardContent className="flex items-center justify-between p-4 text-sm">
+              <span className="text-muted-foreground">Tracking number</span>
+              <span className="font-mono font-medium">{order.trackingNumber}</span>
+            </CardContent>
+          </Card>
+        )}
+
+        <OrderSummary order={order} />
+      </div>
+    </div>
+  );
+}
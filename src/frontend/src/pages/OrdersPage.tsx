@@ -0,0 +1,93 @@
+import { Link, useNavigate } from '@tanstack/react-router';
+import { useMyOrders } from '../hooks/useQueries';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, Package, ArrowLeft, ChevronRight } from 'lucide-react';
+import { OrderStatus } from '../backend';
+import { formatOrderDate, ORDER_STATUS_LABELS, ORDER_STATUS_STYLES } from '../utils/orders';
+import { formatMoney } from '../utils/pricing';
+
+export default function OrdersPage() {
+  const navigate = useNavigate();
+  const { identity } = useInternetIdentity();
+  const { data: orders = [], isLoading } = useMyOrders();
+
+  if (!identity) {
+    return (
+      <div className="container py-8">
+        <div className="mx-auto max-w-2xl rounded-lg border border-dashed border-sage/30 bg-cream/20 p-12 text-center">
+          <Package className="mx-auto mb-4 h-16 w-16 text-sage/40" />
+          <h2 className="mb-2 font-serif text-2xl font-bold text-foreground">Sign in to see your orders</h2>
+          <p className="text-muted-foreground">Your order history is linked to your Internet Identity.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container flex min-h-[60vh] items-center justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-sage" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mx-auto max-w-4xl">
+        <div className="mb-8">
+          <h1 className="mb-2 font-serif text-3xl font-bold tracking-tight">My Orders</h1>
+          <p className="text-muted-foreground">Everything you have ordered from our shop.</p>
+        </div>
+
+        {orders.length === 0 ? (
+          <div className="flex min-h-[40vh] flex-col items-center justify-center rounded-lg border border-dashed border-sage/30 bg-cream/20 p-12 text-center">
+            <Package className="mb-4 h-16 w-16 text-sage/40" />
+            <h2 className="mb-2 font-serif text-2xl font-bold text-foreground">No orders yet</h2>
+            <p className="mb-6 text-muted-foreground">Once you check out, your orders will show up here.</p>
+            <Button onClick={() => navigate({ to: '/' })} className="bg-terracotta hover:bg-terracotta/90">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Continue Shopping
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {orders.map((order) => (
+              <Link key={order.id} to="/orders/$orderId" params={{ orderId: order.id }} className="block">
+                <Card className="border-sage/20 transition-all hover:shadow-md">
+                  <CardContent className="flex items-center justify-between gap-4 p-6">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-3">
+                        <span className="font-serif text-lg font-semibold">{order.id}</span>
+                        <Badge className={ORDER_STATUS_STYLES[order.status]}>
+                          {ORDER_STATUS_LABELS[order.status]}
+                        </Badge>
+                        {order.refunds.length > 0 && order.status !== OrderStatus.refunded && (
+                          <Badge variant="outline" className="border-sage/30 text-muted-foreground">
+                            Partly refunded
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {formatOrderDate(order.createdAt)} ·{' '}
+                        {order.items.reduce((sum, item) => sum + Number(item.quantity), 0)} item(s)
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-terracotta">
+                        {formatMoney(order.total, order.currency)}
+                      </span>
+                      <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                    </div>
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,39 @@
+import { useEffect, useRef } from 'react';
 import { useNavigate } from '@tanstack/react-router';
+import { useActor } from '../hooks/useActor';
+import { useCart } from '../hooks/useCart';
+import { useCancelCheckout } from '../hooks/useCheckout';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { useMyOrders } from '../hooks/useQueries';
+import { OrderStatus } from '../backend';
+import { formatMoney } from '../utils/pricing';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { XCircle, ArrowLeft, ShoppingCart } from 'lucide-react';
 
 export default function PaymentFailure() {
   const navigate = useNavigate();
+  const { itemCount } = useCart();
+  const { data: orders = [] } = useMyOrders();
+  const { identity } = useInternetIdentity();
+  const { actor, isFetching } = useActor();
+  const cancelCheckout = useCancelCheckout();
+
+  const cancelled = useRef(false);
+
+  // Stripe sends the buyer here without the session id, so the order left behind is their newest unpaid one
+  const newestOrder = orders[0];
+  const unpaidOrder =
+    newestOrder?.status === OrderStatus.pending || newestOrder?.status === OrderStatus.cancelled ? newestOrder : undefined;
+
+  // The checkout holds its items until it is closed; only a signed-in actor can close it
+  useEffect(() => {
+    if (!identity || !actor || isFetching || cancelled.current) return;
+    cancelled.current = true;
+    cancelCheckout.mutate(undefined, {
+      onError: (error) => console.error('Failed to cancel checkout:', error),
+    });
+  }, [identity, actor, isFetching, cancelCheckout]);
 
   return (
     <div className="container py-8">
@@ -18,10 +47,15 @@ export default function PaymentFailure() {
               Payment Cancelled
             </h1>
             <p className="mb-2 text-lg text-muted-foreground">
-              Your payment was not completed. No charges have been made to your account.
+              {unpaidOrder
+                ? `Order ${unpaidOrder.id} for ${formatMoney(unpaidOrder.total, unpaidOrder.currency)} was not paid.`
+                : 'Your payment was not completed.'}{' '}
+              No charges have been made to your account.
             </p>
             <p className="mb-8 text-sm text-muted-foreground">
-              If you experienced any issues, please try again or contact our support team.
+              {itemCount > 0
+                ? `Your basket still holds ${itemCount} ${itemCount === 1 ? 'item' : 'items'}, so you can check out again whenever you are ready.`
+                : 'If you experienced any issues, please try again or contact our support team.'}
             </p>
             <div className="flex gap-4">
               <Button
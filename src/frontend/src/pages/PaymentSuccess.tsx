@@ -1,28 +1,147 @@
-import { useEffect } from 'react';
-import { useNavigate } from '@tanstack/react-router';
-import { useCart } from '../hooks/useCart';
+import { useEffect, useRef, type ReactNode } from 'react';
+import { useNavigate, useSearch } from '@tanstack/react-router';
+import { useActor } from '../hooks/useActor';
+import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { checkoutSessionState, useCheckCheckoutSession } from '../hooks/useCheckout';
+import { useMyOrders } from '../hooks/useQueries';
+import OrderSummary from '../components/OrderSummary';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { CheckCircle2, ArrowLeft } from 'lucide-react';
+import { CheckCircle2, ArrowLeft, Clock, Loader2, RefreshCw, ShoppingCart, XCircle } from 'lucide-react';
 
 export default function PaymentSuccess() {
   const navigate = useNavigate();
-  const { clearBasket } = useCart();
+  const { session_id: sessionId } = useSearch({ from: '/payment-success' });
+  const { identity, isInitializing } = useInternetIdentity();
+  const { actor, isFetching } = useActor();
+  const checkSession = useCheckCheckoutSession();
+  const { data: orders = [] } = useMyOrders();
 
+  const checkedSessionId = useRef<string | null>(null);
+
+  const sessionState = checkSession.data && checkoutSessionState(checkSession.data);
+  const order = orders.find((candidate) => candidate.stripeSessionId === sessionId);
+
+  // Only a signed-in actor may check the session, so wait for the stored identity to be restored
   useEffect(() => {
-    const clearCart = async () => {
-      try {
-        await clearBasket();
-      } catch (error) {
-        console.error('Failed to clear basket:', error);
-      }
-    };
-    clearCart();
-  }, [clearBasket]);
+    if (!sessionId || !identity || !actor || isFetching || checkedSessionId.current === sessionId) return;
+    checkedSessionId.current = sessionId;
+    checkSession.mutate(sessionId);
+  }, [sessionId, identity, actor, isFetching, checkSession]);
+
+  const checkAgain = () => {
+    if (sessionId) checkSession.mutate(sessionId);
+  };
+
+  const viewOrderButton = order && (
+    <Button
+      variant="outline"
+      onClick={() => navigate({ to: '/orders/$orderId', params: { orderId: order.id } })}
+    >
+      View Order
+    </Button>
+  );
+
+  if (!sessionId) {
+    return (
+      <PaymentStatusCard
+        tone="muted"
+        icon={<XCircle className="h-12 w-12 text-muted-foreground" />}
+        title="No payment to confirm"
+        message="This page is where Stripe sends you after checkout. Your orders page shows every order and whether it has been paid."
+      >
+        <Button onClick={() => navigate({ to: '/orders' })} className="bg-terracotta hover:bg-terracotta/90">
+          View My Orders
+        </Button>
+      </PaymentStatusCard>
+    );
+  }
+
+  if (!isInitializing && !identity) {
+    return (
+      <PaymentStatusCard
+        tone="muted"
+        icon={<Clock className="h-12 w-12 text-muted-foreground" />}
+        title="Sign in to confirm your payment"
+        message="Your order is linked to your Internet Identity. Sign in with the identity you checked out with to see whether the payment went through."
+      />
+    );
+  }
+
+  if (checkSession.isError) {
+    return (
+      <PaymentStatusCard
+        tone="muted"
+        icon={<Clock className="h-12 w-12 text-muted-foreground" />}
+        title="We could not confirm your payment yet"
+        message="Stripe could not be reached to check your payment. If you completed it, your order will be marked paid once Stripe confirms; check again in a moment or find it in your order history."
+      >
+        <Button onClick={checkAgain} className="bg-terracotta hover:bg-terracotta/90">
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Check Again
+        </Button>
+        <Button variant="outline" onClick={() => navigate({ to: '/orders' })}>
+          View My Orders
+        </Button>
+      </PaymentStatusCard>
+    );
+  }
+
+  if (!sessionState || (checkSession.isPending && sessionState !== 'pending')) {
+    return (
+      <div className="container flex min-h-[60vh] flex-col items-center justify-center gap-4 py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-sage" />
+        <p className="text-muted-foreground">Confirming your payment with Stripe…</p>
+      </div>
+    );
+  }
+
+  if (sessionState === 'expired') {
+    return (
+      <PaymentStatusCard
+        tone="terracotta"
+        icon={<XCircle className="h-12 w-12 text-terracotta" />}
+        title="Checkout expired"
+        message="The checkout session timed out before payment was completed, so nothing was charged. Your items are still in your basket; check out again to place the order."
+      >
+        <Button onClick={() => navigate({ to: '/cart' })} className="bg-terracotta hover:bg-terracotta/90">
+          <ShoppingCart className="mr-2 h-4 w-4" />
+          Return to Cart
+        </Button>
+      </PaymentStatusCard>
+    );
+  }
+
+  if (sessionState === 'pending') {
+    return (
+      <PaymentStatusCard
+        tone="muted"
+        icon={<Clock className="h-12 w-12 text-muted-foreground" />}
+        title="Payment processing"
+        message={`Stripe has not confirmed your payment yet. Some payment methods, such as bank debits, take a few days to clear. ${
+          order ? `Order ${order.id}` : 'Your order'
+        } will be marked paid as soon as it does, and your basket is kept until then.`}
+      >
+        <Button
+          onClick={checkAgain}
+          disabled={checkSession.isPending}
+          className="bg-terracotta hover:bg-terracotta/90"
+        >
+          {checkSession.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Check Again
+        </Button>
+        {viewOrderButton}
+      </PaymentStatusCard>
+    );
+  }
 
   return (
     <div className="container py-8">
-      <div className="mx-auto max-w-2xl">
+      <div className="mx-auto max-w-2xl space-y-6">
         <Card className="border-sage/30 bg-sage/5">
           <CardContent className="flex flex-col items-center p-12 text-center">
             <div className="mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-sage/20">
@@ -32,7 +151,9 @@ export default function PaymentSuccess() {
               Payment Successful!
             </h1>
             <p className="mb-8 text-lg text-muted-foreground">
-              Thank you for your purchase. Your order has been confirmed and will be processed shortly.
+              Thank you for your purchase.{' '}
+              {order ? `Order ${order.id} has been confirmed` : 'Your order has been confirmed'} and will be processed
+              shortly.
             </p>
             <div className="flex gap-4">
               <Button
@@ -42,7 +163,42 @@ export default function PaymentSuccess() {
                 <ArrowLeft className="mr-2 h-4 w-4" />
                 Continue Shopping
               </Button>
+              {viewOrderButton}
+            </div>
+          </CardContent>
+        </Card>
+
+        {order && <OrderSummary order={order} />}
+      </div>
+    </div>
+  );
+}
+
+interface PaymentStatusCardProps {
+  tone: 'terracotta' | 'muted';
+  icon: ReactNode;
+  title: string;
+  message: string;
+  children?: ReactNode;
+}
+
+function PaymentStatusCard({ tone, icon, title, message, children }: PaymentStatusCardProps) {
+  const toneStyles = {
+    terracotta: { card: 'border-terracotta/30 bg-terracotta/5', icon: 'bg-terracotta/20' },
+    muted: { card: 'border-sage/30 bg-cream/20', icon: 'bg-muted' },
+  }[tone];
+
+  return (
+    <div className="container py-8">
+      <div className="mx-auto max-w-2xl">
+        <Card className={toneStyles.card}>
+          <CardContent className="flex flex-col items-center p-12 text-center">
+            <div className={`mb-6 flex h-20 w-20 items-center justify-center rounded-full ${toneStyles.icon}`}>
+              {icon}
             </div>
+            <h1 className="mb-3 font-serif text-3xl font-bold text-foreground">{title}</h1>
+            <p className="mb-8 text-lg text-muted-foreground">{message}</p>
+            {children && <div className="flex gap-4">{children}</div>}
           </CardContent>
         </Card>
       </div>
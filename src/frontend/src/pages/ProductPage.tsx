@@ -0,0 +1,222 @@
+import { Fragment, useState } from 'react';
+import { Link, useNavigate, useParams } from '@tanstack/react-router';
+import { useCategories, useProduct, useStripeConfigured } from '../hooks/useQueries';
+import { useSettingsQuery } from '../hooks/useSettings';
+import { useCart } from '../hooks/useCart';
+import { useAttributeSchema } from '../hooks/useCategoryAttributes';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Minus, Plus, ShoppingCart, ArrowLeft } from 'lucide-react';
+import { toast } from 'sonner';
+import { LOW_STOCK_THRESHOLD, findVariant, type VariantSelection } from '../utils/products';
+import { formatAttributeValue } from '../utils/attributes';
+import { formatMoney, salePrice, storePricing, taxFor } from '../utils/pricing';
+import ProductGallery from '../components/ProductGallery';
+import VariantPicker from '../components/VariantPicker';
+
+export default function ProductPage() {
+  const navigate = useNavigate();
+  const { slug } = useParams({ from: '/product/$slug' });
+  const { data: product, isLoading } = useProduct(slug, 'slug');
+  const { data: settings } = useSettingsQuery();
+  const { data: isStripeConfigured } = useStripeConfigured();
+  const { data: categories = [] } = useCategories();
+  const { addToBasket, quantityInBasket, isAddingToBasket } = useCart();
+  // Used to display values by type, e.g. yes/no attributes
+  const { data: attributeSchema = [] } = useAttributeSchema(product?.categoryId ?? '');
+  const [quantity, setQuantity] = useState(1);
+  // Missing entries count as unchosen, so this also works before the product has loaded
+  const [selection, setSelection] = useState<VariantSelection>([]);
+
+  if (isLoading) {
+    return (
+      <div className="container flex min-h-[60vh] items-center justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-sage" />
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="container py-8">
+        <div className="mx-auto max-w-2xl rounded-lg border border-dashed border-sage/30 bg-cream/20 p-12 text-center">
+          <h2 className="mb-2 font-serif text-2xl font-bold text-foreground">Product not found</h2>
+          <p className="mb-6 text-muted-foreground">This product may have been removed from the shop.</p>
+          <Button onClick={() => navigate({ to: '/' })} className="bg-terracotta hover:bg-terracotta/90">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Continue Shopping
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const hasVariants = product.variants.length > 0;
+  const selectedVariant = findVariant(product, selection);
+  const needsVariant = hasVariants && !selectedVariant;
+  const stock = Number(selectedVariant?.stock ?? product.stock);
+  const isUnavailable = stock === 0 || product.archived;
+  // Adding increases what is already in the cart, so only the rest of the stock can be added
+  const inCart = quantityInBasket({ productId: product.id, variantSku: selectedVariant?.sku });
+  const addable = Math.max(0, stock - inCart);
+  const regularPrice = selectedVariant?.price ?? product.price;
+  const price = salePrice(product, regularPrice);
+  const { currency, taxRate } = storePricing(settings);
+  // Subcategories are stored by name and point to their parent
+  const parentCategory = categories.find((category) => category.name === product.categoryId)?.parent;
+  const categoryPath = parentCategory ? [parentCategory, product.categoryId] : [product.categoryId];
+
+  const handleAddToCart = async () => {
+    try {
+      await addToBasket({ productId: product.id, variantSku: selectedVariant?.sku, quantity: BigInt(quantity) });
+      toast.success('Added to cart');
+      setQuantity(1);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to add to cart');
+    }
+  };
+
+  const handleSelectionChange = (next: VariantSelection) => {
+    setSelection(next);
+    setQuantity(1);
+  };
+
+  return (
+    <div className="container py-8">
+      <Breadcrumb className="mb-6">
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link to="/">Shop</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          {categoryPath.map((category) => (
+            <Fragment key={category}>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>{category}</BreadcrumbItem>
+            </Fragment>
+          ))}
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>{product.name}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="grid gap-10 lg:grid-cols-2">
+        <ProductGallery images={product.images} name={product.name} />
+
+        <div className="space-y-6">
+          <div>
+            <h1 className="mb-3 font-serif text-3xl font-bold tracking-tight text-foreground md:text-4xl">
+              {product.name}
+            </h1>
+            <div className="flex items-baseline gap-3">
+              <span className="text-2xl font-semibold text-terracotta">
+                {needsVariant && 'From '}
+                {formatMoney(price, currency)}
+              </span>
+              {price < regularPrice && (
+                <span className="text-lg text-muted-foreground line-through">{formatMoney(regularPrice, currency)}</span>
+              )}
+              {taxRate > 0 && (
+                <span className="text-sm text-muted-foreground">
+                  {formatMoney(price + taxFor(price, taxRate), currency)} incl. {taxRate}% tax
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div>
+            {product.archived ? (
+              <Badge className="border-transparent bg-muted text-muted-foreground">No longer available</Badge>
+            ) : stock === 0 ? (
+              <Badge className="border-transparent bg-foreground/80 text-white">Sold out</Badge>
+            ) : stock <= LOW_STOCK_THRESHOLD ? (
+              <Badge className="border-transparent bg-terracotta text-white">Only {stock} left</Badge>
+            ) : (
+              <Badge className="border-transparent bg-sage/20 text-sage">In stock</Badge>
+            )}
+          </div>
+
+          <p className="whitespace-pre-line leading-relaxed text-muted-foreground">{product.description}</p>
+
+          {hasVariants && !product.archived && (
+            <VariantPicker product={product} selection={selection} onSelectionChange={handleSelectionChange} />
+          )}
+
+          <div className="flex items-center gap-4 border-t border-sage/20 pt-6">
+            <div className="flex items-center rounded-md border border-sage/30">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setQuantity((q) => Math.max(1, q - 1))}
+                disabled={isUnavailable || needsVariant || quantity <= 1}
+                aria-label="Decrease quantity"
+              >
+                <Minus className="h-4 w-4" />
+              </Button>
+              <span className="w-10 text-center font-medium">{quantity}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setQuantity((q) => Math.min(addable, q + 1))}
+                disabled={isUnavailable || needsVariant || quantity >= addable}
+                aria-label="Increase quantity"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button
+              onClick={handleAddToCart}
+              disabled={isAddingToBasket || !isStripeConfigured || isUnavailable || needsVariant || quantity > addable}
+              className="flex-1 bg-terracotta hover:bg-terracotta/90"
+            >
+              {isAddingToBasket ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ShoppingCart className="mr-2 h-4 w-4" />
+              )}
+              {needsVariant ? 'Choose Options' : 'Add to Cart'}
+            </Button>
+          </div>
+          {inCart > 0 && !isUnavailable && (
+            <p className="-mt-3 text-sm text-muted-foreground">
+              {addable === 0 ? `All ${stock} in stock are in your cart` : `${inCart} already in your cart`}
+            </p>
+          )}
+
+          {product.attributes.length > 0 && (
+            <div className="border-t border-sage/20 pt-6">
+              <h2 className="mb-3 font-serif text-xl font-semibold text-foreground">Specifications</h2>
+              <Table>
+                <TableBody>
+                  {product.attributes.map((attribute) => (
+                    <TableRow key={attribute.name}>
+                      <TableCell className="w-1/2 font-medium text-muted-foreground">{attribute.name}</TableCell>
+                      <TableCell>
+                        {formatAttributeValue(
+                          attributeSchema.find((definition) => definition.name === attribute.name),
+                          attribute.value
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
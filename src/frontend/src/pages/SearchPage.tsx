@@ -0,0 +1,59 @@
+import { useNavigate, useSearch } from '@tanstack/react-router';
+import { useSearchProducts } from '../hooks/useQueries';
+import ProductGrid from '../components/ProductGrid';
+import CategoryFilter from '../components/CategoryFilter';
+import ProductSortSelect from '../components/ProductSortSelect';
+import { SEARCH_SORTS, hasActiveFilters, type ProductFilterSearch } from '../utils/products';
+
+export default function SearchPage() {
+  const navigate = useNavigate({ from: '/search' });
+  const { q, sort, page, ...filters } = useSearch({ from: '/search' });
+  // The URL counts pages from 1
+  const { data: results, isLoading } = useSearchProducts({ query: q, filters, sort, page: page - 1 });
+
+  // Any change to what is being searched starts again from the first page
+  const handleFiltersChange = (next: ProductFilterSearch) => {
+    navigate({ search: { q, sort, page: 1, ...next } });
+  };
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="mb-1 font-serif text-3xl font-bold tracking-tight text-foreground">
+            {q ? (
+              <>
+                Results for <span className="text-terracotta">“{q}”</span>
+              </>
+            ) : (
+              'All Products'
+            )}
+          </h1>
+          <p className="text-muted-foreground">Search matches product names, categories and descriptions.</p>
+        </div>
+        <ProductSortSelect
+          value={sort}
+          options={SEARCH_SORTS}
+          onValueChange={(next) => navigate({ search: (prev) => ({ ...prev, sort: next, page: 1 }) })}
+        />
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-[280px_1fr]">
+        <aside className="lg:sticky lg:top-24 lg:h-fit">
+          <CategoryFilter filters={filters} onFiltersChange={handleFiltersChange} facets={results?.facets} />
+        </aside>
+
+        <div>
+          <ProductGrid
+            results={results}
+            isLoading={isLoading}
+            page={page - 1}
+            onPageChange={(next) => navigate({ search: (prev) => ({ ...prev, page: next + 1 }) })}
+            isSearch
+            hasFilters={hasActiveFilters(filters)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { AttributeType, type AttributeDefinition, type ProductAttribute } from '../backend';
+
+/**
+ * Attribute values being edited in a form, keyed by attribute name
+ */
+export type AttributeValues = Record<string, string>;
+
+export const ATTRIBUTE_TYPE_LABELS: Record<AttributeType, string> = {
+    [AttributeType.text]: 'Text',
+    [AttributeType.number_]: 'Number',
+    [AttributeType.boolean_]: 'Yes / No',
+    [AttributeType.choice]: 'Choice',
+};
+
+export function toAttributeValues(attributes: ProductAttribute[]): AttributeValues {
+    return Object.fromEntries(attributes.map((attribute) => [attribute.name, attribute.value]));
+}
+
+// An unticked checkbox is an answer too, so yes/no attributes always have a value
+function attributeValue(definition: AttributeDefinition, values: AttributeValues): string {
+    const value = (values[definition.name] ?? '').trim();
+    if (definition.valueType === AttributeType.boolean_) {
+        return value === 'true' ? 'true' : 'false';
+    }
+    return value;
+}
+
+/**
+ * Converts form values into what the backend expects, in schema order and leaving out blank values
+ */
+export function toProductAttributes(schema: AttributeDefinition[], values: AttributeValues): ProductAttribute[] {
+    return schema
+        .map((definition) => ({ name: definition.name, value: attributeValue(definition, values) }))
+        .filter((attribute) => attribute.value !== '');
+}
+
+/**
+ * Names of required attributes that have no value yet
+ */
+export function missingRequiredAttributes(schema: AttributeDefinition[], values: AttributeValues): string[] {
+    return schema
+        .filter((definition) => definition.required && !attributeValue(definition, values))
+        .map((definition) => definition.name);
+}
+
+export function formatAttributeValue(definition: AttributeDefinition | undefined, value: string): string {
+    if (definition?.valueType === AttributeType.boolean_) {
+        return value === 'true' ? 'Yes' : 'No';
+    }
+    return value;
+}
@@ -0,0 +1,63 @@
+import type { AttributeDefinition, Category, Currency, DescriptionTemplates } from '../backend';
+import { formatAttributeValue, type AttributeValues } from './attributes';
+
+export const DESCRIPTION_PLACEHOLDERS = ['name', 'category', 'price'];
+
+// Mirrors formatAmount in the backend, e.g. "19.50 USD", so previews match the stored descriptions
+function formatTemplatePrice(amount: bigint, currency: Currency): string {
+    return `${(Number(amount) / 100).toFixed(2)} ${currency.toUpperCase()}`;
+}
+
+function categoryTemplate(templates: DescriptionTemplates, categoryId: string | undefined): string | undefined {
+    return templates.categories.find((entry) => entry.categoryId === categoryId)?.template;
+}
+
+/**
+ * The template a category falls back to without one of its own: its parent category's, else the default
+ */
+export function inheritedDescriptionTemplate(
+    templates: DescriptionTemplates,
+    categories: Category[],
+    categoryId: string
+): string {
+    const parent = categories.find((category) => category.name === categoryId)?.parent;
+    return categoryTemplate(templates, parent) ?? templates.defaultTemplate;
+}
+
+/**
+ * The template new products in the category get
+ */
+export function descriptionTemplateFor(
+    templates: DescriptionTemplates,
+    categories: Category[],
+    categoryId: string
+): string {
+    return categoryTemplate(templates, categoryId) ?? inheritedDescriptionTemplate(templates, categories, categoryId);
+}
+
+/**
+ * Fills in a description template the same way the backend does when it generates a description,
+ * so previews match the text products end up with. Price is in the smallest currency unit.
+ */
+export function renderDescriptionTemplate(
+    template: string,
+    product: {
+        name: string;
+        categoryId: string;
+        price: bigint;
+        currency: Currency;
+        schema: AttributeDefinition[];
+        attributes: AttributeValues;
+    }
+): string {
+    const values: [string, string][] = [
+        ['name', product.name],
+        ['category', product.categoryId],
+        ['price', formatTemplatePrice(product.price, product.currency)],
+        ...product.schema.map((definition): [string, string] => {
+            const value = product.attributes[definition.name]?.trim();
+            return [definition.name, value ? formatAttributeValue(definition, value) : ''];
+        }),
+    ];
+    return values.reduce((text, [placeholder, value]) => text.split(`{${placeholder}}`).join(value), template);
+}
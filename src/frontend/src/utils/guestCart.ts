@@ -0,0 +1,41 @@
+import type { BasketItem } from '../backend';
+
+const GUEST_CART_KEY = 'guestCart';
+
+// Quantities are bigints, which JSON cannot hold, so they are stored as strings
+type StoredBasketItem = { productId: string; variantSku?: string; quantity: string };
+
+/**
+ * The cart of a visitor who has not logged in, kept in localStorage until it is merged into their basket
+ */
+export function loadGuestCart(): BasketItem[] {
+    try {
+        const stored = localStorage.getItem(GUEST_CART_KEY);
+        if (!stored) return [];
+        return (JSON.parse(stored) as StoredBasketItem[]).map((item) => ({
+            productId: item.productId,
+            variantSku: item.variantSku,
+            quantity: BigInt(item.quantity),
+        }));
+    } catch (error) {
+        console.warn('Failed to load guest cart:', error);
+        return [];
+    }
+}
+
+export function saveGuestCart(items: BasketItem[]): void {
+    try {
+        if (items.length === 0) {
+            localStorage.removeItem(GUEST_CART_KEY);
+            return;
+        }
+        const stored: StoredBasketItem[] = items.map((item) => ({
+            productId: item.productId,
+            variantSku: item.variantSku,
+            quantity: item.quantity.toString(),
+        }));
+        localStorage.setItem(GUEST_CART_KEY, JSON.stringify(stored));
+    } catch (error) {
+        console.warn('Failed to save guest cart:', error);
+    }
+}
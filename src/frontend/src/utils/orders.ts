@@ -0,0 +1,99 @@
+import { OrderStatus, type Order, type OrderItem, type RefundLine } from '../backend';
+
+/**
+ * Converts a canister timestamp (nanoseconds since epoch) into a readable date
+ */
+export function formatOrderDate(timestamp: bigint): string {
+    return new Date(Number(timestamp / BigInt(1_000_000))).toLocaleString();
+}
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+    [OrderStatus.pending]: 'Awaiting payment',
+    [OrderStatus.paid]: 'Paid',
+    [OrderStatus.packed]: 'Packed',
+    [OrderStatus.shipped]: 'Shipped',
+    [OrderStatus.delivered]: 'Delivered',
+    [OrderStatus.cancelled]: 'Cancelled',
+    [OrderStatus.refunded]: 'Refunded',
+};
+
+export const ORDER_STATUS_STYLES: Record<OrderStatus, string> = {
+    [OrderStatus.pending]: 'border-transparent bg-cream text-foreground',
+    [OrderStatus.paid]: 'border-transparent bg-sage/20 text-sage',
+    [OrderStatus.packed]: 'border-transparent bg-sage/20 text-sage',
+    [OrderStatus.shipped]: 'border-transparent bg-terracotta/15 text-terracotta',
+    [OrderStatus.delivered]: 'border-transparent bg-sage text-white',
+    [OrderStatus.cancelled]: 'border-transparent bg-muted text-muted-foreground',
+    [OrderStatus.refunded]: 'border-transparent bg-muted text-muted-foreground',
+};
+
+/**
+ * Status changes an admin may make from each status.
+ * Mirrors isValidOrderTransition in the backend, which has the final say.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    [OrderStatus.pending]: [OrderStatus.paid, OrderStatus.cancelled],
+    [OrderStatus.paid]: [OrderStatus.packed, OrderStatus.cancelled, OrderStatus.refunded],
+    [OrderStatus.packed]: [OrderStatus.shipped, OrderStatus.cancelled, OrderStatus.refunded],
+    [OrderStatus.shipped]: [OrderStatus.delivered, OrderStatus.refunded],
+    [OrderStatus.delivered]: [OrderStatus.refunded],
+    [OrderStatus.cancelled]: [],
+    [OrderStatus.refunded]: [],
+};
+
+/**
+ * Whether the order is in a status money can be refunded from. A cancelled order can still hold a Stripe payment,
+ * e.g. one the buyer finished as it was cancelled. Mirrors Orders.isRefundable in the backend, which has the final say.
+ */
+export function isRefundableStatus(order: Order): boolean {
+    if (order.status === OrderStatus.cancelled) return order.paymentIntentId !== undefined;
+    return ORDER_STATUS_TRANSITIONS[order.status].includes(OrderStatus.refunded);
+}
+
+/**
+ * Whether cancelling the order refunds everything not yet refunded through Stripe, leaving it refunded.
+ * Mirrors Orders.cancelsWithRefund in the backend.
+ */
+export function cancelsWithRefund(order: Order): boolean {
+    return (
+        order.status !== OrderStatus.pending &&
+        ORDER_STATUS_TRANSITIONS[order.status].includes(OrderStatus.cancelled) &&
+        order.paymentIntentId !== undefined &&
+        order.total > refundedAmount(order)
+    );
+}
+
+function isRefundLineFor(line: RefundLine, item: OrderItem): boolean {
+    return line.productId === item.productId && line.variantSku === item.variantSku;
+}
+
+/**
+ * The total of the refunds made from the admin area
+ */
+export function refundedAmount(order: Order): bigint {
+    return order.refunds.reduce((sum, refund) => sum + refund.amount, 0n);
+}
+
+/**
+ * How many of an order line have not been refunded yet
+ */
+export function refundableQuantity(order: Order, item: OrderItem): bigint {
+    const refunded = order.refunds
+        .flatMap((refund) => refund.lines)
+        .filter((line) => isRefundLineFor(line, item))
+        .reduce((sum, line) => sum + line.quantity, 0n);
+    return item.quantity > refunded ? item.quantity - refunded : 0n;
+}
+
+/**
+ * What the buyer paid for the lines: their share of the total without shipping, so discount and tax are included.
+ * Mirrors lineRefundAmount in the backend, which has the final say.
+ */
+export function lineRefundAmount(order: Order, lines: RefundLine[]): bigint {
+    if (order.subtotal === 0n) return 0n;
+    const linesValue = lines.reduce((sum, line) => {
+        const item = order.items.find((candidate) => isRefundLineFor(line, candidate));
+        return item ? sum + item.unitPrice * line.quantity : sum;
+    }, 0n);
+    return ((order.total - order.shipping) * linesValue) / order.subtotal;
+}
@@ -0,0 +1,57 @@
+import { Currency, DiscountKind, type Product, type Sale, type StoreSettings } from '../backend';
+
+/**
+ * Formats an amount in the smallest currency unit (e.g. cents) as money, e.g. "$19.50" or "€19.50"
+ */
+export function formatMoney(amount: bigint, currency: Currency): string {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: currency.toUpperCase() }).format(
+        Number(amount) / 100
+    );
+}
+
+/**
+ * The store's currency and tax rate, with the defaults the backend uses before settings are saved
+ */
+export function storePricing(settings: StoreSettings | null | undefined): { currency: Currency; taxRate: number } {
+    return { currency: settings?.currency ?? Currency.usd, taxRate: settings?.taxRate ?? 0 };
+}
+
+// Matches Float.nearest in the backend, which rounds halves to the nearest even number
+function roundHalfEven(value: number): number {
+    const rounded = Math.round(value);
+    return Math.abs(value % 1) === 0.5 && rounded % 2 !== 0 ? rounded - 1 : rounded;
+}
+
+/**
+ * Tax on an amount in the smallest currency unit, rounded the same way as at checkout.
+ * Basket totals come from the backend's quoteBasket instead, so they always match what is charged.
+ */
+export function taxFor(amount: bigint, taxRate: number): bigint {
+    return BigInt(roundHalfEven((Number(amount) * taxRate) / 100));
+}
+
+/**
+ * Whether a sale is running at the given time (in milliseconds, e.g. Date.now()), by the same rule checkout uses
+ */
+export function isSaleRunning(sale: Sale, now: number = Date.now()): boolean {
+    const nanoseconds = BigInt(now) * 1_000_000n;
+    return (
+        (sale.startsAt === undefined || nanoseconds >= sale.startsAt) &&
+        (sale.endsAt === undefined || nanoseconds < sale.endsAt)
+    );
+}
+
+/**
+ * What a product or variant price comes to while the product's sale runs, or the regular price otherwise.
+ * Like the backend, a fixed amount that would take the whole price off does not apply.
+ */
+export function salePrice(product: Product, regularPrice: bigint): bigint {
+    const sale = product.sale;
+    if (!sale || !isSaleRunning(sale)) {
+        return regularPrice;
+    }
+    if (sale.kind === DiscountKind.percentage) {
+        return regularPrice - (regularPrice * sale.amount) / 100n;
+    }
+    return sale.amount >= regularPrice ? regularPrice : regularPrice - sale.amount;
+}
@@ -0,0 +1,160 @@
+import { ProductSort, type Product, type ProductFilter, type ProductVariant } from '../backend';
+
+/**
+ * Products with this many units or fewer left are flagged as low stock
+ */
+export const LOW_STOCK_THRESHOLD = 3;
+
+export const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+    [ProductSort.relevance]: 'Best match',
+    [ProductSort.newest]: 'Newest',
+    [ProductSort.priceAsc]: 'Price: low to high',
+    [ProductSort.priceDesc]: 'Price: high to low',
+    [ProductSort.nameAsc]: 'Name: A to Z',
+};
+
+/**
+ * Sort options for browsing the catalogue; relevance only applies to search results
+ */
+export const CATALOGUE_SORTS: ProductSort[] = [
+    ProductSort.newest,
+    ProductSort.priceAsc,
+    ProductSort.priceDesc,
+    ProductSort.nameAsc,
+];
+
+export const SEARCH_SORTS: ProductSort[] = [ProductSort.relevance, ...CATALOGUE_SORTS];
+
+/**
+ * Reads a sort option from the URL, falling back to the first (default) option for anything unrecognised
+ */
+export function parseProductSort(value: unknown, options: ProductSort[]): ProductSort {
+    return options.includes(value as ProductSort) ? (value as ProductSort) : options[0];
+}
+
+/**
+ * Reads a one-based page number from the URL
+ */
+export function parsePageNumber(value: unknown): number {
+    const page = Number(value);
+    return Number.isInteger(page) && page >= 1 ? page : 1;
+}
+
+/**
+ * Product filters as they appear in the URL, so filtered views can be bookmarked and shared.
+ * Prices are in whole currency units; unset filters are left out of the URL.
+ */
+export type ProductFilterSearch = {
+    categories?: string[];
+    minPrice?: number;
+    maxPrice?: number;
+    inStock?: boolean;
+    newArrivals?: boolean;
+    // Chosen values by attribute name, e.g. { Key: ['C', 'G'] }
+    attributes?: Record<string, string[]>;
+};
+
+function parsePrice(value: unknown): number | undefined {
+    const price = Number(value);
+    return value !== undefined && Number.isFinite(price) && price >= 0 ? Math.floor(price) : undefined;
+}
+
+function parseAttributes(value: unknown): Record<string, string[]> | undefined {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+    const attributes = Object.entries(value)
+        .map(([name, values]): [string, string[]] => [
+            name,
+            Array.isArray(values) ? values.filter((item): item is string => typeof item === 'string') : [],
+        ])
+        .filter(([, values]) => values.length > 0);
+    return attributes.length > 0 ? Object.fromEntries(attributes) : undefined;
+}
+
+export function parseProductFilterSearch(search: Record<string, unknown>): ProductFilterSearch {
+    const categories = Array.isArray(search.categories)
+        ? search.categories.filter((category): category is string => typeof category === 'string')
+        : [];
+    return {
+        categories: categories.length > 0 ? categories : undefined,
+        minPrice: parsePrice(search.minPrice),
+        maxPrice: parsePrice(search.maxPrice),
+        inStock: search.inStock === true ? true : undefined,
+        newArrivals: search.newArrivals === true ? true : undefined,
+        attributes: parseAttributes(search.attributes),
+    };
+}
+
+/**
+ * Adds or removes one attribute value, dropping attributes left without any
+ */
+export function toggleAttributeValue(filters: ProductFilterSearch, name: string, value: string): ProductFilterSearch {
+    const selected = filters.attributes?.[name] ?? [];
+    const values = selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value];
+    const { [name]: _previous, ...others } = filters.attributes ?? {};
+    const attributes = values.length > 0 ? { ...others, [name]: values } : others;
+    return { ...filters, attributes: Object.keys(attributes).length > 0 ? attributes : undefined };
+}
+
+export function hasActiveFilters(filters: ProductFilterSearch): boolean {
+    return Object.values(filters).some((value) => value !== undefined);
+}
+
+export function toProductFilter(filters: ProductFilterSearch): ProductFilter {
+    return {
+        categoryIds: filters.categories ?? [],
+        minPrice: filters.minPrice !== undefined ? BigInt(filters.minPrice * 100) : undefined,
+        // The slider works in whole units, so include everything up to the end of the last one
+        maxPrice: filters.maxPrice !== undefined ? BigInt(filters.maxPrice * 100 + 99) : undefined,
+        inStockOnly: filters.inStock ?? false,
+        newArrivalsOnly: filters.newArrivals ?? false,
+        attributes: Object.entries(filters.attributes ?? {}).map(([name, values]) => ({ name, values })),
+    };
+}
+
+/**
+ * Option values picked so far, one entry per product option; undefined until the shopper chooses one
+ */
+export type VariantSelection = (string | undefined)[];
+
+export function emptyVariantSelection(product: Product): VariantSelection {
+    return product.options.map(() => undefined);
+}
+
+/**
+ * The variant matching a complete selection, or undefined while any option is still unchosen
+ */
+export function findVariant(product: Product, selection: VariantSelection): ProductVariant | undefined {
+    if (selection.some((value) => value === undefined)) return undefined;
+    return product.variants.find((variant) =>
+        variant.optionValues.every((value, index) => value === selection[index])
+    );
+}
+
+export function findVariantBySku(product: Product, sku: string | undefined): ProductVariant | undefined {
+    return sku === undefined ? undefined : product.variants.find((variant) => variant.sku === sku);
+}
+
+/**
+ * Whether picking this value keeps an in-stock variant reachable, given what is already chosen for the other options
+ */
+export function isOptionValueAvailable(
+    product: Product,
+    selection: VariantSelection,
+    optionIndex: number,
+    value: string
+): boolean {
+    return product.variants.some(
+        (variant) =>
+            variant.stock > BigInt(0) &&
+            variant.optionValues.every((variantValue, index) =>
+                index === optionIndex ? variantValue === value : selection[index] === undefined || selection[index] === variantValue
+            )
+    );
+}
+
+/**
+ * Names the chosen options, e.g. "Key: G, Finish: Glazed"
+ */
+export function variantLabel(product: Product, variant: ProductVariant): string {
+    return variant.optionValues.map((value, index) => `${product.options[index]?.name}: ${value}`).join(', ');
+}
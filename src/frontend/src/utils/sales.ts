@@ -0,0 +1,81 @@
+import { DiscountKind, type Sale } from '../backend';
+
+/**
+ * A sale being edited in a form. The amount is a percentage or an amount in the store currency, e.g. "5.00",
+ * and the times are datetime-local values, blank for no start or no end.
+ */
+export type SaleDraft = {
+    onSale: boolean;
+    kind: DiscountKind;
+    amount: string;
+    startsAt: string;
+    endsAt: string;
+};
+
+export const emptySaleDraft = (): SaleDraft => ({
+    onSale: false,
+    kind: DiscountKind.percentage,
+    amount: '',
+    startsAt: '',
+    endsAt: '',
+});
+
+// Sale times are nanoseconds since the epoch in the backend
+function toDateTimeInput(nanoseconds: bigint): string {
+    const date = new Date(Number(nanoseconds / 1_000_000n));
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function fromDateTimeInput(value: string, label: string): bigint | undefined {
+    if (!value) return undefined;
+    const milliseconds = new Date(value).getTime();
+    if (isNaN(milliseconds)) {
+        throw new Error(`${label} is not a valid date and time`);
+    }
+    return BigInt(milliseconds) * 1_000_000n;
+}
+
+export function toSaleDraft(sale: Sale | undefined): SaleDraft {
+    if (!sale) return emptySaleDraft();
+    return {
+        onSale: true,
+        kind: sale.kind,
+        amount: sale.kind === DiscountKind.fixed ? (Number(sale.amount) / 100).toFixed(2) : sale.amount.toString(),
+        startsAt: sale.startsAt === undefined ? '' : toDateTimeInput(sale.startsAt),
+        endsAt: sale.endsAt === undefined ? '' : toDateTimeInput(sale.endsAt),
+    };
+}
+
+/**
+ * Converts the draft into a sale for the backend, which checks the rest, or null when not on sale.
+ * Throws when a field cannot be read.
+ */
+export function toSale(draft: SaleDraft): Sale | null {
+    if (!draft.onSale) return null;
+    let amount: bigint;
+    if (draft.kind === DiscountKind.percentage) {
+        const percentage = parseInt(draft.amount, 10);
+        if (isNaN(percentage) || percentage < 1) {
+            throw new Error('The sale must take a whole percentage of at least 1 off');
+        }
+        amount = BigInt(percentage);
+    } else {
+        const amountOff = parseFloat(draft.amount);
+        if (isNaN(amountOff) || amountOff <= 0) {
+            throw new Error('The sale must take an amount of more than 0 off');
+        }
+        amount = BigInt(Math.round(amountOff * 100));
+    }
+    return {
+        kind: draft.kind,
+        amount,
+        startsAt: fromDateTimeInput(draft.startsAt, 'The sale start'),
+        endsAt: fromDateTimeInput(draft.endsAt, 'The sale end'),
+    };
+}
+
+export function sameSale(a: Sale | null | undefined, b: Sale | null | undefined): boolean {
+    if (!a || !b) return !a && !b;
+    return a.kind === b.kind && a.amount === b.amount && a.startsAt === b.startsAt && a.endsAt === b.endsAt;
+}
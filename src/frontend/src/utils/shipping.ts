@@ -0,0 +1,34 @@
+import { RateBasis, type BasketItem, type ShippingZone } from '../backend';
+
+export const RATE_BASIS_LABELS: Record<RateBasis, string> = {
+    [RateBasis.flat]: 'Flat fee',
+    [RateBasis.weight]: 'By weight',
+    [RateBasis.orderTotal]: 'By order total',
+};
+
+/**
+ * Identifies a set of basket items, e.g. to cache a price for exactly those items and quantities
+ */
+export function basketItemsKey(items: BasketItem[]): string {
+    return items.map((item) => `${item.productId}/${item.variantSku ?? ''}x${item.quantity.toString()}`).join(',');
+}
+
+/**
+ * The country's name in the visitor's language, e.g. "United Kingdom" for "GB"
+ */
+export function countryName(code: string): string {
+    try {
+        return new Intl.DisplayNames(undefined, { type: 'region' }).of(code) ?? code;
+    } catch {
+        return code;
+    }
+}
+
+/**
+ * Every country the store ships to, sorted by name
+ */
+export function shippingCountries(zones: ShippingZone[]): string[] {
+    return zones
+        .flatMap((zone) => zone.countries)
+        .sort((a, b) => countryName(a).localeCompare(countryName(b)));
+}